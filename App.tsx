@@ -1,9 +1,39 @@
-import React, { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { ImageUploader } from './components/ImageUploader';
-import { MapView } from './components/MapView';
+import { ImageList } from './components/ImageList';
+import { TrackPanel } from './components/TrackPanel';
+import { LocationImportPanel } from './components/LocationImportPanel';
+import { LayerExportPanel } from './components/LayerExportPanel';
+import { ProjectsPanel } from './components/ProjectsPanel';
+import { ResumePrompt } from './components/ResumePrompt';
+import { ExportPanel } from './components/ExportPanel';
+import { ScrubPanel } from './components/ScrubPanel';
+import { MapView, PhotoMarker } from './components/MapView';
 import { ExifEditor } from './components/ExifEditor';
-import { UploadedImage, GPSData } from './types';
-import { parseExifData } from './utils/geoUtils';
+import { FormatSupportTable } from './components/FormatSupportTable';
+import { PlacePanel } from './components/PlacePanel';
+import { PresetsPanel } from './components/PresetsPanel';
+import { CaptureTimePanel } from './components/CaptureTimePanel';
+import { ElevationPanel } from './components/ElevationPanel';
+import { GeofencePanel } from './components/GeofencePanel';
+import { FuzzPanel } from './components/FuzzPanel';
+import { UploadedImage, GPSData, TrackPoint, ExifTagEdits, Gazetteer, GazetteerEntry, XmpLocation, LocationPreset, LocationTable, TimeZoneDataset, CaptureTimeEdit, CaptureTimeOptions, ElevationTile, ElevationSettings, GeofenceArea, GeofenceSettings, GeofenceTool, FuzzSettings } from './types';
+import { loadUploadedImage, getEffectiveGps, getDisplayUrl } from './utils/imageUtils';
+import { FORMAT_CAPABILITIES } from './utils/formatUtils';
+import { isXmpSidecarFile, matchesSidecar, parseXmpPacket } from './utils/xmpUtils';
+import { isLocationFile, parseLocationFile } from './utils/locationImportUtils';
+import { EditHistory, createHistory, pushHistory, undoHistory, redoHistory, isSameGps } from './utils/historyUtils';
+import { BUILT_IN_GAZETTEERS } from './utils/gazetteerUtils';
+import { readSetting, writeSetting } from './utils/settingsUtils';
+import { loadPresets, savePresets, applyPreset } from './utils/presetUtils';
+import { hasUsableGps } from './utils/geoUtils';
+import { loadMapView } from './utils/tileSourceUtils';
+import { getDeviceGps, getGeolocationProvider } from './utils/geolocationUtils';
+import { BUILT_IN_TIME_ZONES, DEFAULT_TIME_ZONE, resolveCaptureTime } from './utils/timeZoneUtils';
+import { loadElevationSettings, saveElevationSettings, withGroundElevation } from './utils/elevationUtils';
+import { createLocationFuzzer, loadFuzzSettings, saveFuzzSettings } from './utils/fuzzUtils';
+import { areaFromCorners, getGeofenceStatus, loadGeofenceSettings, loadGeofences, saveGeofenceSettings, saveGeofences } from './utils/geofenceUtils';
+import { AUTOSAVE_ID, SessionSnapshot, deleteSession, loadSession, restoreSession, saveSession } from './utils/sessionUtils';
 import { Map as MapIcon, RotateCcw, Lock, MapPin } from 'lucide-react';
 
 // Default to Tashkent, Uzbekistan
@@ -13,46 +43,540 @@ const DEFAULT_GPS: GPSData = {
   altitude: 0
 };
 
+// The map and pin start where the map was left last time
+const getStartGps = (): GPSData => {
+  const view = loadMapView();
+  return view ? { lat: view.lat, lng: view.lng, altitude: 0 } : DEFAULT_GPS;
+};
+
+// Moves further than this from the file's own location are flagged before saving
+const DEFAULT_MOVE_WARNING_METERS = 100;
+
+// Where the pin was put is what gets written, unless it is back on the file's own GPS
+const withPendingGps = (img: UploadedImage, gps: GPSData): UploadedImage => {
+  const original = img.metadata.gps;
+  return { ...img, pendingGps: original && isSameGps(gps, original) ? undefined : gps };
+};
+
 export default function App() {
-  const [image, setImage] = useState<UploadedImage | null>(null);
+  const [images, setImages] = useState<UploadedImage[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [track, setTrack] = useState<TrackPoint[]>([]);
+  const [trackName, setTrackName] = useState<string | null>(null);
+  const [locationTable, setLocationTable] = useState<LocationTable | null>(null);
   
   // currentGps represents where the PIN is
-  const [currentGps, setCurrentGps] = useState<GPSData>(DEFAULT_GPS);
+  const [currentGps, setCurrentGps] = useState<GPSData>(getStartGps);
   
   // mapCenter represents where the CAMERA looks
-  const [mapCenter, setMapCenter] = useState<GPSData>(DEFAULT_GPS);
-
-  const handleImageSelect = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      if (result) {
-        const metadata = parseExifData(result);
-        
-        setImage({
-          file,
-          previewUrl: result,
-          metadata
-        });
-
-        if (metadata.gps && metadata.gps.lat !== 0 && metadata.gps.lng !== 0) {
-          // If image has GPS, move pin AND camera
-          const newGps = metadata.gps;
-          setCurrentGps(newGps);
-          setMapCenter(newGps);
+  const [mapCenter, setMapCenter] = useState<GPSData>(getStartGps);
+
+  // Pin history per image id, so undo never crosses into another photo
+  const [histories, setHistories] = useState<Record<string, EditHistory>>({});
+
+  // Built-in regions plus any OSM extracts imported this session
+  const [gazetteers, setGazetteers] = useState<Gazetteer[]>(BUILT_IN_GAZETTEERS);
+
+  const [moveWarningMeters, setMoveWarningMeters] = useState<number>(() => readSetting('moveWarningMeters', DEFAULT_MOVE_WARNING_METERS));
+
+  useEffect(() => {
+    writeSetting('moveWarningMeters', moveWarningMeters);
+  }, [moveWarningMeters]);
+
+  // Zone boundaries for the pin, built-in plus any imported this session
+  const [timeZoneDatasets, setTimeZoneDatasets] = useState<TimeZoneDataset[]>(BUILT_IN_TIME_ZONES);
+  const [defaultTimeZone, setDefaultTimeZone] = useState<string>(() => readSetting('defaultTimeZone', DEFAULT_TIME_ZONE));
+
+  useEffect(() => {
+    writeSetting('defaultTimeZone', defaultTimeZone);
+  }, [defaultTimeZone]);
+
+  const captureTimeOptions = useMemo<CaptureTimeOptions>(
+    () => ({ datasets: timeZoneDatasets, defaultTimeZone }),
+    [timeZoneDatasets, defaultTimeZone]
+  );
+
+  // DEM tiles are loaded per session, how they are used is remembered
+  const [elevationTiles, setElevationTiles] = useState<ElevationTile[]>([]);
+  const [elevationSettings, setElevationSettings] = useState<ElevationSettings>(loadElevationSettings);
+
+  useEffect(() => {
+    saveElevationSettings(elevationSettings);
+  }, [elevationSettings]);
+
+  // Project boundaries, kept between sessions like presets
+  const [geofences, setGeofences] = useState<GeofenceArea[]>(loadGeofences);
+  const [geofenceSettings, setGeofenceSettings] = useState<GeofenceSettings>(loadGeofenceSettings);
+  const [geofenceTool, setGeofenceTool] = useState<GeofenceTool | null>(null);
+
+  useEffect(() => {
+    saveGeofences(geofences);
+  }, [geofences]);
+
+  useEffect(() => {
+    saveGeofenceSettings(geofenceSettings);
+  }, [geofenceSettings]);
+
+  // Coarse locations for sharing; applies to every write while enabled
+  const [fuzzSettings, setFuzzSettings] = useState<FuzzSettings>(loadFuzzSettings);
+
+  useEffect(() => {
+    saveFuzzSettings(fuzzSettings);
+  }, [fuzzSettings]);
+
+  const fuzzer = useMemo(
+    () => fuzzSettings.enabled ? createLocationFuzzer(fuzzSettings, gazetteers) : null,
+    [fuzzSettings, gazetteers]
+  );
+
+  // Team-wide named sites, kept between sessions
+  const [presets, setPresets] = useState<LocationPreset[]>(loadPresets);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  // The last session is only autosaved over once the user has resumed or discarded it
+  const [resumable, setResumable] = useState<SessionSnapshot | null>(null);
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+
+  useEffect(() => {
+    loadSession(AUTOSAVE_ID)
+      .then(session => {
+        if (session && session.images.length > 0) {
+          setResumable(session);
+        } else {
+          setAutosaveEnabled(true);
         }
+      })
+      .catch(error => {
+        console.error("Failed to read the saved session", error);
+        setAutosaveEnabled(true);
+      });
+  }, []);
+
+  // Written a second after the last change, so dragging the pin doesn't save on every frame
+  useEffect(() => {
+    if (!autosaveEnabled) return;
+    const timer = setTimeout(() => {
+      saveSession(AUTOSAVE_ID, 'Autosave', { images, activeId, histories, mapCenter, track, trackName })
+        .catch(error => console.error("Failed to autosave the session", error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [autosaveEnabled, images, activeId, histories, mapCenter, track, trackName]);
+
+  // The browser's receiver, or null where there is none
+  const geolocation = useMemo(getGeolocationProvider, []);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const image = images.find(img => img.id === activeId) || null;
+  const history = activeId ? histories[activeId] : undefined;
+  const captureTime = useMemo(
+    () => image ? resolveCaptureTime(image, currentGps, captureTimeOptions) : null,
+    [image, currentGps, captureTimeOptions]
+  );
+
+  const activeGeofence = geofences.find(area => area.id === geofenceSettings.activeId);
+  const geofenceStatus = useMemo(
+    () => getGeofenceStatus(activeGeofence, geofenceSettings.mode, currentGps),
+    [activeGeofence, geofenceSettings.mode, currentGps]
+  );
+  // Checked where each photo will be written, as export does
+  const outsideIds = useMemo(() => new Set(images
+    .filter(img => getGeofenceStatus(activeGeofence, geofenceSettings.mode, getEffectiveGps(img))?.inside === false)
+    .map(img => img.id)), [images, activeGeofence, geofenceSettings.mode]);
+
+  const fuzzPreview = useMemo(
+    () => fuzzer && image && hasUsableGps(currentGps) ? fuzzer(image.id, currentGps) : null,
+    [fuzzer, image, currentGps]
+  );
+
+  const photoMarkers = useMemo<PhotoMarker[]>(() => images.flatMap(img => {
+    const gps = getEffectiveGps(img);
+    if (!hasUsableGps(gps)) return [];
+    return [{
+      id: img.id,
+      lat: gps.lat,
+      lng: gps.lng,
+      label: img.file.name,
+      edited: !!img.pendingGps,
+      active: img.id === activeId
+    }];
+  }), [images, activeId]);
+
+  const recordHistory = (id: string, gps: GPSData, before: GPSData = gps) => {
+    setHistories(prev => ({ ...prev, [id]: pushHistory(prev[id] || createHistory(before), gps) }));
+  };
+
+  const activateImage = (target: UploadedImage) => {
+    setActiveId(target.id);
+    // Returning to an image restores where its pin was left
+    const gps = histories[target.id]?.present || getEffectiveGps(target);
+    if (hasUsableGps(gps)) {
+      // If image has GPS, move pin AND camera
+      setCurrentGps(gps);
+      setMapCenter(gps);
+      recordHistory(target.id, gps);
+    }
+  };
+
+  // Every pin move on the active image goes through here so it can be undone,
+  // and is kept as the image's pending location so batch exports include it
+  const movePin = (gps: GPSData) => {
+    setCurrentGps(gps);
+    if (activeId) {
+      recordHistory(activeId, gps, currentGps);
+      setImages(prev => prev.map(img => img.id === activeId ? withPendingGps(img, gps) : img));
+    }
+  };
+
+  const stepHistory = (step: (h: EditHistory) => EditHistory) => {
+    if (!activeId || !history) return;
+    const next = step(history);
+    setHistories(prev => ({ ...prev, [activeId]: next }));
+    setCurrentGps(next.present);
+    setMapCenter(next.present);
+    // The pending location follows the pin, and stepping back onto the file's own GPS leaves nothing to write
+    setImages(prev => prev.map(img => img.id === activeId ? withPendingGps(img, next.present) : img));
+  };
+
+  const handleUndo = () => stepHistory(undoHistory);
+  const handleRedo = () => stepHistory(redoHistory);
+
+  const handleRevert = () => {
+    const original = image?.metadata.gps;
+    if (!original) return;
+    movePin(original);
+    setMapCenter(original);
+    setImages(prev => prev.map(img => (
+      img.id === activeId ? { ...img, pendingGps: undefined } : img
+    )));
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y). Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
     };
-    reader.readAsDataURL(file);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleImagesSelect = async (files: File[]) => {
+    const sidecarFiles = files.filter(isXmpSidecarFile);
+    // A CSV or GeoJSON list dropped with the photos is loaded into the location list
+    const isLocation = await Promise.all(files.map(isLocationFile));
+    const locationFile = files.find((_, i) => isLocation[i]);
+    const imageFiles = files.filter((f, i) => !isXmpSidecarFile(f) && !isLocation[i]);
+
+    if (locationFile) {
+      try {
+        setLocationTable(parseLocationFile(locationFile.name, await locationFile.text()));
+      } catch (error) {
+        console.error("Failed to parse location file", error);
+        alert(`${locationFile.name}: ${error instanceof Error ? error.message : 'Failed to read location file.'}`);
+      }
+    }
+
+    // One unreadable file should not block the rest of the batch
+    const results = await Promise.allSettled(imageFiles.map(loadUploadedImage));
+    const failed = results.filter(r => r.status === 'rejected') as PromiseRejectedResult[];
+    const sidecars = await Promise.all(sidecarFiles.map(async f => {
+      const packet = await f.text();
+      return { name: f.name, packet, xmp: parseXmpPacket(packet) };
+    }));
+
+    // Sidecars can arrive with their images or later, for images already loaded
+    const attachSidecar = (img: UploadedImage): UploadedImage => {
+      const match = sidecars.find(s => s.xmp && matchesSidecar(img.file.name, s.name));
+      return match ? { ...img, sidecarXmp: match.xmp, sidecarXmpPacket: match.packet } : img;
+    };
+    const loaded = results
+      .filter((r): r is PromiseFulfilledResult<UploadedImage> => r.status === 'fulfilled')
+      .map(r => attachSidecar(r.value));
+
+    setImages(prev => [...prev.map(attachSidecar), ...loaded]);
+    if (!image && loaded.length > 0) {
+      activateImage(loaded[0]);
+    }
+    if (locationFile && images.length === 0 && loaded.length === 0) {
+      alert(`Loaded ${locationFile.name}. Add the photos it lists to match them.`);
+    }
+    if (failed.length > 0) {
+      failed.forEach(r => console.error("Error reading image:", r.reason));
+      alert(`Failed to read ${failed.length} image(s).`);
+    }
+
+    const known = [...images, ...loaded];
+    const unmatched = sidecars.filter(s => !s.xmp || !known.some(img => matchesSidecar(img.file.name, s.name)));
+    if (unmatched.length > 0) {
+      alert(`Ignored ${unmatched.length} .xmp file(s) without a location or a matching image: ${unmatched.map(s => s.name).join(', ')}`);
+    }
+  };
+
+  const handleActivate = (id: string) => {
+    const target = images.find(img => img.id === id);
+    if (target) activateImage(target);
+  };
+
+  const handleToggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(images.map(img => img.id)) : new Set());
+  };
+
+  const handleRemove = (id: string) => {
+    const removed = images.find(img => img.id === id);
+    if (removed) URL.revokeObjectURL(removed.previewUrl);
+    const remaining = images.filter(img => img.id !== id);
+    setImages(remaining);
+    setHistories(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    if (id === activeId) {
+      if (remaining.length > 0) {
+        activateImage(remaining[0]);
+      } else {
+        resetApp();
+      }
+    }
+  };
+
+  const handleApplyPinToSelection = () => {
+    setImages(prev => prev.map(img => (
+      selectedIds.has(img.id) ? { ...img, pendingGps: { ...currentGps } } : img
+    )));
+    // Each image's own pin is where undo takes it back to
+    images.forEach(img => {
+      const before = histories[img.id]?.present || getEffectiveGps(img);
+      if (selectedIds.has(img.id)) recordHistory(img.id, { ...currentGps }, hasUsableGps(before) ? before : undefined);
+    });
+  };
+
+  const handleTrackLoaded = (points: TrackPoint[], name: string) => {
+    setTrack(points);
+    setTrackName(name);
+    setMapCenter(points[0]);
+  };
+
+  const handleTrackClear = () => {
+    setTrack([]);
+    setTrackName(null);
+  };
+
+  const handleApplyMatches = (matches: Map<string, GPSData>) => {
+    setImages(prev => prev.map(img => {
+      const gps = matches.get(img.id);
+      return gps ? { ...img, pendingGps: gps } : img;
+    }));
+    matches.forEach((gps, id) => {
+      if (id !== activeId) recordHistory(id, gps);
+    });
+    const active = activeId ? matches.get(activeId) : undefined;
+    if (active) {
+      movePin(active);
+    }
+  };
+
+  // Clock shifts and offset stamps from the capture time tools
+  const handleApplyTimeEdits = (edits: CaptureTimeEdit[]) => {
+    const byId = new Map(edits.map(edit => [edit.imageId, edit]));
+    setImages(prev => prev.map(img => {
+      const edit = byId.get(img.id);
+      if (!edit) return img;
+      return {
+        ...img,
+        pendingTags: Object.keys(edit.tags).length > 0 ? edit.tags : undefined,
+        pendingGps: edit.gps || img.pendingGps
+      };
+    }));
+    // GPS time isn't a pin move, so it joins the active pin without a history step
+    const timestamp = activeId ? byId.get(activeId)?.gps?.timestamp : undefined;
+    if (timestamp) {
+      setCurrentGps(prev => ({ ...prev, timestamp }));
+    }
+  };
+
+  // Replaces everything loaded now with a stored session
+  const openSession = async (session: SessionSnapshot) => {
+    const { state, failed } = await restoreSession(session);
+    images.forEach(img => URL.revokeObjectURL(img.previewUrl));
+    setImages(state.images);
+    setActiveId(state.activeId);
+    setSelectedIds(new Set());
+    setHistories(state.histories);
+    setTrack(state.track);
+    setTrackName(state.trackName);
+    setLocationTable(null);
+
+    const active = state.images.find(img => img.id === state.activeId);
+    const gps = active ? state.histories[active.id]?.present || getEffectiveGps(active) : undefined;
+    setCurrentGps(hasUsableGps(gps) ? gps : state.mapCenter);
+    setMapCenter(hasUsableGps(gps) ? gps : state.mapCenter);
+
+    setResumable(null);
+    setAutosaveEnabled(true);
+    if (failed.length > 0) {
+      alert(`Could not restore ${failed.length} image(s): ${failed.join(', ')}`);
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await openSession(resumable!);
+    } catch (error) {
+      // The prompt stays, so the stored session is not autosaved over
+      console.error("Failed to restore the session", error);
+      alert("Failed to restore the previous session.");
+    }
+  };
+
+  const handleDiscardSession = () => {
+    setResumable(null);
+    setAutosaveEnabled(true);
+    deleteSession(AUTOSAVE_ID).catch(error => console.error("Failed to delete the saved session", error));
+  };
+
+  const handleSaveProject = async (id: string, name: string) => {
+    await saveSession(id, name, { images, activeId, histories, mapCenter, track, trackName });
+  };
+
+  // Gives a moved pin the ground height under it, unless the active photo's
+  // altitude was typed in by hand
+  const fillAltitude = (gps: GPSData): GPSData => {
+    if (!elevationSettings.autoFill || image?.altitudeLocked) return gps;
+    return withGroundElevation(gps, elevationTiles, elevationSettings);
+  };
+
+  const handleAltitudeLockChange = (locked: boolean) => {
+    setImages(prev => prev.map(img => (
+      img.id === activeId ? { ...img, altitudeLocked: locked || undefined } : img
+    )));
+  };
+
+  const handleFillPinAltitude = () => {
+    movePin(withGroundElevation(currentGps, elevationTiles, elevationSettings));
+  };
+
+  const handleFillSelectionAltitude = () => {
+    const matches = new Map<string, GPSData>();
+    images.forEach(img => {
+      if (!selectedIds.has(img.id) || img.altitudeLocked) return;
+      const gps = img.id === activeId ? currentGps : getEffectiveGps(img);
+      if (!hasUsableGps(gps)) return;
+      const filled = withGroundElevation(gps, elevationTiles, elevationSettings);
+      if (filled !== gps) matches.set(img.id, filled);
+    });
+    handleApplyMatches(matches);
+  };
+
+  // The first area loaded or drawn becomes the one photos are checked against
+  const addGeofences = (added: GeofenceArea[]) => {
+    setGeofences(prev => [...prev, ...added]);
+    setGeofenceSettings(prev => prev.activeId ? prev : { ...prev, activeId: added[0].id });
+  };
+
+  const handleGeofenceDrawn = (corners: number[][]) => {
+    addGeofences([areaFromCorners(`Area ${geofences.length + 1}`, corners)]);
+  };
+
+  const handleGeofenceChange = (area: GeofenceArea) => {
+    setGeofences(prev => prev.map(a => a.id === area.id ? area : a));
+  };
+
+  const handleGeofenceRemove = (id: string) => {
+    setGeofences(prev => prev.filter(a => a.id !== id));
+    setGeofenceSettings(prev => prev.activeId === id ? { ...prev, activeId: null } : prev);
+    setGeofenceTool(prev => prev?.kind === 'edit' && prev.areaId === id ? null : prev);
+  };
+
+  // A fix that reports its own altitude keeps it
+  const handleDeviceLocation = (gps: GPSData) => {
+    gps = gps.altitude === undefined ? fillAltitude(gps) : gps;
+    movePin(gps);
+    setMapCenter(gps);
+  };
+
+  const handleLocate = async () => {
+    if (!geolocation) return;
+    setIsLocating(true);
+    try {
+      handleDeviceLocation(await getDeviceGps(geolocation));
+    } catch (error) {
+      console.error("Failed to get the device location", error);
+      alert(error instanceof Error ? error.message : "Failed to get the device location.");
+    } finally {
+      setIsLocating(false);
+    }
   };
 
   const handleManualGpsChange = (newGps: GPSData) => {
-    setCurrentGps(newGps);
+    const moved = newGps.lat !== currentGps.lat || newGps.lng !== currentGps.lng;
+    newGps = moved ? fillAltitude(newGps) : newGps;
+    movePin(newGps);
     setMapCenter(newGps);
   };
 
   const handleMapInteraction = (lat: number, lng: number) => {
-    setCurrentGps(prev => ({ ...prev, lat, lng }));
+    movePin(fillAltitude({ ...currentGps, lat, lng }));
+  };
+
+  const handleTagsChange = (edits: ExifTagEdits) => {
+    setImages(prev => prev.map(img => (
+      img.id === activeId
+        ? { ...img, pendingTags: Object.keys(edits).length > 0 ? edits : undefined }
+        : img
+    )));
+  };
+
+  const handlePlaceSelect = (entry: GazetteerEntry) => {
+    const gps = fillAltitude({ ...currentGps, lat: entry.lat, lng: entry.lng });
+    movePin(gps);
+    setMapCenter(gps);
+  };
+
+  const handleApplyPreset = (preset: LocationPreset) => {
+    // A preset's own altitude wins over the elevation model
+    const gps = preset.altitude === undefined ? fillAltitude(applyPreset(currentGps, preset)) : applyPreset(currentGps, preset);
+    movePin(gps);
+    setMapCenter(gps);
+  };
+
+  const handleLocationChange = (location: XmpLocation | undefined) => {
+    setImages(prev => prev.map(img => (
+      img.id === activeId ? { ...img, pendingLocation: location } : img
+    )));
+  };
+
+  const handleHeadingChange = (heading: number) => {
+    movePin({ ...currentGps, heading, headingRef: currentGps.headingRef || 'T' });
   };
 
   const handleRecenter = () => {
@@ -60,9 +584,15 @@ export default function App() {
   };
 
   const resetApp = () => {
-    setImage(null);
-    setCurrentGps(DEFAULT_GPS);
-    setMapCenter(DEFAULT_GPS);
+    images.forEach(img => URL.revokeObjectURL(img.previewUrl));
+    setImages([]);
+    setActiveId(null);
+    setSelectedIds(new Set());
+    setHistories({});
+    handleTrackClear();
+    setLocationTable(null);
+    setCurrentGps(getStartGps());
+    setMapCenter(getStartGps());
   };
 
   return (
@@ -88,14 +618,22 @@ export default function App() {
         {/* Left Sidebar: Controls */}
         <div className="flex-1 lg:flex-none w-full lg:w-[480px] min-h-0 bg-black border-r border-zinc-800 overflow-y-auto custom-scrollbar p-8 z-10 flex flex-col gap-8 order-1 lg:order-1">
           
+          {resumable && (
+            <ResumePrompt session={resumable} onResume={handleResume} onDiscard={handleDiscardSession} />
+          )}
+
           {!image ? (
             <div className="flex-1 flex flex-col justify-center animate-in fade-in duration-500">
               <div className="mb-10">
                 <h2 className="text-4xl font-extrabold text-white mb-3 tracking-tight">Add Location to Photos</h2>
-                <p className="text-zinc-400 text-lg leading-relaxed">Easily edit, remove, or add GPS coordinates to your JPEG images directly in the browser.</p>
+                <p className="text-zinc-400 text-lg leading-relaxed">Easily edit, remove, or add GPS coordinates to your JPEG, PNG, WebP, HEIC and TIFF images, one photo or a whole folder at a time, directly in the browser.</p>
               </div>
 
-              <ImageUploader onImageSelected={handleImageSelect} />
+              <ImageUploader onImagesSelected={handleImagesSelect} />
+
+              <div className="mt-8">
+                <ProjectsPanel canSave={false} onSave={handleSaveProject} onOpen={openSession} />
+              </div>
               
               <div className="mt-12 space-y-6">
                 <div className="flex gap-4 items-start">
@@ -118,6 +656,10 @@ export default function App() {
                   </div>
                 </div>
               </div>
+
+              <div className="mt-10">
+                <FormatSupportTable />
+              </div>
             </div>
           ) : (
             <>
@@ -134,18 +676,141 @@ export default function App() {
               {/* Thumbnail */}
               <div className="relative aspect-video bg-zinc-900 rounded-xl overflow-hidden border border-zinc-800 shadow-2xl shrink-0 group">
                 <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
-                <img 
-                  src={image.previewUrl} 
-                  alt="Preview" 
-                  className="w-full h-full object-contain relative z-10" 
-                />
+                {getDisplayUrl(image) ? (
+                  <img 
+                    src={getDisplayUrl(image) as string} 
+                    alt="Preview" 
+                    className="w-full h-full object-contain relative z-10" 
+                  />
+                ) : (
+                  <div className="w-full h-full relative z-10 flex items-center justify-center text-sm text-zinc-500">
+                    No preview available for {FORMAT_CAPABILITIES[image.format].label} files
+                  </div>
+                )}
               </div>
 
+              <PlacePanel
+                gazetteers={gazetteers}
+                currentGps={currentGps}
+                pendingLocation={image.pendingLocation}
+                onGazetteerImported={(gazetteer) => setGazetteers(prev => [...prev, gazetteer])}
+                onPlaceSelect={handlePlaceSelect}
+                onLocationChange={handleLocationChange}
+              />
+
+              <PresetsPanel
+                presets={presets}
+                currentGps={currentGps}
+                onApply={handleApplyPreset}
+                onPresetsChange={setPresets}
+              />
+
               <ExifEditor 
                 image={image} 
                 currentGps={currentGps} 
                 onGpsChange={handleManualGpsChange} 
+                onTagsChange={handleTagsChange}
+                canUndo={!!history && history.past.length > 0}
+                canRedo={!!history && history.future.length > 0}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onRevert={handleRevert}
+                moveWarningMeters={moveWarningMeters}
+                onMoveWarningChange={setMoveWarningMeters}
+                presets={presets}
+                onApplyPreset={handleApplyPreset}
+                geolocation={geolocation}
+                onDeviceLocation={handleDeviceLocation}
+                captureTime={captureTime}
+                onAltitudeLockChange={handleAltitudeLockChange}
+                geofence={geofenceStatus}
+                fuzz={fuzzPreview}
+              />
+
+              <ScrubPanel image={image} />
+
+              <FuzzPanel
+                settings={fuzzSettings}
+                preview={fuzzPreview}
+                onSettingsChange={setFuzzSettings}
+              />
+
+              <ImageList
+                images={images}
+                activeId={activeId}
+                selectedIds={selectedIds}
+                onActivate={handleActivate}
+                onToggleSelect={handleToggleSelect}
+                onSelectAll={handleSelectAll}
+                onRemove={handleRemove}
+                onApplyPinToSelection={handleApplyPinToSelection}
+              />
+
+              <GeofencePanel
+                areas={geofences}
+                settings={geofenceSettings}
+                status={geofenceStatus}
+                outsideCount={outsideIds.size}
+                tool={geofenceTool}
+                onImport={addGeofences}
+                onRemove={handleGeofenceRemove}
+                onSettingsChange={setGeofenceSettings}
+                onToolChange={setGeofenceTool}
+              />
+
+              <ElevationPanel
+                tiles={elevationTiles}
+                settings={elevationSettings}
+                currentGps={currentGps}
+                altitudeLocked={!!image.altitudeLocked}
+                selectedCount={selectedIds.size}
+                onTilesLoaded={(tiles) => setElevationTiles(prev => [...prev, ...tiles])}
+                onTileRemove={(id) => setElevationTiles(prev => prev.filter(tile => tile.id !== id))}
+                onSettingsChange={setElevationSettings}
+                onFillPin={handleFillPinAltitude}
+                onFillSelection={handleFillSelectionAltitude}
+              />
+
+              <CaptureTimePanel
+                images={images}
+                activeId={activeId}
+                currentGps={currentGps}
+                selectedIds={selectedIds}
+                options={captureTimeOptions}
+                onDefaultTimeZoneChange={setDefaultTimeZone}
+                onDatasetImported={(dataset) => setTimeZoneDatasets(prev => [...prev, dataset])}
+                onApply={handleApplyTimeEdits}
               />
+
+              <TrackPanel
+                images={images}
+                track={track}
+                trackName={trackName}
+                onTrackLoaded={handleTrackLoaded}
+                onTrackClear={handleTrackClear}
+                onApplyMatches={handleApplyMatches}
+              />
+
+              <LocationImportPanel
+                images={images}
+                table={locationTable}
+                onTableLoaded={setLocationTable}
+                onTableClear={() => setLocationTable(null)}
+                onApplyMatches={handleApplyMatches}
+              />
+
+              <ExportPanel
+                images={images}
+                blockedIds={geofenceSettings.mode === 'block' ? outsideIds : undefined}
+                blockedAreaName={activeGeofence?.name}
+                fuzzer={fuzzer}
+              />
+
+              <LayerExportPanel images={images} />
+
+              <ProjectsPanel canSave onSave={handleSaveProject} onOpen={openSession} />
+
+              <ImageUploader onImagesSelected={handleImagesSelect} compact />
             </>
           )}
 
@@ -163,8 +828,25 @@ export default function App() {
             lng={currentGps.lng}
             centerLat={mapCenter.lat}
             centerLng={mapCenter.lng}
+            photos={photoMarkers}
+            track={track}
+            heading={currentGps.heading}
+            original={image && hasUsableGps(image.metadata.gps) ? image.metadata.gps : undefined}
+            originalThumbnailUrl={image ? getDisplayUrl(image) : null}
+            moveWarningMeters={moveWarningMeters}
             onPositionChange={handleMapInteraction}
             onRecenterRequest={handleRecenter}
+            onPhotoSelect={handleActivate}
+            onHeadingChange={image ? handleHeadingChange : undefined}
+            onLocate={geolocation ? handleLocate : undefined}
+            isLocating={isLocating}
+            geofences={geofences}
+            activeGeofenceId={geofenceSettings.activeId}
+            geofenceTool={geofenceTool}
+            onGeofenceDrawn={handleGeofenceDrawn}
+            onGeofenceChange={handleGeofenceChange}
+            onGeofenceToolDone={() => setGeofenceTool(null)}
+            fuzz={fuzzPreview}
           />
         </div>
       </main>
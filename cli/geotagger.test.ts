@@ -0,0 +1,99 @@
+import { execFile } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { afterEach, describe, expect, it } from 'vitest';
+import piexif from 'piexifjs';
+import { binaryStringToBytes, concatBytes } from '../utils/formatUtils';
+
+const VITE_NODE = fileURLToPath(new URL('../node_modules/.bin/vite-node', import.meta.url));
+const CLI = fileURLToPath(new URL('./geotagger.ts', import.meta.url));
+
+// Stands in for a vendor MakerNote, whose internal offsets break if it moves
+const MAKER_NOTE = Array.from({ length: 64 }, (_, i) => String.fromCharCode(0x80 + i)).join('');
+// A private tag piexif has no name for, so it drops it from anything it rebuilds
+const PRIVATE_TAG = 0xABCD;
+const PRIVATE_VALUE = 'Lens serial 0042';
+
+const segment = (marker: number, payload: Uint8Array) => {
+  const bytes = new Uint8Array(4 + payload.length);
+  bytes.set([0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+  bytes.set(payload, 4);
+  return bytes;
+};
+
+// Start of scan, some entropy-coded data and EOI
+const SCAN = new Uint8Array([0xFF, 0xDA, 0x00, 0x08, 1, 2, 3, 4, 5, 6, 0x12, 0x34, 0xFF, 0x00, 0x56, 0xFF, 0xD9]);
+
+// The private tag is named only while the fixture is dumped and read back
+const withPrivateTag = <T,>(run: () => T): T => {
+  piexif.TAGS.Exif[PRIVATE_TAG] = { name: 'PrivateTag', type: 'Ascii' };
+  try {
+    return run();
+  } finally {
+    delete piexif.TAGS.Exif[PRIVATE_TAG];
+  }
+};
+
+const fixture = () => withPrivateTag(() => concatBytes([
+  new Uint8Array([0xFF, 0xD8]),
+  segment(0xE1, binaryStringToBytes(piexif.dump({
+    '0th': { [piexif.ImageIFD.Make]: 'Camera Maker', [piexif.ImageIFD.Model]: 'Model 7' },
+    Exif: {
+      [piexif.ExifIFD.DateTimeOriginal]: '2024:05:17 14:03:22',
+      [piexif.ExifIFD.MakerNote]: MAKER_NOTE,
+      [PRIVATE_TAG]: PRIVATE_VALUE,
+    },
+    GPS: {
+      [piexif.GPSIFD.GPSLatitudeRef]: 'N',
+      [piexif.GPSIFD.GPSLatitude]: [[41, 1], [17, 1], [3989, 100]],
+      [piexif.GPSIFD.GPSLongitudeRef]: 'E',
+      [piexif.GPSIFD.GPSLongitude]: [[69, 1], [14, 1], [2602, 100]],
+    },
+  }))),
+  SCAN,
+]));
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array) => {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const toBinaryString = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const run = (...args: string[]) => promisify(execFile)(VITE_NODE, [CLI, ...args], { timeout: 60_000 });
+
+describe('geotagger strip', () => {
+  let dir = '';
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('removes the GPS tags and leaves the rest of the EXIF where it was', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'geotagger-'));
+    const original = fixture();
+    writeFileSync(join(dir, 'photo.jpg'), original);
+
+    const { stdout } = await run('strip', join(dir, 'photo.jpg'), `--out-dir=${join(dir, 'out')}`);
+    expect(stdout).toContain('removed 4 GPS tags');
+
+    const stripped = new Uint8Array(readFileSync(join(dir, 'out', 'photo.jpg')));
+    const makerNote = binaryStringToBytes(MAKER_NOTE);
+    expect(indexOf(stripped, makerNote)).toBe(indexOf(original, makerNote));
+    expect(stripped.length).toBe(original.length);
+
+    const exifObj = withPrivateTag(() => piexif.load(toBinaryString(stripped)));
+    expect(exifObj.Exif?.[PRIVATE_TAG]).toBe(PRIVATE_VALUE);
+    expect(exifObj.Exif?.[piexif.ExifIFD.MakerNote]).toBe(MAKER_NOTE);
+    expect(exifObj['0th']?.[piexif.ImageIFD.Make]).toBe('Camera Maker');
+    expect(Object.keys(exifObj.GPS || {})).toEqual([]);
+  }, 60_000);
+});
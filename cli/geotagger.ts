@@ -0,0 +1,395 @@
+#!/usr/bin/env node
+import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { GPSData, IntegrityDecision, UploadedImage } from '../types';
+import { loadUploadedImage, buildOutputFile, readExifMetadata } from '../utils/imageUtils';
+import { FORMAT_CAPABILITIES, FORMAT_MIME_TYPES } from '../utils/formatUtils';
+import { applyExifWrite } from '../utils/exifWriteUtils';
+import { diffExifObjects, hasUsableGps, planScrub, registerExifTags, verifyScrub } from '../utils/geoUtils';
+import { checkImageIntegrity, isBlockingIssue } from '../utils/integrityUtils';
+import { parseCsv } from '../utils/csvUtils';
+import { parseXmpPacket, toSidecarName } from '../utils/xmpUtils';
+
+// Command-line front end for ingestion servers: the same readers and writers
+// as the browser app, working on files on disk instead of uploads.
+
+// XMP is read and merged with the browser's DOM API, Node has none of its own
+Object.assign(globalThis, { DOMParser, XMLSerializer });
+registerExifTags();
+
+const USAGE = `Usage:
+  geotagger read <files|dirs...> [--json]
+  geotagger set <files|dirs...> --lat=<deg> --lng=<deg> [--alt=<m>]
+  geotagger strip <files|dirs...>
+  geotagger apply-csv <locations.csv> [--base-dir=<dir>]
+
+Options:
+  -o, --out-dir=<dir>     Write results here instead of overwriting the originals
+  -r, --recursive         Descend into subdirectories
+  -n, --dry-run           Report what would be written without touching any file
+      --on-damage=<mode>  abort (default), preserve or repair files with damaged metadata
+      --json              Print results as JSON
+  -h, --help              Show this help
+
+Use --lat=-33.86 (with "=") for negative values.
+apply-csv needs file, lat and lng columns (alt optional); paths are relative to the CSV.
+TIFF, DNG and HEIC get an .xmp sidecar instead of being rewritten.
+
+Exit codes (the highest one wins when files fail differently):
+  0 success, 1 usage error, 2 unreadable or unsupported input,
+  3 format cannot be changed that way, 4 damaged metadata, 5 write failure`;
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 1;
+const EXIT_INPUT = 2;
+const EXIT_UNSUPPORTED = 3;
+const EXIT_DAMAGED = 4;
+const EXIT_WRITE = 5;
+
+const SUPPORTED_EXTENSIONS = /\.(jpe?g|png|webp|tiff?|dng|heic|heif)$/i;
+
+const ON_DAMAGE_MODES: IntegrityDecision[] = ['abort', 'preserve', 'repair'];
+
+interface CliOptions {
+  json: boolean;
+  dryRun: boolean;
+  outDir?: string;
+  recursive: boolean;
+  onDamage: IntegrityDecision;
+}
+
+interface FileResult {
+  file: string;
+  code: number;
+  message: string;
+  output?: string;
+  gps?: GPSData;
+}
+
+// Thrown for problems that belong to one file; everything else aborts the run
+class FileError extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message);
+  }
+}
+
+class UsageError extends Error {}
+
+const expandInputs = async (inputs: string[], recursive: boolean): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      // Missing files are reported per file, so the rest of the batch still runs
+      files.push(input);
+    } else if (info.isDirectory()) {
+      const entries = await readdir(input, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const full = path.join(input, entry.name);
+        if (entry.isDirectory() && recursive) files.push(...await expandInputs([full], true));
+        else if (entry.isFile() && SUPPORTED_EXTENSIONS.test(entry.name)) files.push(full);
+      }
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+const sidecarPath = (file: string) => path.join(path.dirname(file), toSidecarName(path.basename(file)));
+
+// An .xmp next to the file is read like a dropped sidecar, so a rewrite merges into it
+const loadImage = async (file: string): Promise<UploadedImage> => {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(file);
+  } catch (error) {
+    throw new FileError(`cannot read file (${(error as NodeJS.ErrnoException).code || error})`, EXIT_INPUT);
+  }
+  let image: UploadedImage;
+  try {
+    image = await loadUploadedImage(new File([bytes as BlobPart], path.basename(file)));
+  } catch (error) {
+    throw new FileError(error instanceof Error ? error.message : String(error), EXIT_INPUT);
+  }
+  const packet = await readFile(sidecarPath(file), 'utf8').catch(() => null);
+  return packet === null ? image : { ...image, sidecarXmp: parseXmpPacket(packet), sidecarXmpPacket: packet };
+};
+
+const outputPath = (file: string, options: CliOptions, sidecar: boolean) => {
+  const target = options.outDir ? path.join(options.outDir, path.basename(file)) : file;
+  return sidecar ? sidecarPath(target) : target;
+};
+
+const saveOutput = async (target: string, blob: Blob, options: CliOptions) => {
+  if (options.dryRun) return;
+  try {
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+  } catch (error) {
+    throw new FileError(`cannot write ${target} (${(error as NodeJS.ErrnoException).code || error})`, EXIT_WRITE);
+  }
+};
+
+// Same rules as the export panel: errors follow --on-damage, warnings never stop a write
+const checkIntegrity = async (image: UploadedImage, options: CliOptions) => {
+  if (FORMAT_CAPABILITIES[image.format].write !== 'in-place') return [];
+  const issues = await checkImageIntegrity(image);
+  if (options.onDamage === 'abort' && issues.some(isBlockingIssue)) {
+    const problems = issues.filter(isBlockingIssue).map(issue => issue.message).join('; ');
+    throw new FileError(`damaged metadata, not written (${problems})`, EXIT_DAMAGED);
+  }
+  return options.onDamage === 'repair' ? issues.filter(issue => issue.repair) : [];
+};
+
+const writeGps = async (file: string, gps: GPSData, options: CliOptions): Promise<FileResult> => {
+  const image = await loadImage(file);
+  try {
+    const repairs = await checkIntegrity(image, options);
+    const { blob, sidecar } = await buildOutputFile(image, gps, 'none', repairs);
+    const target = outputPath(file, options, sidecar);
+    await saveOutput(target, blob, options);
+    const verb = options.dryRun ? 'would write' : 'wrote';
+    return { file, code: EXIT_OK, message: `${verb} ${sidecar ? 'XMP sidecar' : 'EXIF'}${repairs.length > 0 ? ` (${repairs.length} repaired)` : ''}`, output: target, gps };
+  } finally {
+    URL.revokeObjectURL(image.previewUrl);
+  }
+};
+
+const stripGps = async (file: string, options: CliOptions): Promise<FileResult> => {
+  const image = await loadImage(file);
+  try {
+    if (FORMAT_CAPABILITIES[image.format].write !== 'in-place') {
+      throw new FileError(`${FORMAT_CAPABILITIES[image.format].label} files cannot be rewritten, delete the location in their sidecar instead`, EXIT_UNSUPPORTED);
+    }
+    const exifObj = image.metadata.rawExifObj || {};
+    if (Object.keys(exifObj['GPS'] || {}).length === 0) {
+      return { file, code: EXIT_OK, message: 'no GPS to remove' };
+    }
+    await checkIntegrity(image, options);
+
+    // Only the GPS tags go, everything else stays byte for byte. The patch
+    // writer zeroes the removed values, so no byte of the old location is left behind.
+    const targets = planScrub(exifObj, ['gps']);
+    const patch = diffExifObjects(exifObj, { ...exifObj, GPS: {} });
+    const bytes = applyExifWrite({ bytes: await image.file.arrayBuffer(), format: image.format, patch });
+    const survivors = verifyScrub(readExifMetadata(bytes, image.format).rawExifObj, targets);
+    if (survivors.length > 0) {
+      throw new FileError(`${survivors.length} GPS tags could not be removed, not written`, EXIT_WRITE);
+    }
+    const target = outputPath(file, options, false);
+    await saveOutput(target, new Blob([bytes as BlobPart], { type: FORMAT_MIME_TYPES[image.format] }), options);
+    return { file, code: EXIT_OK, message: `${options.dryRun ? 'would remove' : 'removed'} ${targets.length} GPS tags`, output: target };
+  } finally {
+    URL.revokeObjectURL(image.previewUrl);
+  }
+};
+
+const readOne = async (file: string) => {
+  const image = await loadImage(file);
+  URL.revokeObjectURL(image.previewUrl);
+  const { gps, make, model, dateTimeOriginal, xmp } = image.metadata;
+  const issues = FORMAT_CAPABILITIES[image.format].write === 'in-place' ? await checkImageIntegrity(image) : [];
+  return {
+    file,
+    format: image.format,
+    gps: hasUsableGps(gps) ? gps : null,
+    make,
+    model,
+    dateTimeOriginal,
+    xmp,
+    issues: issues.map(issue => `${issue.severity}: ${issue.message}`)
+  };
+};
+
+const parseNumber = (value: string | undefined, name: string, limit?: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !isFinite(number) || (limit !== undefined && Math.abs(number) > limit)) {
+    throw new UsageError(`--${name} must be a number${limit !== undefined ? ` between -${limit} and ${limit}` : ''}`);
+  }
+  return number;
+};
+
+// Columns: file (or filename / path), lat, lng (or lon / longitude), and optionally alt
+const readLocationsCsv = async (csvFile: string, baseDir?: string): Promise<{ file: string, gps?: GPSData, error?: string }[]> => {
+  const text = await readFile(csvFile, 'utf8').catch(error => {
+    throw new FileError(`cannot read ${csvFile} (${error.code || error})`, EXIT_INPUT);
+  });
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new UsageError(`${csvFile} is empty`);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const fileCol = col('file', 'filename', 'path', 'name');
+  const latCol = col('lat', 'latitude');
+  const lngCol = col('lng', 'lon', 'long', 'longitude');
+  const altCol = col('alt', 'altitude', 'ele', 'elevation');
+  if (fileCol === -1 || latCol === -1 || lngCol === -1) {
+    throw new UsageError(`${csvFile} needs file, lat and lng columns`);
+  }
+
+  const base = baseDir || path.dirname(csvFile);
+  return rows.map((row, i) => {
+    const file = path.resolve(base, row[fileCol]?.trim() || '');
+    const lat = parseFloat(row[latCol]);
+    const lng = parseFloat(row[lngCol]);
+    const alt = altCol === -1 ? NaN : parseFloat(row[altCol]);
+    if (!row[fileCol]?.trim() || !isFinite(lat) || !isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { file: row[fileCol]?.trim() || `row ${i + 2}`, error: `row ${i + 2} has no file or an invalid location` };
+    }
+    return { file, gps: { lat, lng, altitude: isFinite(alt) ? alt : undefined } };
+  });
+};
+
+const runEach = async <T>(items: T[], run: (item: T) => Promise<FileResult>, fileOf: (item: T) => string) => {
+  const results: FileResult[] = [];
+  for (const item of items) {
+    try {
+      results.push(await run(item));
+    } catch (error) {
+      if (!(error instanceof FileError)) throw error;
+      results.push({ file: fileOf(item), code: error.code, message: error.message });
+    }
+  }
+  return results;
+};
+
+const printResults = (results: FileResult[], options: CliOptions) => {
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  for (const result of results) {
+    const line = `${result.file}: ${result.message}${result.output && result.output !== result.file ? ` -> ${result.output}` : ''}`;
+    if (result.code === EXIT_OK) console.log(line);
+    else console.error(line);
+  }
+};
+
+// Two inputs with the same name would overwrite each other in one output directory
+const checkOutputCollisions = (files: string[], options: CliOptions) => {
+  if (!options.outDir) return;
+  const seen = new Map<string, string>();
+  for (const file of files) {
+    const name = path.basename(file).toLowerCase();
+    const other = seen.get(name);
+    if (other) throw new UsageError(`${other} and ${file} would both be written to ${path.join(options.outDir, path.basename(file))}`);
+    seen.set(name, file);
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      'dry-run': { type: 'boolean', short: 'n' },
+      'out-dir': { type: 'string', short: 'o' },
+      recursive: { type: 'boolean', short: 'r' },
+      'on-damage': { type: 'string' },
+      'base-dir': { type: 'string' },
+      lat: { type: 'string' },
+      lng: { type: 'string' },
+      alt: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const onDamage = (values['on-damage'] || 'abort') as IntegrityDecision;
+  if (!ON_DAMAGE_MODES.includes(onDamage)) {
+    throw new UsageError(`--on-damage must be one of ${ON_DAMAGE_MODES.join(', ')}`);
+  }
+  const options: CliOptions = {
+    json: !!values.json,
+    dryRun: !!values['dry-run'],
+    outDir: values['out-dir'],
+    recursive: !!values.recursive,
+    onDamage,
+  };
+  if (inputs.length === 0) throw new UsageError(`${command} needs at least one file`);
+
+  let results: FileResult[];
+  switch (command) {
+    case 'read': {
+      const files = await expandInputs(inputs, options.recursive);
+      const entries = [];
+      let code = EXIT_OK;
+      for (const file of files) {
+        try {
+          entries.push(await readOne(file));
+        } catch (error) {
+          if (!(error instanceof FileError)) throw error;
+          code = Math.max(code, error.code);
+          entries.push({ file, error: error.message });
+        }
+      }
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else {
+        for (const entry of entries) {
+          if ('error' in entry) console.error(`${entry.file}: ${entry.error}`);
+          else console.log(`${entry.file}: ${entry.gps
+            ? `${entry.gps.lat.toFixed(6)}, ${entry.gps.lng.toFixed(6)}${entry.gps.altitude !== undefined ? `, ${entry.gps.altitude.toFixed(1)} m` : ''}`
+            : 'no GPS'}${entry.issues.length > 0 ? ` (${entry.issues.length} metadata problems)` : ''}`);
+        }
+      }
+      return code;
+    }
+    case 'set': {
+      const lat = parseNumber(values.lat, 'lat', 90);
+      const lng = parseNumber(values.lng, 'lng', 180);
+      if (lat === undefined || lng === undefined) throw new UsageError('set needs --lat and --lng');
+      const gps: GPSData = { lat, lng, altitude: parseNumber(values.alt, 'alt') };
+      const files = await expandInputs(inputs, options.recursive);
+      checkOutputCollisions(files, options);
+      results = await runEach(files, file => writeGps(file, gps, options), file => file);
+      break;
+    }
+    case 'strip': {
+      const files = await expandInputs(inputs, options.recursive);
+      checkOutputCollisions(files, options);
+      results = await runEach(files, file => stripGps(file, options), file => file);
+      break;
+    }
+    case 'apply-csv': {
+      const rows = await readLocationsCsv(inputs[0], values['base-dir']);
+      checkOutputCollisions(rows.filter(row => row.gps).map(row => row.file), options);
+      results = await runEach(rows, async row => {
+        if (!row.gps) throw new FileError(row.error!, EXIT_INPUT);
+        return writeGps(row.file, row.gps, options);
+      }, row => row.file);
+      break;
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  printResults(results, options);
+  return results.reduce((code, result) => Math.max(code, result.code), EXIT_OK);
+};
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    if (error instanceof FileError) {
+      console.error(`geotagger: ${error.message}`);
+      process.exit(error.code);
+    }
+    // parseArgs reports unknown or malformed options with a TypeError
+    if (error instanceof UsageError || String((error as NodeJS.ErrnoException).code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`geotagger: ${error.message}\n\n${USAGE}`);
+      process.exit(EXIT_USAGE);
+    }
+    // Anything unexpected happened while processing, so nothing can be assumed written
+    console.error('geotagger:', error);
+    process.exit(EXIT_WRITE);
+  });
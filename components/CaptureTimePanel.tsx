@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { UploadedImage, GPSData, CaptureTime, CaptureTimeEdit, CaptureTimeOptions, CaptureTimeSource, TimeZoneDataset } from '../types';
+import { getEffectiveGps } from '../utils/imageUtils';
+import {
+  resolveCaptureTime, shiftCameraClock, stampCaptureTime, parseClockShift, formatClockShift,
+  formatUtcOffset, isValidTimeZone, parseTimeZoneFile
+} from '../utils/timeZoneUtils';
+import { Clock, Upload, TimerReset, Stamp } from 'lucide-react';
+
+interface CaptureTimePanelProps {
+  images: UploadedImage[];
+  activeId: string | null;
+  currentGps: GPSData;
+  selectedIds: Set<string>;
+  options: CaptureTimeOptions;
+  onDefaultTimeZoneChange: (timeZone: string) => void;
+  onDatasetImported: (dataset: TimeZoneDataset) => void;
+  onApply: (edits: CaptureTimeEdit[]) => void;
+}
+
+const SOURCE_LABELS: Record<CaptureTimeSource, string> = {
+  offset: 'Offset tag in the file',
+  gps: 'Camera clock against GPS time',
+  location: 'Time zone at the pin',
+  default: 'Default time zone',
+};
+
+const formatUtc = (timestamp: number) => new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+
+const describeDrift = (capture: CaptureTime) => {
+  if (capture.gpsTime === undefined) return null;
+  const seconds = Math.round((capture.instant - capture.gpsTime) / 1000);
+  if (seconds === 0) return 'camera clock matches GPS';
+  return `camera clock ${Math.abs(seconds)}s ${seconds > 0 ? 'ahead of' : 'behind'} GPS`;
+};
+
+// Ties camera times to real instants and fixes them in bulk: a clock set wrong
+// is shifted, and the offset and GPS time are written so other tools sort right
+export const CaptureTimePanel: React.FC<CaptureTimePanelProps> = ({
+  images,
+  activeId,
+  currentGps,
+  selectedIds,
+  options,
+  onDefaultTimeZoneChange,
+  onDatasetImported,
+  onApply
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [zoneDraft, setZoneDraft] = useState(options.defaultTimeZone);
+  const [zoneInvalid, setZoneInvalid] = useState(false);
+  const [shiftText, setShiftText] = useState('+0:00:00');
+  const [summary, setSummary] = useState<string | null>(null);
+
+  useEffect(() => {
+    setZoneDraft(options.defaultTimeZone);
+  }, [options.defaultTimeZone]);
+
+  // The active image is wherever its pin is now, the rest where they were left
+  const gpsFor = (img: UploadedImage) => img.id === activeId ? currentGps : getEffectiveGps(img);
+
+  const targets = useMemo(
+    () => selectedIds.size > 0 ? images.filter(img => selectedIds.has(img.id)) : images,
+    [images, selectedIds]
+  );
+  const dated = useMemo(() => targets.flatMap(img => {
+    const capture = resolveCaptureTime(img, gpsFor(img), options);
+    return capture ? [{ img, capture }] : [];
+  }), [targets, activeId, currentGps, options]);
+
+  const active = images.find(img => img.id === activeId);
+  const activeCapture = useMemo(
+    () => active ? resolveCaptureTime(active, currentGps, options) : null,
+    [active, currentGps, options]
+  );
+
+  const shiftSeconds = parseClockShift(shiftText);
+
+  const commitZone = () => {
+    const zone = zoneDraft.trim();
+    if (!isValidTimeZone(zone)) {
+      setZoneInvalid(true);
+      return;
+    }
+    setZoneInvalid(false);
+    onDefaultTimeZoneChange(zone);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const dataset = parseTimeZoneFile(file.name, await file.text());
+      onDatasetImported(dataset);
+      setSummary(`Loaded ${dataset.zones.length} time zone areas from ${file.name}.`);
+    } catch (error) {
+      console.error("Failed to import time zone boundaries", error);
+      alert(error instanceof Error ? error.message : "Failed to read time zone file.");
+    }
+  };
+
+  const handleShift = () => {
+    if (!shiftSeconds) return;
+    onApply(dated.map(({ img }) => shiftCameraClock(img, shiftSeconds)));
+    setSummary(`Shifted the clock of ${dated.length} photos by ${formatClockShift(shiftSeconds)}.`);
+  };
+
+  const handleStamp = () => {
+    const edits = dated.map(({ img, capture }) => stampCaptureTime(img, gpsFor(img), capture));
+    onApply(edits);
+    const withGpsTime = edits.filter(edit => edit.gps).length;
+    setSummary(`Wrote the UTC offset to ${edits.length} photos and GPS time to ${withGpsTime}.`);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+  const drift = activeCapture ? describeDrift(activeCapture) : null;
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Clock className="w-4 h-4" />
+        Capture Time
+      </h2>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".geojson,.json"
+        className="hidden"
+      />
+
+      <div className="space-y-4">
+        {active && (
+          activeCapture ? (
+            <div className="bg-black/30 p-3 rounded border border-zinc-800 text-xs space-y-1">
+              <p className="font-mono text-white">
+                {activeCapture.local} {formatUtcOffset(activeCapture.offsetMinutes)}
+              </p>
+              <p className="font-mono text-zinc-400">{formatUtc(activeCapture.instant)}</p>
+              <p className="text-zinc-500">
+                {SOURCE_LABELS[activeCapture.source]}
+                {activeCapture.timeZone && ` (${activeCapture.timeZone})`}
+              </p>
+              {drift && <p className="text-zinc-500">GPS {formatUtc(activeCapture.gpsTime!)} · {drift}</p>}
+            </div>
+          ) : (
+            <p className="text-xs text-zinc-600">This photo has no capture date.</p>
+          )
+        )}
+
+        <div>
+          <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">DEFAULT TIME ZONE</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={zoneDraft}
+              onChange={(e) => setZoneDraft(e.target.value)}
+              onBlur={commitZone}
+              onKeyDown={(e) => e.key === 'Enter' && commitZone()}
+              placeholder="Asia/Tashkent"
+              className={`${inputClass} ${zoneInvalid ? 'border-red-500' : ''}`}
+              title="IANA zone for photos whose time zone can't be worked out"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              title="Import time zone boundaries (GeoJSON with a tzid per feature)"
+              className="shrink-0 p-2 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+          </div>
+          {zoneInvalid && <p className="text-[11px] text-red-400 mt-1">Unknown time zone, use a name like Asia/Tashkent.</p>}
+          <p className="text-[11px] text-zinc-600 mt-1">
+            Zones at the pin from: {options.datasets.map(dataset => dataset.name).join(', ')}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">SHIFT CAMERA CLOCK (±H:MM:SS)</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={shiftText}
+              onChange={(e) => setShiftText(e.target.value)}
+              className={`${inputClass} ${shiftSeconds === null ? 'border-red-500' : ''}`}
+              title="Added to every date the camera wrote, e.g. -1:00:00 for a clock an hour fast"
+            />
+            <button
+              onClick={handleShift}
+              disabled={!shiftSeconds || dated.length === 0}
+              className="shrink-0 flex items-center gap-2 px-3 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+            >
+              <TimerReset className="w-4 h-4" />
+              Shift
+            </button>
+          </div>
+        </div>
+
+        <button
+          onClick={handleStamp}
+          disabled={dated.length === 0}
+          className="w-full flex items-center justify-center gap-2 bg-white hover:bg-zinc-200 text-black font-bold py-2.5 px-3 rounded-lg transition-colors text-sm disabled:opacity-40"
+        >
+          <Stamp className="w-4 h-4" />
+          Write UTC offset & GPS time
+        </button>
+
+        <p className="text-[11px] text-zinc-600 text-center">
+          Applies to {selectedIds.size > 0 ? `the ${targets.length} selected` : `all ${targets.length}`} photos, {dated.length} with a capture date
+        </p>
+
+        {summary && (
+          <p className="text-xs text-zinc-400 text-center">{summary}</p>
+        )}
+      </div>
+    </div>
+  );
+};
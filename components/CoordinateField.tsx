@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { CoordinateFormat } from '../types';
+import { COORDINATE_FORMATS, formatCoordinate, parseCoordinateInput } from '../utils/coordinateUtils';
+
+interface CoordinateFieldProps {
+  lat: number;
+  lng: number;
+  onChange: (lat: number, lng: number) => void;
+}
+
+const safeFormat = (lat: number, lng: number, format: CoordinateFormat) => {
+  try {
+    return formatCoordinate(lat, lng, format);
+  } catch {
+    // UTM and MGRS stop at 80°S / 84°N
+    return formatCoordinate(lat, lng, 'dd');
+  }
+};
+
+// One field for every notation: DD, DMS, DDM, UTM, MGRS and map links
+export const CoordinateField: React.FC<CoordinateFieldProps> = ({ lat, lng, onChange }) => {
+  const [format, setFormat] = useState<CoordinateFormat>('dd');
+  const [draft, setDraft] = useState(() => safeFormat(lat, lng, format));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(safeFormat(lat, lng, format));
+    setError(null);
+  }, [lat, lng, format]);
+
+  const commit = () => {
+    // Re-parsing the rounded display would nudge the pin on every blur
+    if (draft === safeFormat(lat, lng, format)) return;
+    const parsed = parseCoordinateInput(draft);
+    if (!parsed) {
+      setError('Not a recognised coordinate, grid reference or map link.');
+      return;
+    }
+    setError(null);
+    onChange(parsed.lat, parsed.lng);
+    // Keep showing the pin in the chosen notation, whatever was pasted
+    setDraft(safeFormat(parsed.lat, parsed.lng, format));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs font-semibold text-zinc-500">POSITION</label>
+        <div className="flex gap-1">
+          {COORDINATE_FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`text-[10px] font-bold px-2 py-0.5 rounded transition-colors ${
+                format === f.id ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        spellCheck={false}
+        className={`w-full px-4 py-3 bg-black border rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none ${
+          error ? 'border-red-800' : 'border-zinc-800'
+        }`}
+      />
+      {error ? (
+        <p className="text-[11px] text-red-400 mt-1.5">{error}</p>
+      ) : (
+        <p className="text-[11px] text-zinc-600 mt-1.5">Paste DMS, DDM, UTM (42T 520101 4572033), MGRS or a Google/OSM/Yandex link.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GPSData, GeolocationProvider } from '../types';
+import { AveragingSession, averageDeviceGps, getDeviceGps } from '../utils/geolocationUtils';
+import { LocateFixed, Square } from 'lucide-react';
+
+interface DeviceLocationControlProps {
+  provider: GeolocationProvider | null;
+  onLocation: (gps: GPSData) => void;
+}
+
+const DEFAULT_AVERAGE_SECONDS = 30;
+
+// Sets the pin from the device, once or averaged over a while for a steadier fix
+export const DeviceLocationControl: React.FC<DeviceLocationControlProps> = ({ provider, onLocation }) => {
+  const [averageSeconds, setAverageSeconds] = useState(DEFAULT_AVERAGE_SECONDS);
+  const [isAveraging, setIsAveraging] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [progress, setProgress] = useState<{ gps: GPSData, fixes: number, startedAt: number } | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const sessionRef = useRef<AveragingSession | null>(null);
+
+  // The watch must not outlive the editor
+  useEffect(() => () => sessionRef.current?.finish(), []);
+
+  useEffect(() => {
+    if (!progress) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [progress !== null]);
+
+  const handleLocate = async () => {
+    if (!provider) return;
+    setIsLocating(true);
+    try {
+      onLocation(await getDeviceGps(provider));
+    } catch (error) {
+      console.error("Failed to get the device location", error);
+      alert(error instanceof Error ? error.message : "Failed to get the device location.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleAverage = async () => {
+    if (!provider) return;
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setProgress(null);
+    const session = averageDeviceGps(provider, averageSeconds, (gps, fixes) => setProgress({ gps, fixes, startedAt }));
+    sessionRef.current = session;
+    setIsLocating(true);
+    try {
+      onLocation(await session.result);
+    } catch (error) {
+      console.error("Failed to average the device location", error);
+      alert(error instanceof Error ? error.message : "Failed to get the device location.");
+    } finally {
+      sessionRef.current = null;
+      setProgress(null);
+      setIsLocating(false);
+    }
+  };
+
+  if (!provider) {
+    return <p className="text-[11px] text-zinc-600">This browser can't report the device location.</p>;
+  }
+
+  const secondsLeft = progress ? Math.max(0, averageSeconds - Math.floor((now - progress.startedAt) / 1000)) : averageSeconds;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {isLocating && sessionRef.current ? (
+          <button
+            onClick={() => sessionRef.current?.finish()}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-blue-700 text-blue-300 font-medium hover:bg-blue-900/30 transition-colors text-sm"
+          >
+            <Square className="w-4 h-4" />
+            Use the average now
+          </button>
+        ) : (
+          <button
+            onClick={isAveraging ? handleAverage : handleLocate}
+            disabled={isLocating}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+          >
+            <LocateFixed className="w-4 h-4" />
+            {isLocating ? 'Locating...' : 'Use my location'}
+          </button>
+        )}
+        <label className="shrink-0 flex items-center gap-2 text-xs text-zinc-400" title="Average the fixes over this many seconds">
+          <input
+            type="checkbox"
+            checked={isAveraging}
+            onChange={(e) => setIsAveraging(e.target.checked)}
+            disabled={isLocating}
+            className="accent-blue-500"
+          />
+          Average
+          <input
+            type="number"
+            min="5"
+            value={averageSeconds}
+            onChange={(e) => setAverageSeconds(Math.max(5, parseInt(e.target.value, 10) || DEFAULT_AVERAGE_SECONDS))}
+            disabled={!isAveraging || isLocating}
+            className="w-14 px-2 py-1 bg-black border border-zinc-800 rounded text-white font-mono text-xs outline-none disabled:opacity-40"
+          />
+          s
+        </label>
+      </div>
+      {progress && (
+        <p className="text-[11px] text-zinc-500 font-mono">
+          {progress.fixes} fix{progress.fixes === 1 ? '' : 'es'} · {progress.gps.lat.toFixed(6)}, {progress.gps.lng.toFixed(6)}
+          {progress.gps.positioningError !== undefined && ` · ±${progress.gps.positioningError.toFixed(0)} m`} · {secondsLeft}s left
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ElevationSettings, ElevationTile, GPSData } from '../types';
+import { ELEVATION_EXTENSIONS, describeTileBounds, lookupElevation, parseElevationFile } from '../utils/elevationUtils';
+import { Mountain, Upload, X, ArrowDownToLine } from 'lucide-react';
+
+interface ElevationPanelProps {
+  tiles: ElevationTile[];
+  settings: ElevationSettings;
+  currentGps: GPSData;
+  altitudeLocked: boolean;
+  selectedCount: number;
+  onTilesLoaded: (tiles: ElevationTile[]) => void;
+  onTileRemove: (id: string) => void;
+  onSettingsChange: (settings: ElevationSettings) => void;
+  onFillPin: () => void;
+  onFillSelection: () => void;
+}
+
+// Ground height under the pin from local DEM tiles, so a dropped pin gets a
+// real altitude instead of sea level
+export const ElevationPanel: React.FC<ElevationPanelProps> = ({
+  tiles,
+  settings,
+  currentGps,
+  altitudeLocked,
+  selectedCount,
+  onTilesLoaded,
+  onTileRemove,
+  onSettingsChange,
+  onFillPin,
+  onFillSelection
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const ground = useMemo(() => lookupElevation(tiles, currentGps), [tiles, currentGps]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    // One at a time, each tile is fully read into memory
+    setIsLoading(true);
+    const loaded: ElevationTile[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(await parseElevationFile(file));
+      } catch (error) {
+        console.error(`Failed to read elevation tile ${file.name}`, error);
+        failed.push(error instanceof Error ? error.message : file.name);
+      }
+    }
+    setIsLoading(false);
+    if (loaded.length > 0) onTilesLoaded(loaded);
+    if (failed.length > 0) alert(`Could not load ${failed.length} file(s):\n${failed.join('\n')}`);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Mountain className="w-4 h-4" />
+        Elevation
+      </h2>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept={ELEVATION_EXTENSIONS.join(',')}
+        multiple
+        className="hidden"
+      />
+
+      <div className="space-y-4">
+        {tiles.length > 0 && (
+          <ul className="space-y-1">
+            {tiles.map(tile => (
+              <li key={tile.id} className="flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{tile.name}</p>
+                  <p className="text-[11px] text-zinc-500 font-mono">
+                    {describeTileBounds(tile)} · {(tile.cellWidth * 3600).toFixed(1)}"
+                  </p>
+                </div>
+                <button onClick={() => onTileRemove(tile.id)} className="text-zinc-600 hover:text-white transition-colors" title="Remove tile">
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="w-full flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+        >
+          <Upload className="w-4 h-4" />
+          {isLoading ? 'Reading tiles...' : 'Load SRTM .hgt / GeoTIFF tiles'}
+        </button>
+
+        {tiles.length > 0 && (
+          <>
+            <p className="text-xs text-zinc-400 font-mono">
+              {ground === undefined
+                ? 'No tile covers the pin.'
+                : `Ground ${ground.toFixed(1)} m at the pin${settings.aboveGroundMeters ? `, altitude ${(ground + settings.aboveGroundMeters).toFixed(1)} m` : ''}`}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <label className="flex items-center gap-2 text-xs text-zinc-400 pb-2">
+                <input
+                  type="checkbox"
+                  checked={settings.autoFill}
+                  onChange={(e) => onSettingsChange({ ...settings, autoFill: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Fill when the pin moves
+              </label>
+              <div>
+                <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">ABOVE GROUND (M)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={settings.aboveGroundMeters}
+                  onChange={(e) => onSettingsChange({ ...settings, aboveGroundMeters: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  title="Added to the ground height, e.g. drone flight height or building floor"
+                />
+              </div>
+            </div>
+
+            {altitudeLocked && (
+              <p className="text-[11px] text-amber-400/80">This photo's altitude is locked and won't follow the pin.</p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={onFillPin}
+                disabled={ground === undefined}
+                className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+                title="Set the pin's altitude from the elevation model, even if locked"
+              >
+                <ArrowDownToLine className="w-4 h-4" />
+                Fill pin
+              </button>
+              <button
+                onClick={onFillSelection}
+                disabled={selectedCount === 0}
+                className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+                title="Set the altitude of the selected photos from where each is pinned. Locked altitudes are kept."
+              >
+                <ArrowDownToLine className="w-4 h-4" />
+                Fill {selectedCount} selected
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
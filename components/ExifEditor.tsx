@@ -1,58 +1,133 @@
-import React, { useEffect, useState } from 'react';
-import { UploadedImage, GPSData } from '../types';
-import { MapPin, Calendar, Camera, Hash, Save, Download } from 'lucide-react';
-import { embedExifData } from '../utils/geoUtils';
-import FileSaver from 'file-saver';
+import React, { useEffect, useMemo, useState } from 'react';
+import { UploadedImage, GPSData, ExifTagEdits, XmpWriteMode, LocationPreset, IntegrityDecision, IntegrityIssue, GeolocationProvider, CaptureTime, GeofenceStatus, FuzzedLocation } from '../types';
+import { MapPin, Calendar, Camera, Hash, Save, Download, FileCode, Undo2, Redo2, History, Star, Lock, LockOpen, ShieldAlert, CircleDashed } from 'lucide-react';
+import { buildOutputFile, getOutputFileName } from '../utils/imageUtils';
+import { FORMAT_CAPABILITIES } from '../utils/formatUtils';
+import { ExifInspector } from './ExifInspector';
+import { GpsDetailsFields } from './GpsDetailsFields';
+import { XmpLocationPanel } from './XmpLocationPanel';
+import { LocationDiff } from './LocationDiff';
+import { CoordinateField } from './CoordinateField';
+import { IntegrityReport } from './IntegrityReport';
+import { DeviceLocationControl } from './DeviceLocationControl';
+import { toSidecarName } from '../utils/xmpUtils';
+import { findNearestPreset, groupPresets } from '../utils/presetUtils';
+import { distanceMeters, formatDistance, hasUsableGps } from '../utils/geoUtils';
+import { checkImageIntegrity } from '../utils/integrityUtils';
+import { formatUtcOffset } from '../utils/timeZoneUtils';
+import { saveFile } from '../utils/downloadUtils';
 
 interface ExifEditorProps {
   image: UploadedImage;
   currentGps: GPSData;
   onGpsChange: (gps: GPSData) => void;
+  onTagsChange: (edits: ExifTagEdits) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: () => void;
+  moveWarningMeters: number;
+  onMoveWarningChange: (meters: number) => void;
+  presets: LocationPreset[];
+  onApplyPreset: (preset: LocationPreset) => void;
+  geolocation: GeolocationProvider | null;
+  onDeviceLocation: (gps: GPSData) => void;
+  captureTime: CaptureTime | null;
+  onAltitudeLockChange: (locked: boolean) => void;
+  geofence: GeofenceStatus | null; // The pin against the active project area
+  fuzz: FuzzedLocation | null; // Written instead of the pin while locations are fuzzed
 }
 
-export const ExifEditor: React.FC<ExifEditorProps> = ({ image, currentGps, onGpsChange }) => {
-  const [localLat, setLocalLat] = useState(currentGps.lat.toString());
-  const [localLng, setLocalLng] = useState(currentGps.lng.toString());
+export const ExifEditor: React.FC<ExifEditorProps> = ({
+  image,
+  currentGps,
+  onGpsChange,
+  onTagsChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onRevert,
+  moveWarningMeters,
+  onMoveWarningChange,
+  presets,
+  onApplyPreset,
+  geolocation,
+  onDeviceLocation,
+  captureTime,
+  onAltitudeLockChange,
+  geofence,
+  fuzz
+}) => {
   const [localAlt, setLocalAlt] = useState(currentGps.altitude?.toString() || "0");
   const [isSaving, setIsSaving] = useState(false);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [isSidecar, setIsSidecar] = useState(false);
+  const [xmpMode, setXmpMode] = useState<XmpWriteMode>('none');
+  const [xmpSidecarUrl, setXmpSidecarUrl] = useState<string | null>(null);
+  const [integrityIssues, setIntegrityIssues] = useState<IntegrityIssue[] | null>(null);
+  const capability = FORMAT_CAPABILITIES[image.format];
+
+  const presetGroups = useMemo(() => groupPresets(presets), [presets]);
+  // Suggest the site the camera's own fix is closest to, unless the pin is already there
+  const suggestedPreset = useMemo(() => {
+    const nearest = hasUsableGps(image.metadata.gps) ? findNearestPreset(presets, image.metadata.gps) : undefined;
+    return nearest && distanceMeters(nearest.preset, currentGps) >= 0.5 ? nearest : undefined;
+  }, [presets, image.metadata.gps, currentGps]);
+
+  const handlePresetSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApplyPreset(preset);
+  };
 
   useEffect(() => {
-    setLocalLat(currentGps.lat.toFixed(6));
-    setLocalLng(currentGps.lng.toFixed(6));
     if (currentGps.altitude !== undefined) {
       setLocalAlt(currentGps.altitude.toString());
     }
   }, [currentGps]);
 
-  const handleManualChange = () => {
-    const lat = parseFloat(localLat);
-    const lng = parseFloat(localLng);
-    const alt = parseFloat(localAlt);
+  // A processed file belongs to the image it was built from
+  useEffect(() => {
+    setDownloadUrl(null);
+    setXmpSidecarUrl(null);
+    setIntegrityIssues(null);
+  }, [image.id]);
 
-    if (!isNaN(lat) && !isNaN(lng)) {
-      onGpsChange({
-        lat,
-        lng,
-        altitude: isNaN(alt) ? 0 : alt
-      });
-    }
+  // Written files are held in memory until their URLs are let go, when they
+  // are replaced or the editor goes away
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    };
+  }, [downloadUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (xmpSidecarUrl) URL.revokeObjectURL(xmpSidecarUrl);
+    };
+  }, [xmpSidecarUrl]);
+
+  const handlePositionChange = (lat: number, lng: number) => {
+    onGpsChange({ ...currentGps, lat, lng });
   };
 
-  const handleSaveExif = async () => {
+  // A typed altitude is locked, so the elevation model doesn't overwrite it on the next pin move
+  const handleAltitudeChange = () => {
+    const alt = parseFloat(localAlt);
+    const altitude = isNaN(alt) ? 0 : alt;
+    if (altitude === currentGps.altitude) return;
+    onGpsChange({ ...currentGps, altitude });
+    onAltitudeLockChange(true);
+  };
+
+  const writeOutput = async (repairs: IntegrityIssue[]) => {
     setIsSaving(true);
     try {
-      await new Promise(r => setTimeout(r, 100));
-      
-      const newJpegBase64 = embedExifData(image.previewUrl, image.metadata, currentGps);
-      const byteCharacters = atob(newJpegBase64.split(',')[1]);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: "image/jpeg" });
+      const { blob, sidecar, xmpSidecar } = await buildOutputFile(image, currentGps, xmpMode, repairs, fuzz || undefined);
       const url = URL.createObjectURL(blob);
+      setIsSidecar(sidecar);
+      setXmpSidecarUrl(xmpSidecar ? URL.createObjectURL(xmpSidecar) : null);
       setDownloadUrl(url);
       
     } catch (error) {
@@ -63,10 +138,39 @@ export const ExifEditor: React.FC<ExifEditorProps> = ({ image, currentGps, onGps
     }
   };
 
+  // Files whose EXIF gets rewritten are checked first; problems wait for the user's decision
+  const handleSaveExif = async () => {
+    if (geofence?.blocked) return;
+    if (capability.write === 'in-place') {
+      try {
+        const issues = await checkImageIntegrity(image);
+        if (issues.length > 0) {
+          setIntegrityIssues(issues);
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking metadata:", error);
+        alert("Failed to read the image file.");
+        return;
+      }
+    }
+    await writeOutput([]);
+  };
+
+  const handleIntegrityDecision = (decision: IntegrityDecision) => {
+    const issues = integrityIssues || [];
+    setIntegrityIssues(null);
+    if (decision === 'abort') return;
+    writeOutput(decision === 'repair' ? issues.filter(issue => issue.repair) : []);
+  };
+
   const handleDownload = () => {
     if (downloadUrl) {
-      const saveFile = (FileSaver as any).saveAs || FileSaver;
-      saveFile(downloadUrl, `geotagged-${image.file.name}`);
+      const fileName = getOutputFileName(image.file.name, isSidecar);
+      saveFile(downloadUrl, fileName);
+      if (xmpSidecarUrl) {
+        saveFile(xmpSidecarUrl, toSidecarName(fileName));
+      }
     }
   };
 
@@ -89,68 +193,184 @@ export const ExifEditor: React.FC<ExifEditorProps> = ({ image, currentGps, onGps
           <div>
             <span className="text-zinc-500 flex items-center gap-2 mb-1"><Calendar className="w-3 h-3" /> Date Taken</span>
             <span className="font-mono text-white block truncate bg-black/30 p-2 rounded border border-zinc-800">
-              {image.metadata.dateTimeOriginal || 'Unknown'}
+              {captureTime
+                ? `${captureTime.local} ${formatUtcOffset(captureTime.offsetMinutes)}`
+                : image.pendingTags?.DateTimeOriginal || image.metadata.dateTimeOriginal || 'Unknown'}
             </span>
+            {captureTime && (
+              <span className="text-[11px] text-zinc-500 font-mono block mt-1 truncate">
+                {new Date(captureTime.instant).toISOString().replace('T', ' ').slice(0, 19)} UTC
+                {captureTime.timeZone && ` · ${captureTime.timeZone}`}
+              </span>
+            )}
           </div>
         </div>
       </div>
 
+      <XmpLocationPanel image={image} onUseGps={onGpsChange} />
+
+      <ExifInspector image={image} onTagsChange={onTagsChange} />
+
       {/* Geolocation Inputs */}
       <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
-        <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-          <MapPin className="w-4 h-4 text-white" />
-          Coordinates
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-white" />
+            Coordinates
+          </h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo pin move (Ctrl+Z)"
+              className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo pin move (Ctrl+Shift+Z)"
+              className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRevert}
+              disabled={!image.metadata.gps}
+              title="Revert to the location stored in the file"
+              className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
 
         <div className="space-y-5">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs font-semibold text-zinc-500 mb-2">LATITUDE</label>
-              <input
-                type="number"
-                step="0.000001"
-                value={localLat}
-                onChange={(e) => setLocalLat(e.target.value)}
-                onBlur={handleManualChange}
-                className="w-full px-4 py-3 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none"
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-semibold text-zinc-500 mb-2">LONGITUDE</label>
-              <input
-                type="number"
-                step="0.000001"
-                value={localLng}
-                onChange={(e) => setLocalLng(e.target.value)}
-                onBlur={handleManualChange}
-                className="w-full px-4 py-3 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none"
-              />
+          {suggestedPreset && (
+            <div className="flex items-center justify-between gap-3 text-xs bg-blue-900/20 border border-blue-900/40 rounded-lg p-3">
+              <p className="text-blue-300 flex items-center gap-2">
+                <Star className="w-3.5 h-3.5 shrink-0" />
+                Taken {Math.round(suggestedPreset.distance)} m from {suggestedPreset.preset.name}
+              </p>
+              <button
+                onClick={() => onApplyPreset(suggestedPreset.preset)}
+                className="shrink-0 px-2.5 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+              >
+                Use preset
+              </button>
             </div>
-          </div>
+          )}
+
+          {presets.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handlePresetSelect(e.target.value)}
+              className="w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-zinc-300 text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none"
+            >
+              <option value="" disabled>Apply a preset…</option>
+              {presetGroups.map(([group, items]) => (
+                <optgroup key={group} label={group}>
+                  {items.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          )}
+
+          <DeviceLocationControl provider={geolocation} onLocation={onDeviceLocation} />
+
+          <CoordinateField lat={currentGps.lat} lng={currentGps.lng} onChange={handlePositionChange} />
           
           <div>
-            <label className="block text-xs font-semibold text-zinc-500 mb-2">ALTITUDE (METERS)</label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-semibold text-zinc-500">ALTITUDE (METERS)</label>
+              <button
+                onClick={() => onAltitudeLockChange(!image.altitudeLocked)}
+                title={image.altitudeLocked ? 'Locked: pin moves keep this altitude. Click to fill it from the elevation model again.' : 'Filled from the elevation model when the pin moves. Click to lock.'}
+                className={`flex items-center gap-1 text-[10px] font-semibold transition-colors ${image.altitudeLocked ? 'text-amber-400 hover:text-amber-300' : 'text-zinc-600 hover:text-zinc-300'}`}
+              >
+                {image.altitudeLocked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                {image.altitudeLocked ? 'LOCKED' : 'AUTO'}
+              </button>
+            </div>
             <input
               type="number"
               step="0.1"
               value={localAlt}
               onChange={(e) => setLocalAlt(e.target.value)}
-              onBlur={handleManualChange}
+              onBlur={handleAltitudeChange}
               className="w-full px-4 py-3 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none"
             />
           </div>
 
+          <GpsDetailsFields
+            gps={currentGps}
+            onChange={(details) => onGpsChange({ ...currentGps, ...details })}
+          />
+
           <div className="pt-6 border-t border-zinc-800 flex flex-col gap-3">
-            {!downloadUrl ? (
+            <LocationDiff
+              original={image.metadata.gps}
+              pending={currentGps}
+              warnMeters={moveWarningMeters}
+              onWarnMetersChange={onMoveWarningChange}
+            />
+            {geofence && !geofence.inside && (
+              <p className={`text-xs rounded-lg p-3 flex gap-2 border ${geofence.blocked ? 'text-red-400 bg-red-900/20 border-red-900/40' : 'text-amber-400 bg-amber-900/20 border-amber-900/40'}`}>
+                <ShieldAlert className="w-4 h-4 shrink-0" />
+                <span>
+                  The pin is {formatDistance(geofence.distanceMeters)} outside {geofence.area.name}.
+                  {geofence.blocked ? ' Move it inside the area to write this photo.' : ' Check the location before writing.'}
+                </span>
+              </p>
+            )}
+            {fuzz && (
+              <p className="text-xs text-violet-300 bg-violet-900/20 border border-violet-900/40 rounded-lg p-3 flex gap-2">
+                <CircleDashed className="w-4 h-4 shrink-0" />
+                <span>
+                  Written fuzzed to {fuzz.gps.lat.toFixed(5)}, {fuzz.gps.lng.toFixed(5)}, within {formatDistance(fuzz.radiusMeters)} of the pin.
+                  Altitude, heading and the other GPS tags are left out.
+                </span>
+              </p>
+            )}
+            {capability.write === 'sidecar' && (
+              <p className="text-xs text-amber-400 bg-amber-900/20 border border-amber-900/40 rounded-lg p-3 flex gap-2">
+                <FileCode className="w-4 h-4 shrink-0" />
+                {capability.label} files cannot be rewritten in place. Changes are saved to an XMP sidecar to keep next to the original.
+              </p>
+            )}
+            {capability.write === 'in-place' && !downloadUrl && (
+              <div>
+                <label className="block text-xs font-semibold text-zinc-500 mb-2">ALSO WRITE XMP</label>
+                <select
+                  value={xmpMode}
+                  onChange={(e) => setXmpMode(e.target.value as XmpWriteMode)}
+                  className="w-full px-4 py-3 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none"
+                >
+                  <option value="none">No, EXIF only</option>
+                  <option value="sidecar">As an .xmp sidecar file</option>
+                  <option value="embedded">Embedded in the image</option>
+                </select>
+                {image.pendingLocation && xmpMode === 'none' && (
+                  <p className="text-[11px] text-zinc-600 mt-1.5">Place names only exist in XMP, so they are embedded anyway.</p>
+                )}
+              </div>
+            )}
+            {integrityIssues ? (
+              <IntegrityReport issues={integrityIssues} onDecide={handleIntegrityDecision} />
+            ) : !downloadUrl ? (
               <button
                 onClick={handleSaveExif}
-                disabled={isSaving}
+                disabled={isSaving || geofence?.blocked}
+                title={geofence?.blocked ? `Outside ${geofence.area.name}; writing is blocked for this project area` : undefined}
                 className="w-full flex items-center justify-center gap-2 bg-white hover:bg-zinc-200 text-black font-bold py-3.5 px-4 rounded-lg transition-colors disabled:opacity-50 tracking-tight"
               >
                 {isSaving ? 'Processing...' : (
                   <>
                     <Save className="w-4 h-4" />
-                    WRITE EXIF TAGS
+                    {capability.write === 'sidecar' ? 'WRITE XMP SIDECAR' : 'WRITE EXIF TAGS'}
                   </>
                 )}
               </button>
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UploadedImage, ExifTagEdits, WritableTagName, ExifIfdName } from '../types';
+import { describeExifTags, readWritableTags } from '../utils/geoUtils';
+import { ListTree, PenLine, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ExifInspectorProps {
+  image: UploadedImage;
+  onTagsChange: (edits: ExifTagEdits) => void;
+}
+
+const FIELDS: { name: WritableTagName, label: string, placeholder?: string }[] = [
+  { name: 'DateTimeOriginal', label: 'DATE TAKEN', placeholder: 'YYYY:MM:DD HH:MM:SS' },
+  { name: 'OffsetTimeOriginal', label: 'UTC OFFSET OF DATE TAKEN', placeholder: '+05:00' },
+  { name: 'Artist', label: 'ARTIST' },
+  { name: 'Copyright', label: 'COPYRIGHT' },
+  { name: 'ImageDescription', label: 'DESCRIPTION' },
+  { name: 'UserComment', label: 'USER COMMENT' },
+];
+
+const ORIENTATIONS: Record<number, string> = {
+  1: 'Normal',
+  2: 'Mirrored horizontal',
+  3: 'Rotated 180°',
+  4: 'Mirrored vertical',
+  5: 'Mirrored horizontal, rotated 270° CW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored horizontal, rotated 90° CW',
+  8: 'Rotated 270° CW',
+};
+
+const IFD_LABELS: Record<ExifIfdName, string> = {
+  '0th': 'Image (IFD0)',
+  'Exif': 'Exif',
+  'GPS': 'GPS',
+  'Interop': 'Interoperability',
+  '1st': 'Thumbnail (IFD1)',
+};
+
+// Fields with a fixed format, checked before the edit is kept
+const FORMATS: Partial<Record<WritableTagName, { pattern: RegExp, hint: string }>> = {
+  DateTimeOriginal: { pattern: /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/, hint: 'Use the EXIF format YYYY:MM:DD HH:MM:SS' },
+  OffsetTimeOriginal: { pattern: /^[+-]\d{2}:\d{2}$/, hint: 'Use a UTC offset like +05:00' },
+};
+
+const toDrafts = (values: ExifTagEdits) => {
+  const drafts: Partial<Record<WritableTagName, string>> = {};
+  for (const [name, value] of Object.entries(values)) {
+    drafts[name as WritableTagName] = String(value);
+  }
+  return drafts;
+};
+
+export const ExifInspector: React.FC<ExifInspectorProps> = ({ image, onTagsChange }) => {
+  const original = useMemo(() => readWritableTags(image.metadata.rawExifObj), [image.metadata]);
+  const entries = useMemo(() => describeExifTags(image.metadata.rawExifObj), [image.metadata]);
+  const [drafts, setDrafts] = useState(() => toDrafts({ ...original, ...image.pendingTags }));
+  const [invalid, setInvalid] = useState<WritableTagName | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  // Drafts follow the active image and edits made elsewhere, like a clock shift.
+  // A rejected draft leaves the edits alone, so it stays up for correction.
+  useEffect(() => {
+    setDrafts(toDrafts({ ...original, ...image.pendingTags }));
+    setInvalid(null);
+  }, [image.id, image.pendingTags]);
+
+  const commit = (name: WritableTagName, value: string) => {
+    const format = FORMATS[name];
+    if (format && value !== '' && !format.pattern.test(value)) {
+      setInvalid(name);
+      return;
+    }
+    setInvalid(null);
+
+    const edits: ExifTagEdits = { ...image.pendingTags };
+    const originalValue = original[name] === undefined ? '' : String(original[name]);
+    if (value === originalValue) {
+      delete edits[name];
+    } else {
+      edits[name] = name === 'Orientation' && value !== '' ? Number(value) : value;
+    }
+    onTagsChange(edits);
+  };
+
+  const filtered = entries.filter(e => {
+    const q = filter.trim().toLowerCase();
+    return !q || e.name.toLowerCase().includes(q) || e.display.toLowerCase().includes(q);
+  });
+
+  const inputClass = "w-full px-3 py-2 bg-black border rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <PenLine className="w-4 h-4" />
+        EXIF Tags
+      </h2>
+
+      <div className="space-y-3">
+        {FIELDS.map(field => (
+          <div key={field.name}>
+            <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">
+              {field.label}
+              {image.pendingTags?.[field.name] !== undefined && <span className="text-blue-400 ml-2">EDITED</span>}
+            </label>
+            <input
+              type="text"
+              value={drafts[field.name] ?? ''}
+              placeholder={field.placeholder}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [field.name]: e.target.value }))}
+              onBlur={(e) => commit(field.name, e.target.value)}
+              className={`${inputClass} ${invalid === field.name ? 'border-red-500' : 'border-zinc-800'}`}
+            />
+            {invalid === field.name && (
+              <p className="text-[11px] text-red-400 mt-1">{FORMATS[field.name]?.hint}</p>
+            )}
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">
+            ORIENTATION
+            {image.pendingTags?.Orientation !== undefined && <span className="text-blue-400 ml-2">EDITED</span>}
+          </label>
+          <select
+            value={drafts.Orientation ?? ''}
+            onChange={(e) => {
+              setDrafts(prev => ({ ...prev, Orientation: e.target.value }));
+              commit('Orientation', e.target.value);
+            }}
+            className={`${inputClass} border-zinc-800`}
+          >
+            <option value="">Not set</option>
+            {Object.entries(ORIENTATIONS).map(([value, label]) => (
+              <option key={value} value={value}>{value} · {label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={() => setShowAll(!showAll)}
+        className="mt-5 w-full flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-wider hover:text-white transition-colors"
+      >
+        {showAll ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <ListTree className="w-4 h-4" />
+        All tags ({entries.length})
+      </button>
+
+      {showAll && (
+        <div className="mt-3 space-y-3">
+          <input
+            type="text"
+            value={filter}
+            placeholder="Filter by name or value"
+            onChange={(e) => setFilter(e.target.value)}
+            className={`${inputClass} border-zinc-800`}
+          />
+          <div className="max-h-80 overflow-y-auto custom-scrollbar pr-1 space-y-4">
+            {(Object.keys(IFD_LABELS) as ExifIfdName[]).map(ifd => {
+              const rows = filtered.filter(e => e.ifd === ifd);
+              if (rows.length === 0) return null;
+              return (
+                <div key={ifd}>
+                  <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest mb-1.5">{IFD_LABELS[ifd]}</p>
+                  <table className="w-full text-xs font-mono">
+                    <tbody>
+                      {rows.map(e => (
+                        <tr key={`${e.ifd}-${e.tag}`} className="border-t border-zinc-800/60 align-top">
+                          <td className="py-1 pr-2 text-zinc-300" title={`0x${e.tag.toString(16).padStart(4, '0')}`}>{e.name}</td>
+                          <td className="py-1 pr-2 text-zinc-600">{e.type}</td>
+                          <td className="py-1 text-white break-all">{e.display}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { UploadedImage, IntegrityDecision, LocationFuzzer, XmpWriteMode } from '../types';
+import { getEffectiveGps } from '../utils/imageUtils';
+import { hasUsableGps } from '../utils/geoUtils';
+import { exportImagesAsZip, getExportQueue, applyFilenameTemplate, DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS } from '../utils/exportUtils';
+import { Archive, FileText } from 'lucide-react';
+
+interface ExportPanelProps {
+  images: UploadedImage[];
+  blockedIds?: Set<string>; // Located outside the project area while writing there is blocked
+  blockedAreaName?: string;
+  fuzzer?: LocationFuzzer | null; // Set while locations are fuzzed for sharing
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ images, blockedIds, blockedAreaName, fuzzer }) => {
+  const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [zipName, setZipName] = useState('geotagged-images.zip');
+  const [xmpMode, setXmpMode] = useState<XmpWriteMode>('none');
+  const [integrity, setIntegrity] = useState<IntegrityDecision>('abort');
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const exportable = blockedIds ? images.filter(img => !blockedIds.has(img.id)) : images;
+  const blockedCount = images.length - exportable.length;
+  const queue = getExportQueue(exportable, !!fuzzer);
+  // Named from the location that is written, a fuzzed photo's name must not give the real one away
+  const exampleGps = queue[0] && getEffectiveGps(queue[0]);
+  const example = queue[0]
+    ? applyFilenameTemplate(template, queue[0], fuzzer && hasUsableGps(exampleGps) ? fuzzer(queue[0].id, exampleGps).gps : exampleGps, 0)
+    : null;
+
+  const handleExport = async () => {
+    setResult(null);
+    setProgress({ done: 0, total: queue.length });
+    try {
+      const manifest = await exportImagesAsZip(exportable, {
+        template: template.trim() || DEFAULT_FILENAME_TEMPLATE,
+        zipName: zipName.endsWith('.zip') ? zipName : `${zipName}.zip`,
+        xmpMode,
+        integrity,
+        fuzzer: fuzzer || undefined,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      const changed = manifest.filter(entry => entry.changed).length;
+      const skipped = manifest.filter(entry => entry.integrity === 'abort').length;
+      const repaired = manifest.filter(entry => entry.integrity === 'repair').length;
+      setResult(
+        `Exported ${manifest.length - skipped} images (${changed} changed) plus manifest.csv and manifest.json.`
+        + (repaired > 0 ? ` Repaired ${repaired}.` : '')
+        + (skipped > 0 ? ` Skipped ${skipped} with damaged metadata, see the manifest.` : '')
+      );
+    } catch (error) {
+      // Closing the save dialog is not an error worth reporting
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error("Error exporting ZIP:", error);
+      alert("Failed to build the ZIP archive.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Archive className="w-4 h-4" />
+        Export Queue ({queue.length})
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-xs font-semibold text-zinc-500 mb-2">FILENAME TEMPLATE</label>
+          <input
+            type="text"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            className={inputClass}
+          />
+          <p className="text-[11px] text-zinc-600 mt-1.5 font-mono">{FILENAME_TOKENS.join(' ')}</p>
+          {example && (
+            <p className="text-[11px] text-zinc-500 mt-1 font-mono truncate flex items-center gap-1">
+              <FileText className="w-3 h-3 shrink-0" /> {example}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-zinc-500 mb-2">ARCHIVE NAME</label>
+          <input
+            type="text"
+            value={zipName}
+            onChange={(e) => setZipName(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-zinc-500 mb-2">ALSO WRITE XMP</label>
+          <select
+            value={xmpMode}
+            onChange={(e) => setXmpMode(e.target.value as XmpWriteMode)}
+            className={inputClass}
+          >
+            <option value="none">No, EXIF only</option>
+            <option value="sidecar">As .xmp sidecar files</option>
+            <option value="embedded">Embedded in the image</option>
+          </select>
+          <p className="text-[11px] text-zinc-600 mt-1.5">HEIC and TIFF always get a sidecar instead of EXIF.</p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-zinc-500 mb-2">DAMAGED METADATA</label>
+          <select
+            value={integrity}
+            onChange={(e) => setIntegrity(e.target.value as IntegrityDecision)}
+            className={inputClass}
+          >
+            <option value="abort">Skip the image</option>
+            <option value="preserve">Write edits, keep the rest as is</option>
+            <option value="repair">Repair what can be repaired</option>
+          </select>
+          <p className="text-[11px] text-zinc-600 mt-1.5">Invalid IFDs, zero denominators, impossible coordinates and wrong hemisphere refs. Every problem is listed in the manifest.</p>
+        </div>
+
+        {fuzzer && (
+          <p className="text-[11px] text-violet-400">Locations are fuzzed: every photo with a location is written with the coarse one.</p>
+        )}
+
+        {blockedCount > 0 && (
+          <p className="text-[11px] text-red-400">
+            {blockedCount} photo{blockedCount === 1 ? ' is' : 's are'} located outside {blockedAreaName} and will be left out.
+          </p>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={queue.length === 0 || progress !== null}
+          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-colors shadow-lg shadow-blue-900/20 text-sm disabled:opacity-40"
+        >
+          <Archive className="w-4 h-4" />
+          {progress ? `Exporting ${progress.done}/${progress.total}...` : 'EXPORT ALL AS ZIP'}
+        </button>
+
+        {result && (
+          <p className="text-xs text-green-400 text-center">{result}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { FORMAT_CAPABILITIES } from '../utils/formatUtils';
+import { ImageFormat } from '../types';
+import { FileImage } from 'lucide-react';
+
+export const FormatSupportTable: React.FC = () => {
+  const formats = Object.keys(FORMAT_CAPABILITIES) as ImageFormat[];
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <FileImage className="w-4 h-4" />
+        Supported Formats
+      </h2>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-zinc-500">
+            <th className="font-semibold pb-2">FORMAT</th>
+            <th className="font-semibold pb-2">READ</th>
+            <th className="font-semibold pb-2">WRITE</th>
+          </tr>
+        </thead>
+        <tbody className="text-zinc-300">
+          {formats.map(format => {
+            const capability = FORMAT_CAPABILITIES[format];
+            return (
+              <tr key={format} className="border-t border-zinc-800" title={capability.note}>
+                <td className="py-1.5 font-medium">{capability.label}</td>
+                <td className="py-1.5">{capability.read ? 'EXIF' : '—'}</td>
+                <td className={`py-1.5 ${capability.write === 'sidecar' ? 'text-amber-400' : 'text-green-400'}`}>
+                  {capability.write === 'sidecar' ? 'XMP sidecar' : 'In place'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
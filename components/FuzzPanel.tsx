@@ -0,0 +1,93 @@
+import React from 'react';
+import { FuzzMethod, FuzzSettings, FuzzedLocation } from '../types';
+import { FUZZ_PRECISIONS } from '../utils/fuzzUtils';
+import { formatDistance } from '../utils/geoUtils';
+import { CircleDashed } from 'lucide-react';
+
+interface FuzzPanelProps {
+  settings: FuzzSettings;
+  preview: FuzzedLocation | null; // What would be written for the active photo
+  onSettingsChange: (settings: FuzzSettings) => void;
+}
+
+const METHOD_LABELS: Record<FuzzMethod, string> = {
+  snap: 'Snap to a grid',
+  random: 'Random offset',
+  centroid: 'Nearest city or district centre',
+};
+
+const formatPrecision = (meters: number) => meters < 1000 ? `${meters} m` : `${meters / 1000} km`;
+
+const formatResolution = (seconds: number) => seconds >= 60 ? `${seconds / 60}'` : `${seconds}"`;
+
+// Coarsens locations before photos are shared publicly. Applies to saving
+// and to the ZIP export, the map shows the circle the real spot is within.
+export const FuzzPanel: React.FC<FuzzPanelProps> = ({ settings, preview, onSettingsChange }) => {
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <CircleDashed className="w-4 h-4" />
+        Location Fuzzing
+      </h2>
+
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Fuzz locations when writing
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">METHOD</label>
+            <select
+              value={settings.method}
+              onChange={(e) => onSettingsChange({ ...settings, method: e.target.value as FuzzMethod })}
+              className={inputClass}
+            >
+              {(Object.keys(METHOD_LABELS) as FuzzMethod[]).map(method => (
+                <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">
+              {settings.method === 'centroid' ? 'GRID WITHOUT A CENTRE' : 'PRECISION'}
+            </label>
+            <select
+              value={settings.precisionMeters}
+              onChange={(e) => onSettingsChange({ ...settings, precisionMeters: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {FUZZ_PRECISIONS.map(meters => (
+                <option key={meters} value={meters}>{formatPrecision(meters)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {settings.enabled && preview && (
+          <div className="bg-black/30 p-3 rounded border border-zinc-800 text-xs space-y-1">
+            <p className="font-mono text-white">
+              {preview.gps.lat.toFixed(5)}, {preview.gps.lng.toFixed(5)}
+            </p>
+            <p className="text-zinc-400">
+              {preview.place ? `Centre of ${preview.place}, ` : ''}the real spot is within {formatDistance(preview.radiusMeters)}
+            </p>
+            <p className="text-zinc-500">Seconds rounded to {formatResolution(preview.dmsResolutionSeconds)}</p>
+          </div>
+        )}
+
+        <p className="text-[11px] text-zinc-600">
+          Altitude, heading, speed, GPS time and the place's sublocation are dropped. Each photo keeps its own random offset, so copies can't be averaged out.
+        </p>
+      </div>
+    </div>
+  );
+};
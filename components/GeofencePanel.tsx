@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { GeofenceArea, GeofenceSettings, GeofenceStatus, GeofenceTool, GeofenceMode } from '../types';
+import { EDITABLE_VERTEX_LIMIT, GEOFENCE_EXTENSIONS, countVertices, parseGeofenceFile } from '../utils/geofenceUtils';
+import { formatDistance } from '../utils/geoUtils';
+import { Fence, Upload, PenTool, PencilLine, X, ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface GeofencePanelProps {
+  areas: GeofenceArea[];
+  settings: GeofenceSettings;
+  status: GeofenceStatus | null; // Of the active photo's pin
+  outsideCount: number; // Loaded photos located outside the active area
+  tool: GeofenceTool | null;
+  onImport: (areas: GeofenceArea[]) => void;
+  onRemove: (id: string) => void;
+  onSettingsChange: (settings: GeofenceSettings) => void;
+  onToolChange: (tool: GeofenceTool | null) => void;
+}
+
+// Project boundaries from the contract: photos pinned outside the active one
+// are flagged, or kept from being written at all
+export const GeofencePanel: React.FC<GeofencePanelProps> = ({
+  areas,
+  settings,
+  status,
+  outsideCount,
+  tool,
+  onImport,
+  onRemove,
+  onSettingsChange,
+  onToolChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseGeofenceFile(file.name, await file.text());
+      onImport(imported);
+      setSummary(`Imported ${imported.length} area(s) from ${file.name}.`);
+    } catch (error) {
+      console.error("Failed to import boundaries", error);
+      alert(error instanceof Error ? error.message : "Failed to read boundary file.");
+    }
+  };
+
+  const handleActivate = (id: string) => {
+    onSettingsChange({ ...settings, activeId: settings.activeId === id ? null : id });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Fence className="w-4 h-4" />
+        Project Area
+      </h2>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept={GEOFENCE_EXTENSIONS.join(',')}
+        className="hidden"
+      />
+
+      <div className="space-y-4">
+        {areas.length > 0 && (
+          <ul className="space-y-1">
+            {areas.map(area => {
+              const vertices = countVertices(area);
+              const isActive = area.id === settings.activeId;
+              const isEditing = tool?.kind === 'edit' && tool.areaId === area.id;
+              return (
+                <li key={area.id} className="flex items-center gap-2 text-sm">
+                  <button
+                    onClick={() => handleActivate(area.id)}
+                    className={`flex-1 min-w-0 text-left px-2 py-1.5 rounded-lg border transition-colors ${isActive ? 'border-blue-600 bg-blue-900/20' : 'border-transparent hover:bg-zinc-800'}`}
+                    title={isActive ? 'Active, click to stop checking photos against it' : 'Check photos against this area'}
+                  >
+                    <p className={`truncate ${isActive ? 'text-white' : 'text-zinc-300'}`}>{area.name}</p>
+                    <p className="text-[11px] text-zinc-500 font-mono">
+                      {area.polygons.length} polygon{area.polygons.length === 1 ? '' : 's'} · {vertices} corners
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => onToolChange(isEditing ? null : { kind: 'edit', areaId: area.id })}
+                    disabled={vertices > EDITABLE_VERTEX_LIMIT || tool?.kind === 'draw'}
+                    className={`p-1 transition-colors disabled:opacity-30 ${isEditing ? 'text-blue-400' : 'text-zinc-600 hover:text-white'}`}
+                    title={vertices > EDITABLE_VERTEX_LIMIT ? `Too many corners to edit here (over ${EDITABLE_VERTEX_LIMIT})` : 'Reshape on the map'}
+                  >
+                    <PencilLine className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onRemove(area.id)} className="p-1 text-zinc-600 hover:text-white transition-colors" title="Remove area">
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors text-sm"
+            title="Polygons from a GeoJSON or KML file"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={() => onToolChange(tool?.kind === 'draw' ? null : { kind: 'draw' })}
+            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border transition-colors text-sm ${tool?.kind === 'draw' ? 'border-blue-600 text-blue-400' : 'border-zinc-700 text-zinc-300 hover:bg-zinc-800'}`}
+          >
+            <PenTool className="w-4 h-4" />
+            Draw on map
+          </button>
+        </div>
+
+        {tool?.kind === 'draw' && (
+          <p className="text-[11px] text-zinc-500">Click the map to place corners, then finish the area from the map.</p>
+        )}
+        {tool?.kind === 'edit' && (
+          <p className="text-[11px] text-zinc-500">Drag corners to move them, drag a midpoint to add one, right-click a corner to remove it.</p>
+        )}
+
+        {areas.length > 0 && (
+          <div>
+            <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">PHOTOS OUTSIDE THE AREA</label>
+            <select
+              value={settings.mode}
+              onChange={(e) => onSettingsChange({ ...settings, mode: e.target.value as GeofenceMode })}
+              className={inputClass}
+            >
+              <option value="warn">Warn, but write them</option>
+              <option value="block">Block writing them</option>
+            </select>
+          </div>
+        )}
+
+        {status && (
+          <p className={`text-xs flex items-center gap-2 ${status.inside ? 'text-green-400' : status.blocked ? 'text-red-400' : 'text-amber-400'}`}>
+            {status.inside ? <ShieldCheck className="w-4 h-4 shrink-0" /> : <ShieldAlert className="w-4 h-4 shrink-0" />}
+            {status.inside
+              ? `The pin is inside ${status.area.name}.`
+              : `The pin is ${formatDistance(status.distanceMeters)} outside ${status.area.name}.`}
+          </p>
+        )}
+        {settings.activeId && outsideCount > 0 && (
+          <p className="text-[11px] text-zinc-500">
+            {outsideCount} loaded photo{outsideCount === 1 ? ' is' : 's are'} located outside the area
+            {settings.mode === 'block' ? ' and will not be exported.' : '.'}
+          </p>
+        )}
+
+        {summary && (
+          <p className="text-xs text-zinc-400 text-center">{summary}</p>
+        )}
+      </div>
+    </div>
+  );
+};
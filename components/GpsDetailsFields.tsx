@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { GPSData } from '../types';
+import { ChevronDown, ChevronRight, Compass } from 'lucide-react';
+
+interface GpsDetailsFieldsProps {
+  gps: GPSData;
+  onChange: (details: Partial<GPSData>) => void;
+}
+
+type NumericField = 'heading' | 'speed' | 'positioningError' | 'destBearing';
+type TextField = 'mapDatum' | 'processingMethod';
+
+const NUMERIC_FIELDS: { key: NumericField, label: string, step: string }[] = [
+  { key: 'heading', label: 'CAMERA HEADING (°)', step: '1' },
+  { key: 'destBearing', label: 'DEST. BEARING (°)', step: '1' },
+  { key: 'speed', label: 'SPEED (KM/H)', step: '0.1' },
+  { key: 'positioningError', label: 'ACCURACY (M)', step: '0.1' },
+];
+
+const TEXT_FIELDS: { key: TextField, label: string, placeholder: string }[] = [
+  { key: 'mapDatum', label: 'MAP DATUM', placeholder: 'WGS-84' },
+  { key: 'processingMethod', label: 'PROCESSING METHOD', placeholder: 'GPS / NETWORK / MANUAL' },
+];
+
+// ISO instant <-> "YYYY-MM-DD HH:MM:SS", always in UTC like the GPS tags themselves
+const isoToInput = (iso?: string) => iso ? iso.replace('T', ' ').slice(0, 19) : '';
+const inputToIso = (value: string): string | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(Date.UTC(y, mo - 1, d, h, mi, s || 0));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toDrafts = (gps: GPSData): Record<string, string> => ({
+  heading: gps.heading?.toFixed(1) ?? '',
+  destBearing: gps.destBearing?.toFixed(1) ?? '',
+  speed: gps.speed?.toString() ?? '',
+  positioningError: gps.positioningError?.toString() ?? '',
+  mapDatum: gps.mapDatum ?? '',
+  processingMethod: gps.processingMethod ?? '',
+  timestamp: isoToInput(gps.timestamp),
+});
+
+export const GpsDetailsFields: React.FC<GpsDetailsFieldsProps> = ({ gps, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState(() => toDrafts(gps));
+
+  useEffect(() => {
+    setDrafts(toDrafts(gps));
+  }, [gps]);
+
+  const setDraft = (key: string, value: string) => setDrafts(prev => ({ ...prev, [key]: value }));
+
+  const commitNumber = (key: NumericField) => {
+    const value = parseFloat(drafts[key]);
+    onChange({ [key]: isNaN(value) ? undefined : value });
+  };
+
+  const commitText = (key: TextField) => {
+    onChange({ [key]: drafts[key].trim() || undefined });
+  };
+
+  const commitTimestamp = () => {
+    onChange({ timestamp: inputToIso(drafts.timestamp) });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-xs font-semibold text-zinc-500 hover:text-white transition-colors"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Compass className="w-3.5 h-3.5" />
+        HEADING, TIME &amp; ACCURACY
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {NUMERIC_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">{field.label}</label>
+                <input
+                  type="number"
+                  step={field.step}
+                  value={drafts[field.key]}
+                  onChange={(e) => setDraft(field.key, e.target.value)}
+                  onBlur={() => commitNumber(field.key)}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">HEADING REFERENCE</label>
+              <select
+                value={gps.headingRef || 'T'}
+                onChange={(e) => onChange({ headingRef: e.target.value as 'T' | 'M' })}
+                className={inputClass}
+              >
+                <option value="T">True north</option>
+                <option value="M">Magnetic north</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">BEARING REFERENCE</label>
+              <select
+                value={gps.destBearingRef || 'T'}
+                onChange={(e) => onChange({ destBearingRef: e.target.value as 'T' | 'M' })}
+                className={inputClass}
+              >
+                <option value="T">True north</option>
+                <option value="M">Magnetic north</option>
+              </select>
+            </div>
+            {TEXT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">{field.label}</label>
+                <input
+                  type="text"
+                  value={drafts[field.key]}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setDraft(field.key, e.target.value)}
+                  onBlur={() => commitText(field.key)}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">GPS TIME (UTC)</label>
+            <input
+              type="text"
+              value={drafts.timestamp}
+              placeholder="YYYY-MM-DD HH:MM:SS"
+              onChange={(e) => setDraft('timestamp', e.target.value)}
+              onBlur={commitTimestamp}
+              className={inputClass}
+            />
+          </div>
+
+          <p className="text-[11px] text-zinc-600">Drag the arrow on the map marker to set the heading.</p>
+        </div>
+      )}
+    </div>
+  );
+};
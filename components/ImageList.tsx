@@ -0,0 +1,111 @@
+import React from 'react';
+import { UploadedImage, GpsStatus } from '../types';
+import { getGpsStatus, getDisplayUrl } from '../utils/imageUtils';
+import { Images, MapPinned, CheckSquare, Square, X } from 'lucide-react';
+
+interface ImageListProps {
+  images: UploadedImage[];
+  activeId: string | null;
+  selectedIds: Set<string>;
+  onActivate: (id: string) => void;
+  onToggleSelect: (id: string) => void;
+  onSelectAll: (selected: boolean) => void;
+  onRemove: (id: string) => void;
+  onApplyPinToSelection: () => void;
+}
+
+const STATUS_STYLES: Record<GpsStatus, string> = {
+  tagged: 'bg-green-900/40 text-green-400 border-green-900/60',
+  untagged: 'bg-zinc-800 text-zinc-400 border-zinc-700',
+  edited: 'bg-blue-900/40 text-blue-400 border-blue-900/60',
+};
+
+export const ImageList: React.FC<ImageListProps> = ({
+  images,
+  activeId,
+  selectedIds,
+  onActivate,
+  onToggleSelect,
+  onSelectAll,
+  onRemove,
+  onApplyPinToSelection
+}) => {
+  const allSelected = images.length > 0 && images.every(img => selectedIds.has(img.id));
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Images className="w-4 h-4" />
+          Images ({images.length})
+        </h2>
+        <button
+          onClick={() => onSelectAll(!allSelected)}
+          className="text-xs font-medium text-zinc-500 hover:text-white flex items-center gap-1.5 transition-colors"
+        >
+          {allSelected ? <CheckSquare className="w-3.5 h-3.5" /> : <Square className="w-3.5 h-3.5" />}
+          {allSelected ? 'Clear selection' : 'Select all'}
+        </button>
+      </div>
+
+      <ul className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+        {images.map(img => {
+          const status = getGpsStatus(img);
+          const isActive = img.id === activeId;
+          const isSelected = selectedIds.has(img.id);
+          return (
+            <li
+              key={img.id}
+              onClick={() => onActivate(img.id)}
+              className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-colors ${
+                isActive ? 'border-blue-500 bg-blue-500/10' : 'border-zinc-800 hover:bg-zinc-800/60'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleSelect(img.id)}
+                className="accent-blue-500"
+              />
+              {getDisplayUrl(img) ? (
+                <img src={getDisplayUrl(img) as string} alt="" className="w-12 h-12 object-cover rounded border border-zinc-800 shrink-0" />
+              ) : (
+                <div className="w-12 h-12 rounded border border-zinc-800 shrink-0 bg-zinc-900 flex items-center justify-center text-[10px] font-bold text-zinc-500 uppercase">
+                  {img.format}
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white truncate">{img.file.name}</p>
+                <p className="text-xs text-zinc-500 font-mono truncate">
+                  {img.metadata.dateTimeOriginal || 'No date'}
+                </p>
+              </div>
+              <span className={`text-[10px] uppercase tracking-wider font-bold px-2 py-0.5 rounded border ${STATUS_STYLES[status]}`}>
+                {status}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(img.id); }}
+                className="text-zinc-600 hover:text-white transition-colors"
+                title="Remove from session"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="pt-4 mt-4 border-t border-zinc-800">
+        <button
+          onClick={onApplyPinToSelection}
+          disabled={selectedIds.size === 0}
+          className="w-full flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+        >
+          <MapPinned className="w-4 h-4" />
+          Apply pin to selected ({selectedIds.size})
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,80 @@
 import React, { useRef, useState } from 'react';
 import { Upload } from 'lucide-react';
+import { isSupportedImageFile } from '../utils/formatUtils';
+import { isXmpSidecarFile } from '../utils/xmpUtils';
+import { isLocationFile } from '../utils/locationImportUtils';
 
 interface ImageUploaderProps {
-  onImageSelected: (file: File) => void;
+  onImagesSelected: (files: File[]) => void;
+  compact?: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected }) => {
+// Walk a dropped folder recursively. readEntries() returns results in chunks,
+// so it has to be called until it yields an empty batch.
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve) => {
+      (entry as FileSystemFileEntry).file((file) => resolve([file]), () => resolve([]));
+    });
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    let batch: FileSystemEntry[] = [];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve, () => resolve([])));
+      for (const child of batch) {
+        files.push(...await readEntryFiles(child));
+      }
+    } while (batch.length > 0);
+    return files;
+  }
+  return [];
+};
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesSelected, compact = false }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      validateAndPass(event.target.files[0]);
+    if (event.target.files && event.target.files.length > 0) {
+      validateAndPass(Array.from(event.target.files));
     }
+    // Allow selecting the same files again after "Start Over"
+    event.target.value = '';
   };
 
-  const validateAndPass = (file: File) => {
-    if (file.type === "image/jpeg" || file.type === "image/jpg") {
-      onImageSelected(file);
-    } else {
-      alert("Please upload a valid JPG/JPEG image.");
+  const validateAndPass = async (files: File[]) => {
+    // .xmp sidecars travel with the images and are matched to them by name,
+    // a CSV or GeoJSON location list by name or capture time
+    const isLocation = await Promise.all(files.map(isLocationFile));
+    const supported = files.filter((f, i) => isSupportedImageFile(f) || isXmpSidecarFile(f) || isLocation[i]);
+    const skipped = files.length - supported.length;
+
+    if (supported.length === 0) {
+      alert("Please upload a JPEG, PNG, WebP, HEIC or TIFF image.");
+      return;
+    }
+    if (skipped > 0) {
+      alert(`Skipped ${skipped} file(s) that are not supported images.`);
     }
+    onImagesSelected(supported);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndPass(e.dataTransfer.files[0]);
+
+    // Entries must be collected synchronously, the DataTransfer is cleared after the event
+    const entries = Array.from(e.dataTransfer.items || [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length > 0) {
+      const nested = await Promise.all(entries.map(readEntryFiles));
+      validateAndPass(nested.flat());
+    } else if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      validateAndPass(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -43,9 +90,9 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
 
   return (
     <div
-      className={`group relative border-2 border-dashed rounded-xl p-10 text-center transition-all duration-300 cursor-pointer ${
-        isDragging 
-          ? 'border-blue-500 bg-blue-500/10' 
+      className={`group relative border-2 border-dashed rounded-xl ${compact ? 'p-4' : 'p-10'} text-center transition-all duration-300 cursor-pointer ${
+        isDragging
+          ? 'border-blue-500 bg-blue-500/10'
           : 'border-zinc-700 hover:border-zinc-500 hover:bg-zinc-900'
       }`}
       onDrop={handleDrop}
@@ -57,23 +104,31 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/jpeg, image/jpg"
+        accept="image/jpeg, image/png, image/webp, image/tiff, image/heic, image/heif, .heic, .heif, .dng, .tif, .tiff, .xmp, .csv, .geojson, .json"
+        multiple
         className="hidden"
       />
-      <div className="flex flex-col items-center justify-center gap-5">
-        <div className={`p-4 rounded-full transition-colors ${isDragging ? 'bg-blue-500 text-white' : 'bg-zinc-800 text-zinc-400 group-hover:bg-zinc-700 group-hover:text-white'}`}>
-          <Upload className="w-8 h-8" />
-        </div>
-        <div>
-          <h3 className="text-xl font-bold text-white mb-2">Click or drag image to upload</h3>
-          <p className="text-sm text-zinc-500">Supports JPG/JPEG files only</p>
+      {compact ? (
+        <div className="flex items-center justify-center gap-3 text-sm text-zinc-400 group-hover:text-white">
+          <Upload className="w-4 h-4" />
+          Add more images or drop a folder
         </div>
-        <div className="mt-2">
-           <span className="inline-block px-4 py-2 bg-zinc-800 text-zinc-300 rounded-md text-sm font-medium border border-zinc-700 group-hover:border-zinc-600 transition-colors">
-             Choose File
-           </span>
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-5">
+          <div className={`p-4 rounded-full transition-colors ${isDragging ? 'bg-blue-500 text-white' : 'bg-zinc-800 text-zinc-400 group-hover:bg-zinc-700 group-hover:text-white'}`}>
+            <Upload className="w-8 h-8" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white mb-2">Click or drag images to upload</h3>
+            <p className="text-sm text-zinc-500">JPEG, PNG, WebP, HEIC, TIFF/DNG, .xmp sidecars, CSV/GeoJSON location lists and whole folders</p>
+          </div>
+          <div className="mt-2">
+             <span className="inline-block px-4 py-2 bg-zinc-800 text-zinc-300 rounded-md text-sm font-medium border border-zinc-700 group-hover:border-zinc-600 transition-colors">
+               Choose Files
+             </span>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
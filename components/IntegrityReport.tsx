@@ -0,0 +1,69 @@
+import React from 'react';
+import { IntegrityDecision, IntegrityIssue } from '../types';
+import { getTagName } from '../utils/geoUtils';
+import { ShieldAlert, AlertTriangle, Info, Wrench } from 'lucide-react';
+
+interface IntegrityReportProps {
+  issues: IntegrityIssue[];
+  onDecide: (decision: IntegrityDecision) => void;
+}
+
+// Shown instead of writing when the file's metadata has problems, so nothing
+// in it is replaced or dropped without the user choosing to
+export const IntegrityReport: React.FC<IntegrityReportProps> = ({ issues, onDecide }) => {
+  const repairable = issues.filter(issue => issue.repair);
+
+  return (
+    <div className="bg-amber-900/10 rounded-lg border border-amber-900/40 p-3 space-y-3">
+      <p className="text-[10px] font-semibold text-amber-400 flex items-center gap-1.5">
+        <ShieldAlert className="w-3 h-3" />
+        METADATA PROBLEMS ({issues.length})
+      </p>
+      <ul className="space-y-2">
+        {issues.map((issue, i) => (
+          <li key={i} className="text-xs flex gap-2">
+            {issue.severity === 'error'
+              ? <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-red-400 mt-0.5" />
+              : <Info className="w-3.5 h-3.5 shrink-0 text-amber-400 mt-0.5" />}
+            <span>
+              <span className="text-zinc-300">{issue.message}</span>
+              {issue.ifd && issue.tag !== undefined && (
+                <span className="text-zinc-600 font-mono"> · {issue.ifd}/{getTagName(issue.ifd, issue.tag)}</span>
+              )}
+              {issue.repair && (
+                <span className="text-[11px] text-zinc-500 flex items-center gap-1 mt-0.5">
+                  <Wrench className="w-3 h-3 shrink-0" /> {issue.repair}
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-[11px] text-zinc-500">
+        Preserving writes your edits and leaves everything else in the file exactly as it is.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onDecide('abort')}
+          className="flex-1 py-2 rounded-lg border border-zinc-700 text-zinc-400 hover:bg-zinc-800 transition-colors text-xs"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onDecide('preserve')}
+          className="flex-1 py-2 rounded-lg border border-zinc-700 text-zinc-200 hover:bg-zinc-800 transition-colors text-xs"
+        >
+          Preserve
+        </button>
+        <button
+          onClick={() => onDecide('repair')}
+          disabled={repairable.length === 0}
+          title={repairable.length === 0 ? 'None of these can be repaired automatically' : undefined}
+          className="flex-1 py-2 rounded-lg bg-amber-600 hover:bg-amber-500 text-white font-medium transition-colors text-xs disabled:opacity-40"
+        >
+          Repair {repairable.length > 0 && `(${repairable.length})`}
+        </button>
+      </div>
+    </div>
+  );
+};
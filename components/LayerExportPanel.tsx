@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { UploadedImage, LayerFormat } from '../types';
+import { getEffectiveGps } from '../utils/imageUtils';
+import { hasUsableGps } from '../utils/geoUtils';
+import { LAYER_FORMATS, exportLocationLayer } from '../utils/layerExportUtils';
+import { Layers, Download } from 'lucide-react';
+
+interface LayerExportPanelProps {
+  images: UploadedImage[];
+}
+
+export const LayerExportPanel: React.FC<LayerExportPanelProps> = ({ images }) => {
+  const [format, setFormat] = useState<LayerFormat>('geojson');
+  const [name, setName] = useState('photo-locations');
+  const [thumbnails, setThumbnails] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  const located = images.filter(image => hasUsableGps(getEffectiveGps(image))).length;
+
+  const handleExport = async () => {
+    setResult(null);
+    setBusy(true);
+    try {
+      const count = await exportLocationLayer(images, { format, name: name.trim() || 'photo-locations', thumbnails });
+      setResult(`Exported ${count} locations.` + (count < images.length ? ` ${images.length - count} images without a location were left out.` : ''));
+    } catch (error) {
+      console.error("Error exporting layer:", error);
+      alert("Failed to export the location layer.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Layers className="w-4 h-4" />
+        Map Layer ({located})
+      </h2>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-semibold text-zinc-500 mb-2">FORMAT</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as LayerFormat)}
+              className={inputClass}
+            >
+              {LAYER_FORMATS.map(f => (
+                <option key={f.id} value={f.id}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-zinc-500 mb-2">LAYER NAME</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {format === 'kml' && (
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={thumbnails}
+              onChange={(e) => setThumbnails(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Thumbnails in the placemark balloons
+          </label>
+        )}
+
+        <p className="text-[11px] text-zinc-600">
+          One point per photo with file name, capture time, camera make and model and altitude. Pending edits are used where there are any.
+        </p>
+
+        <button
+          onClick={handleExport}
+          disabled={located === 0 || busy}
+          className="w-full flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          {busy ? 'Exporting...' : `Export ${located} location${located === 1 ? '' : 's'}`}
+        </button>
+
+        {result && (
+          <p className="text-xs text-green-400 text-center">{result}</p>
+        )}
+      </div>
+    </div>
+  );
+};
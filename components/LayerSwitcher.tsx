@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { TileArchive, TileSource, TileSourceKind } from '../types';
+import { openTileArchive, validateTileSource, isTileArchiveFile, TILE_SOURCE_KIND_LABELS } from '../utils/tileSourceUtils';
+import { Layers, Plus, HardDrive, Trash2, Loader2 } from 'lucide-react';
+
+interface LayerSwitcherProps {
+  sources: TileSource[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAddSource: (source: TileSource) => void;
+  onRemoveSource: (id: string) => void;
+  onArchiveOpen: (source: TileSource, archive: TileArchive) => void;
+}
+
+type OnlineKind = Extract<TileSourceKind, 'xyz' | 'wms' | 'wmts'>;
+
+const URL_PLACEHOLDERS: Record<OnlineKind, string> = {
+  xyz: 'https://tiles.example.com/{z}/{x}/{y}.png',
+  wms: 'https://maps.example.com/wms',
+  wmts: 'https://maps.example.com/wmts/layer/default/GoogleMapsCompatible/{TileMatrix}/{TileRow}/{TileCol}.png',
+};
+
+export const LayerSwitcher: React.FC<LayerSwitcherProps> = ({
+  sources,
+  activeId,
+  onSelect,
+  onAddSource,
+  onRemoveSource,
+  onArchiveOpen
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [kind, setKind] = useState<OnlineKind>('xyz');
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [layers, setLayers] = useState('');
+  const [attribution, setAttribution] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const source: TileSource = {
+      id: `custom-${Date.now()}`,
+      name: name.trim(),
+      kind,
+      url: url.trim(),
+      layers: kind === 'wms' ? layers.trim() : undefined,
+      attribution: attribution.trim() || undefined,
+      custom: true
+    };
+    const problem = validateTileSource(source);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onAddSource(source);
+    setName('');
+    setUrl('');
+    setLayers('');
+    setAttribution('');
+    setError(null);
+    setIsAdding(false);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!isTileArchiveFile(file)) {
+      alert("Choose an .mbtiles or .pmtiles file.");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { source, archive } = await openTileArchive(file);
+      onArchiveOpen(source, archive);
+    } catch (err) {
+      console.error("Failed to open tile archive", err);
+      alert(err instanceof Error ? err.message : "Failed to open the tile file.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`bg-black/80 backdrop-blur text-white p-3 rounded-xl border transition-colors shadow-xl ${
+          isOpen ? 'border-blue-500' : 'border-zinc-700 hover:bg-zinc-800'
+        }`}
+        title="Map layers"
+      >
+        <Layers className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-0 right-full mr-3 w-72 max-h-[70vh] overflow-y-auto bg-black/90 backdrop-blur rounded-xl border border-zinc-800 shadow-2xl p-4 space-y-4">
+          <div>
+            <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest mb-2">Base Layer</p>
+            <ul className="space-y-1">
+              {sources.map(source => (
+                <li key={source.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => onSelect(source.id)}
+                    className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-between gap-2 ${
+                      source.id === activeId ? 'bg-blue-600 text-white' : 'text-zinc-300 hover:bg-zinc-800'
+                    }`}
+                  >
+                    <span className="truncate">{source.name}</span>
+                    {source.kind !== 'xyz' && (
+                      <span className="text-[10px] uppercase tracking-wider opacity-70 shrink-0">{TILE_SOURCE_KIND_LABELS[source.kind]}</span>
+                    )}
+                  </button>
+                  {source.custom && (
+                    <button
+                      onClick={() => onRemoveSource(source.id)}
+                      title="Remove layer"
+                      className="p-2 text-zinc-600 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".mbtiles,.pmtiles"
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-xs disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <HardDrive className="w-3.5 h-3.5" />}
+            Open offline MBTiles / PMTiles
+          </button>
+
+          {isAdding ? (
+            <div className="space-y-2 border-t border-zinc-800 pt-4">
+              <div className="flex gap-1">
+                {(['xyz', 'wms', 'wmts'] as OnlineKind[]).map(k => (
+                  <button
+                    key={k}
+                    onClick={() => setKind(k)}
+                    className={`flex-1 text-[10px] font-bold px-2 py-1 rounded transition-colors ${
+                      kind === k ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white'
+                    }`}
+                  >
+                    {TILE_SOURCE_KIND_LABELS[k]}
+                  </button>
+                ))}
+              </div>
+              <input type="text" value={name} placeholder="Name" onChange={(e) => setName(e.target.value)} className={inputClass} />
+              <input type="text" value={url} placeholder={URL_PLACEHOLDERS[kind]} onChange={(e) => setUrl(e.target.value)} spellCheck={false} className={`${inputClass} font-mono`} />
+              {kind === 'wms' && (
+                <input type="text" value={layers} placeholder="Layers, e.g. ortho_2023" onChange={(e) => setLayers(e.target.value)} spellCheck={false} className={`${inputClass} font-mono`} />
+              )}
+              <input type="text" value={attribution} placeholder="Attribution (optional)" onChange={(e) => setAttribution(e.target.value)} className={inputClass} />
+              {error ? (
+                <p className="text-[11px] text-red-400">{error}</p>
+              ) : kind === 'wmts' && (
+                <p className="text-[11px] text-zinc-600">Use the RESTful template of a Web Mercator (GoogleMapsCompatible) matrix set.</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => { setIsAdding(false); setError(null); }}
+                  className="flex-1 py-2 rounded-lg border border-zinc-700 text-zinc-400 hover:bg-zinc-800 transition-colors text-xs"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleAdd}
+                  className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors text-xs"
+                >
+                  Add Layer
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg border border-dashed border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors text-xs"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add XYZ / WMS / WMTS layer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
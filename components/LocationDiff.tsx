@@ -0,0 +1,87 @@
+import React from 'react';
+import { GPSData } from '../types';
+import { distanceMeters, formatDistance } from '../utils/geoUtils';
+import { GitCompare, AlertTriangle } from 'lucide-react';
+
+interface LocationDiffProps {
+  original?: GPSData;
+  pending: GPSData;
+  warnMeters: number;
+  onWarnMetersChange: (meters: number) => void;
+}
+
+interface DiffRow {
+  label: string;
+  before?: number;
+  after?: number;
+  digits: number;
+  unit: string;
+}
+
+const format = (value: number | undefined, digits: number, unit: string) => (
+  value === undefined ? '—' : `${value.toFixed(digits)}${unit}`
+);
+
+// What writing now would change, compared with the location parsed from the file
+export const LocationDiff: React.FC<LocationDiffProps> = ({ original, pending, warnMeters, onWarnMetersChange }) => {
+  const rows: DiffRow[] = [
+    { label: 'Latitude', before: original?.lat, after: pending.lat, digits: 6, unit: '' },
+    { label: 'Longitude', before: original?.lng, after: pending.lng, digits: 6, unit: '' },
+    { label: 'Altitude', before: original?.altitude, after: pending.altitude, digits: 1, unit: ' m' },
+    { label: 'Heading', before: original?.heading, after: pending.heading, digits: 1, unit: '°' },
+  ];
+  const moved = original ? distanceMeters(original, pending) : undefined;
+  const isFarMove = moved !== undefined && moved > warnMeters;
+
+  return (
+    <div className="bg-black/30 rounded-lg border border-zinc-800 p-3">
+      <p className="text-[10px] font-semibold text-zinc-500 mb-2 flex items-center gap-1.5">
+        <GitCompare className="w-3 h-3" />
+        ORIGINAL → PENDING
+      </p>
+      <table className="w-full text-xs font-mono">
+        <tbody>
+          {rows.map(row => {
+            const before = format(row.before, row.digits, row.unit);
+            const after = format(row.after, row.digits, row.unit);
+            const changed = before !== after;
+            return (
+              <tr key={row.label}>
+                <td className="py-0.5 text-zinc-500 font-sans">{row.label}</td>
+                <td className="py-0.5 text-zinc-400 text-right">{before}</td>
+                <td className={`py-0.5 text-right ${changed ? 'text-blue-400' : 'text-zinc-600'}`}>{after}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[11px] text-zinc-500 mt-2">
+        {moved === undefined
+          ? 'The file has no GPS location yet.'
+          : moved < 0.5 ? 'Position unchanged.' : `Pin moved ${formatDistance(moved)} from the original.`}
+      </p>
+      {isFarMove && (
+        <p className="text-[11px] text-red-400 mt-2 flex gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          That is further than {formatDistance(warnMeters)}. Check this is the right photo before saving.
+        </p>
+      )}
+      <label className="flex items-center justify-between gap-2 text-[11px] text-zinc-500 mt-2">
+        Warn when moved more than
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            value={warnMeters}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) onWarnMetersChange(value);
+            }}
+            className="w-20 px-2 py-1 bg-black border border-zinc-800 rounded text-white font-mono text-right focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+          m
+        </span>
+      </label>
+    </div>
+  );
+};
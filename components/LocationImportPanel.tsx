@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { UploadedImage, GPSData, LocationTable, LocationColumnMapping, LocationField, LocationMatchOptions } from '../types';
+import { LOCATION_FIELDS, guessColumnMapping, matchLocationRows, parseLocationFile, readLocationRows } from '../utils/locationImportUtils';
+import { Table, Upload, Check, X, AlertTriangle } from 'lucide-react';
+
+interface LocationImportPanelProps {
+  images: UploadedImage[];
+  table: LocationTable | null;
+  onTableLoaded: (table: LocationTable) => void;
+  onTableClear: () => void;
+  onApplyMatches: (matches: Map<string, GPSData>) => void;
+}
+
+const DEFAULT_OPTIONS: LocationMatchOptions = {
+  toleranceSeconds: 60,
+  utcOffsetMinutes: 300 // Asia/Tashkent, UTC+5
+};
+
+export const LocationImportPanel: React.FC<LocationImportPanelProps> = ({
+  images,
+  table,
+  onTableLoaded,
+  onTableClear,
+  onApplyMatches
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mapping, setMapping] = useState<LocationColumnMapping>({});
+  const [options, setOptions] = useState<LocationMatchOptions>(DEFAULT_OPTIONS);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // A new file gets a fresh guess, the user corrects it from there
+  useEffect(() => {
+    setMapping(table ? guessColumnMapping(table.columns) : {});
+    setSummary(null);
+  }, [table]);
+
+  const rows = useMemo(
+    () => table ? readLocationRows(table, mapping, options.utcOffsetMinutes) : [],
+    [table, mapping, options.utcOffsetMinutes]
+  );
+  const result = useMemo(() => matchLocationRows(rows, images, options), [rows, images, options]);
+  const hasKey = mapping.filename !== undefined || mapping.timestamp !== undefined;
+  const canApply = mapping.lat !== undefined && mapping.lng !== undefined && hasKey && result.matches.length > 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onTableLoaded(parseLocationFile(file.name, await file.text()));
+    } catch (error) {
+      console.error("Failed to parse location file", error);
+      alert(error instanceof Error ? error.message : "Failed to read location file.");
+    }
+  };
+
+  const updateMapping = (field: LocationField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = parseInt(value, 10);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const matches = new Map<string, GPSData>();
+    result.matches.forEach(match => matches.set(match.imageId, match.row.gps!));
+    onApplyMatches(matches);
+    setSummary(`Tagged ${matches.size} of ${images.length} images from ${table!.fileName}.`);
+  };
+
+  const imageName = (id: string) => images.find(img => img.id === id)?.file.name || id;
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Table className="w-4 h-4" />
+        Location List
+      </h2>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".csv,.geojson,.json"
+        className="hidden"
+      />
+
+      {!table ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm"
+        >
+          <Upload className="w-4 h-4" />
+          Load CSV / GeoJSON locations
+        </button>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-3 text-sm">
+            <div className="min-w-0">
+              <p className="text-white truncate">{table.fileName}</p>
+              <p className="text-xs text-zinc-500 font-mono">{table.rows.length} rows · {table.columns.length} columns</p>
+            </div>
+            <button onClick={onTableClear} className="text-zinc-600 hover:text-white transition-colors" title="Remove location list">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {LOCATION_FIELDS.map(field => (
+              <div key={field.id}>
+                <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">
+                  {field.label.toUpperCase()}{field.required && ' *'}
+                </label>
+                <select
+                  value={mapping[field.id] ?? ''}
+                  onChange={(e) => updateMapping(field.id, e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">—</option>
+                  {table.columns.map((column, i) => (
+                    <option key={i} value={i}>{column || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">TIME TOLERANCE (S)</label>
+              <input
+                type="number"
+                min="0"
+                value={options.toleranceSeconds}
+                onChange={(e) => setOptions(prev => ({ ...prev, toleranceSeconds: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                className={inputClass}
+                title="Photos further than this from every row's timestamp stay untagged"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">CAMERA UTC±H</label>
+              <input
+                type="number"
+                step="0.5"
+                value={options.utcOffsetMinutes / 60}
+                onChange={(e) => setOptions(prev => ({ ...prev, utcOffsetMinutes: Math.round((parseFloat(e.target.value) || 0) * 60) }))}
+                className={inputClass}
+                title="Time zone of the camera clock, also used for timestamps in the list without one"
+              />
+            </div>
+          </div>
+
+          {!hasKey ? (
+            <p className="text-xs text-amber-400">Map a file name or timestamp column to match rows to photos.</p>
+          ) : (
+            <div className="space-y-3 max-h-56 overflow-y-auto custom-scrollbar">
+              {result.matches.length > 0 && (
+                <div>
+                  <p className="text-[10px] font-semibold text-zinc-500 mb-1.5">MATCHED ({result.matches.length})</p>
+                  <ul className="space-y-1">
+                    {result.matches.map(match => (
+                      <li key={match.imageId} className="text-xs flex items-center gap-2">
+                        <Check className="w-3 h-3 shrink-0 text-green-400" />
+                        <span className="text-zinc-300 truncate">{imageName(match.imageId)}</span>
+                        <span className="ml-auto shrink-0 text-zinc-500 font-mono">
+                          {match.row.gps!.lat.toFixed(5)}, {match.row.gps!.lng.toFixed(5)}
+                          {match.by === 'timestamp' ? ` · ${match.offsetSeconds! >= 0 ? '+' : ''}${Math.round(match.offsetSeconds!)}s` : ` · row ${match.row.line}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result.unmatchedRows.length > 0 && (
+                <div>
+                  <p className="text-[10px] font-semibold text-zinc-500 mb-1.5">ROWS WITHOUT A PHOTO ({result.unmatchedRows.length})</p>
+                  <ul className="space-y-1">
+                    {result.unmatchedRows.map(row => (
+                      <li key={row.line} className="text-xs flex items-center gap-2">
+                        <AlertTriangle className={`w-3 h-3 shrink-0 ${row.error ? 'text-red-400' : 'text-amber-400'}`} />
+                        <span className="text-zinc-400 font-mono shrink-0">row {row.line}</span>
+                        <span className="text-zinc-500 truncate">{row.error || row.name || 'No photo taken at this time'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result.unmatchedImageIds.length > 0 && (
+                <div>
+                  <p className="text-[10px] font-semibold text-zinc-500 mb-1.5">PHOTOS WITHOUT A ROW ({result.unmatchedImageIds.length})</p>
+                  <ul className="space-y-1">
+                    {result.unmatchedImageIds.map(id => (
+                      <li key={id} className="text-xs flex items-center gap-2">
+                        <X className="w-3 h-3 shrink-0 text-zinc-600" />
+                        <span className="text-zinc-500 truncate">{imageName(id)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleApply}
+            disabled={!canApply}
+            className="w-full flex items-center justify-center gap-2 bg-white hover:bg-zinc-200 text-black font-bold py-2.5 px-3 rounded-lg transition-colors text-sm disabled:opacity-40"
+          >
+            <Check className="w-4 h-4" />
+            Apply {result.matches.length} location{result.matches.length === 1 ? '' : 's'}
+          </button>
+
+          {summary && (
+            <p className="text-xs text-zinc-400 text-center">{summary}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
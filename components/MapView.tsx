@@ -1,13 +1,22 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, WMSTileLayer, Marker, Popup, Circle, CircleMarker, Tooltip, Polyline, Polygon, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { Maximize, Minimize, Crosshair } from 'lucide-react';
+import { Maximize, Minimize, Crosshair, LocateFixed, Check, Undo2, X } from 'lucide-react';
+import { FuzzedLocation, GeofenceArea, GeofenceTool, GPSData, MapLayerSettings, TileArchive, TileSource, TrackPoint } from '../types';
+import { calculateBearing, distanceMeters, formatDistance, toCompassPoint } from '../utils/geoUtils';
+import { openRing, withRing } from '../utils/geofenceUtils';
+import { BUILT_IN_TILE_SOURCES, LOCAL_TILE_SOURCE_ID, getTileTemplate, loadMapLayerSettings, loadMapView, saveMapLayerSettings, saveMapView } from '../utils/tileSourceUtils';
+import { LayerSwitcher } from './LayerSwitcher';
+// Bundled rather than loaded from a CDN so the pin still shows up offline
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 
 // Fix for missing default icon in react-leaflet
 const DefaultIcon = L.icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
   popupAnchor: [1, -34],
@@ -16,15 +25,116 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+export interface PhotoMarker {
+  id: string;
+  lat: number;
+  lng: number;
+  label: string;
+  edited: boolean;
+  active: boolean;
+}
+
 interface MapViewProps {
   lat: number;
   lng: number;
   centerLat: number;
   centerLng: number;
+  photos?: PhotoMarker[];
+  track?: TrackPoint[];
+  heading?: number;
+  original?: GPSData; // Location stored in the active photo, shown while the pin moves away from it
+  originalThumbnailUrl?: string | null;
+  moveWarningMeters?: number;
   onPositionChange: (lat: number, lng: number) => void;
   onRecenterRequest: () => void;
+  onPhotoSelect?: (id: string) => void;
+  onHeadingChange?: (heading: number) => void;
+  onLocate?: () => void; // Moves the pin to the device's location
+  isLocating?: boolean;
+  geofences?: GeofenceArea[];
+  activeGeofenceId?: string | null;
+  geofenceTool?: GeofenceTool | null; // While set, map clicks shape areas instead of moving the pin
+  onGeofenceDrawn?: (corners: number[][]) => void; // [lng, lat] each, at least three
+  onGeofenceChange?: (area: GeofenceArea) => void;
+  onGeofenceToolDone?: () => void;
+  fuzz?: FuzzedLocation | null; // Coarse location written for the active photo, with the circle the real spot is in
 }
 
+// Zoom the map can reach; layers stretch their deepest tiles beyond their own max zoom
+const MAX_MAP_ZOOM = 20;
+
+// Draws tiles read from an offline MBTiles/PMTiles file
+const ArchiveTileLayer = ({ source, archive }: { source: TileSource, archive: TileArchive }) => {
+  const map = useMap();
+  useEffect(() => {
+    const { info } = archive;
+    const ArchiveLayer = L.GridLayer.extend({
+      createTile(coords: L.Coords, done: L.DoneCallback) {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        archive.getTile(coords.z, coords.x, coords.y).then(blob => {
+          // Tiles missing from the archive stay blank
+          if (!blob) return done(undefined, tile);
+          const url = URL.createObjectURL(blob);
+          tile.onload = () => {
+            URL.revokeObjectURL(url);
+            done(undefined, tile);
+          };
+          tile.onerror = () => {
+            URL.revokeObjectURL(url);
+            done(new Error(`Could not decode tile ${coords.z}/${coords.x}/${coords.y}`), tile);
+          };
+          tile.src = url;
+        }).catch(error => done(error, tile));
+        return tile;
+      }
+    }) as new (options: L.GridLayerOptions) => L.GridLayer;
+    const layer = new ArchiveLayer({
+      minNativeZoom: info.minZoom,
+      maxNativeZoom: info.maxZoom,
+      maxZoom: MAX_MAP_ZOOM,
+      bounds: info.bounds ? L.latLngBounds([info.bounds[1], info.bounds[0]], [info.bounds[3], info.bounds[2]]) : undefined,
+      attribution: source.attribution
+    });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [archive, source, map]);
+  return null;
+};
+
+const BaseLayer = ({ source, archive }: { source: TileSource, archive?: TileArchive }) => {
+  if (source.kind === 'mbtiles' || source.kind === 'pmtiles') {
+    return archive ? <ArchiveTileLayer source={source} archive={archive} /> : null;
+  }
+  if (source.kind === 'wms') {
+    return (
+      <WMSTileLayer
+        key={source.id}
+        url={source.url}
+        params={{ layers: source.layers || '', format: 'image/png', transparent: false }}
+        attribution={source.attribution}
+        maxZoom={MAX_MAP_ZOOM}
+      />
+    );
+  }
+  return (
+    <>
+      <TileLayer
+        key={source.id}
+        url={getTileTemplate(source)}
+        attribution={source.attribution}
+        maxNativeZoom={source.maxZoom}
+        maxZoom={MAX_MAP_ZOOM}
+      />
+      {source.labelsUrl && (
+        <TileLayer key={`${source.id}-labels`} url={source.labelsUrl} maxNativeZoom={source.maxZoom} maxZoom={MAX_MAP_ZOOM} />
+      )}
+    </>
+  );
+};
+
 const MapController = ({ centerLat, centerLng }: { centerLat: number, centerLng: number }) => {
   const map = useMap();
   useEffect(() => {
@@ -42,6 +152,17 @@ const MapClickEvent = ({ onPositionChange }: { onPositionChange: (lat: number, l
   return null;
 };
 
+// Remembers the view after every pan and zoom, so the next visit opens there
+const ViewTracker = () => {
+  const map = useMapEvents({
+    moveend() {
+      const center = map.getCenter();
+      saveMapView({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+    },
+  });
+  return null;
+};
+
 const ResizeHandler = ({ isFullscreen }: { isFullscreen: boolean }) => {
   const map = useMap();
   useEffect(() => {
@@ -80,15 +201,355 @@ const DraggableMarker = ({ lat, lng, onPositionChange }: { lat: number, lng: num
   );
 };
 
-export const MapView: React.FC<MapViewProps> = ({ 
+// Screen distance between the pin and the heading arrow, constant across zoom levels
+const HEADING_HANDLE_PX = 70;
+
+const HeadingHandle = ({ lat, lng, heading, onHeadingChange }: { lat: number, lng: number, heading?: number, onHeadingChange: (heading: number) => void }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({
+    zoomend() {
+      setZoom(map.getZoom());
+    },
+  });
+
+  const angle = heading ?? 0;
+  const handlePosition = useMemo(() => {
+    const origin = map.project([lat, lng], zoom);
+    const rad = angle * Math.PI / 180;
+    const offset = L.point(Math.sin(rad) * HEADING_HANDLE_PX, -Math.cos(rad) * HEADING_HANDLE_PX);
+    return map.unproject(origin.add(offset), zoom);
+  }, [map, lat, lng, angle, zoom]);
+
+  const icon = useMemo(() => L.divIcon({
+    className: '',
+    html: `<div style="transform: rotate(${angle}deg); width: 28px; height: 28px; display: flex; align-items: center; justify-content: center; color: ${heading === undefined ? '#a1a1aa' : '#facc15'}; font-size: 22px; text-shadow: 0 0 4px #000; cursor: grab;">&#9650;</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  }), [angle, heading]);
+
+  const eventHandlers = useMemo(() => ({
+    dragend(e: L.LeafletEvent) {
+      const target = (e.target as L.Marker).getLatLng();
+      const bearing = calculateBearing({ lat, lng }, { lat: target.lat, lng: target.lng });
+      onHeadingChange(Math.round(bearing * 10) / 10);
+    },
+  }), [lat, lng, onHeadingChange]);
+
+  return (
+    <>
+      <Polyline
+        positions={[[lat, lng], handlePosition]}
+        pathOptions={{ color: heading === undefined ? '#a1a1aa' : '#facc15', weight: 2, dashArray: heading === undefined ? '4 6' : undefined }}
+        interactive={false}
+      />
+      <Marker draggable={true} position={handlePosition} icon={icon} eventHandlers={eventHandlers}>
+        <Tooltip direction="right" offset={[12, 0]}>
+          {heading === undefined ? 'Drag to set camera heading' : `Heading ${heading.toFixed(1)}°`}
+        </Tooltip>
+      </Marker>
+    </>
+  );
+};
+
+// Below this the pin is considered not moved, matching the location diff
+const MIN_DISPLACEMENT_METERS = 0.5;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const OriginalLocation = ({ original, lat, lng, thumbnailUrl, warnMeters }: { original: GPSData, lat: number, lng: number, thumbnailUrl?: string | null, warnMeters?: number }) => {
+  const icon = useMemo(() => L.divIcon({
+    className: '',
+    html: thumbnailUrl
+      ? `<div style="width: 40px; height: 40px; border-radius: 9999px; border: 2px solid #fff; box-shadow: 0 0 6px #000; overflow: hidden; background: #18181b;"><img src="${escapeAttribute(thumbnailUrl)}" style="width: 100%; height: 100%; object-fit: cover;" /></div>`
+      : '<div style="width: 16px; height: 16px; border-radius: 9999px; border: 2px solid #fff; box-shadow: 0 0 6px #000; background: #71717a;"></div>',
+    iconSize: thumbnailUrl ? [40, 40] : [16, 16],
+    iconAnchor: thumbnailUrl ? [20, 20] : [8, 8],
+  }), [thumbnailUrl]);
+
+  const pending = { lat, lng };
+  const moved = distanceMeters(original, pending);
+  const isWarning = warnMeters !== undefined && moved > warnMeters;
+  const bearing = calculateBearing(original, pending);
+  const lineColor = isWarning ? '#ef4444' : '#e4e4e7';
+
+  return (
+    <>
+      {original.positioningError !== undefined && original.positioningError > 0 && (
+        <Circle
+          center={[original.lat, original.lng]}
+          radius={original.positioningError}
+          pathOptions={{ color: '#a1a1aa', weight: 1, fillColor: '#a1a1aa', fillOpacity: 0.15 }}
+          interactive={false}
+        />
+      )}
+      {moved >= MIN_DISPLACEMENT_METERS && (
+        <Polyline
+          positions={[[original.lat, original.lng], [lat, lng]]}
+          pathOptions={{ color: lineColor, weight: 2, dashArray: '6 6' }}
+          interactive={false}
+        >
+          {/* Leaflet only reads className when the tooltip is created */}
+          <Tooltip key={isWarning ? 'warning' : 'normal'} permanent direction="center" className={isWarning ? 'text-red-600 font-semibold' : undefined}>
+            {formatDistance(moved)} · {Math.round(bearing)}° {toCompassPoint(bearing)}
+          </Tooltip>
+        </Polyline>
+      )}
+      <Marker
+        position={[original.lat, original.lng]}
+        icon={icon}
+        zIndexOffset={-1000}
+        eventHandlers={{
+          click(e) {
+            // Keep the click from reaching the map and moving the pin
+            L.DomEvent.stopPropagation(e);
+          },
+        }}
+      >
+        <Tooltip direction="top" offset={[0, thumbnailUrl ? -20 : -8]}>
+          Original location{original.positioningError !== undefined ? ` (±${original.positioningError.toFixed(0)} m)` : ''}
+        </Tooltip>
+      </Marker>
+    </>
+  );
+};
+
+const FuzzedLocationPreview = ({ fuzz }: { fuzz: FuzzedLocation }) => (
+  <>
+    <Circle
+      center={[fuzz.gps.lat, fuzz.gps.lng]}
+      radius={fuzz.radiusMeters}
+      pathOptions={{ color: '#a78bfa', weight: 2, dashArray: '6 6', fillColor: '#a78bfa', fillOpacity: 0.1 }}
+      interactive={false}
+    />
+    <CircleMarker
+      center={[fuzz.gps.lat, fuzz.gps.lng]}
+      radius={5}
+      pathOptions={{ color: '#fff', weight: 2, fillColor: '#a78bfa', fillOpacity: 1 }}
+      eventHandlers={{
+        click(e) {
+          // Keep the click from reaching the map and moving the pin
+          L.DomEvent.stopPropagation(e);
+        },
+      }}
+    >
+      <Tooltip direction="top" offset={[0, -6]}>
+        Published location{fuzz.place ? ` (${fuzz.place})` : ''}, within {formatDistance(fuzz.radiusMeters)}
+      </Tooltip>
+    </CircleMarker>
+  </>
+);
+
+const PhotoMarkers = ({ photos, onPhotoSelect }: { photos: PhotoMarker[], onPhotoSelect?: (id: string) => void }) => (
+  <>
+    {photos.map(photo => (
+      <CircleMarker
+        key={photo.id}
+        center={[photo.lat, photo.lng]}
+        radius={photo.active ? 9 : 6}
+        pathOptions={{
+          color: '#09090b',
+          weight: 2,
+          fillColor: photo.edited ? '#3b82f6' : '#22c55e',
+          fillOpacity: photo.active ? 1 : 0.8,
+        }}
+        eventHandlers={{
+          click(e) {
+            // Keep the click from reaching the map and moving the pin
+            L.DomEvent.stopPropagation(e);
+            onPhotoSelect?.(photo.id);
+          },
+        }}
+      >
+        <Tooltip direction="top" offset={[0, -6]}>{photo.label}</Tooltip>
+      </CircleMarker>
+    ))}
+  </>
+);
+
+// GeoJSON [lng, lat] rings to Leaflet positions, without the closing corner
+const toPositions = (polygons: number[][][][]) =>
+  polygons.map(polygon => polygon.map(ring => openRing(ring).map(([lng, lat]) => [lat, lng] as [number, number])));
+
+const GeofenceAreas = ({ areas, activeId }: { areas: GeofenceArea[], activeId?: string | null }) => (
+  <>
+    {areas.map(area => (
+      <Polygon
+        key={area.id}
+        positions={toPositions(area.polygons)}
+        pathOptions={area.id === activeId
+          ? { color: '#38bdf8', weight: 2, fillColor: '#38bdf8', fillOpacity: 0.08 }
+          : { color: '#71717a', weight: 1.5, dashArray: '4 6', fill: false }}
+        interactive={false}
+      />
+    ))}
+  </>
+);
+
+// Collects corners while an area is drawn; the pin stays put
+const GeofenceDrawer = ({ corners, onAddCorner }: { corners: [number, number][], onAddCorner: (corner: [number, number]) => void }) => {
+  useMapEvents({
+    click(e) {
+      onAddCorner([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+
+  return (
+    <>
+      {corners.length > 1 && (
+        <Polyline positions={corners} pathOptions={{ color: '#38bdf8', weight: 2 }} interactive={false} />
+      )}
+      {corners.length > 2 && (
+        <Polyline positions={[corners[corners.length - 1], corners[0]]} pathOptions={{ color: '#38bdf8', weight: 1, dashArray: '4 6' }} interactive={false} />
+      )}
+      {corners.map((corner, i) => (
+        <CircleMarker key={i} center={corner} radius={4} pathOptions={{ color: '#fff', weight: 2, fillColor: '#38bdf8', fillOpacity: 1 }} interactive={false} />
+      ))}
+    </>
+  );
+};
+
+const CORNER_ICON = L.divIcon({
+  className: '',
+  html: '<div style="width: 12px; height: 12px; background: #fff; border: 2px solid #0284c7; box-shadow: 0 0 4px #000; cursor: move;"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6],
+});
+
+const MIDPOINT_ICON = L.divIcon({
+  className: '',
+  html: '<div style="width: 10px; height: 10px; border-radius: 9999px; background: rgba(255, 255, 255, 0.6); border: 1px solid #0284c7; cursor: copy;"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5],
+});
+
+// Handles for every corner of the area, and one halfway along each edge that
+// becomes a new corner when dragged. A ring keeps at least three corners.
+const GeofenceEditor = ({ area, onChange }: { area: GeofenceArea, onChange: (area: GeofenceArea) => void }) => (
+  <>
+    {area.polygons.map((polygon, p) => polygon.map((ring, r) => {
+      const corners = openRing(ring);
+      const update = (next: number[][]) => onChange(withRing(area, p, r, next));
+      const dropped = (e: L.LeafletEvent) => {
+        const { lat, lng } = (e.target as L.Marker).getLatLng();
+        return [lng, lat];
+      };
+
+      return corners.map(([lng, lat], i) => {
+        const [nextLng, nextLat] = corners[(i + 1) % corners.length];
+        return (
+          <React.Fragment key={`${p}-${r}-${i}`}>
+            <Marker
+              position={[lat, lng]}
+              icon={CORNER_ICON}
+              draggable={true}
+              eventHandlers={{
+                dragend(e) {
+                  update(corners.map((corner, j) => j === i ? dropped(e) : corner));
+                },
+                contextmenu(e) {
+                  L.DomEvent.stopPropagation(e);
+                  if (corners.length > 3) update(corners.filter((_, j) => j !== i));
+                },
+                click(e) {
+                  L.DomEvent.stopPropagation(e);
+                },
+              }}
+            />
+            <Marker
+              position={[(lat + nextLat) / 2, (lng + nextLng) / 2]}
+              icon={MIDPOINT_ICON}
+              draggable={true}
+              eventHandlers={{
+                dragend(e) {
+                  update([...corners.slice(0, i + 1), dropped(e), ...corners.slice(i + 1)]);
+                },
+                click(e) {
+                  L.DomEvent.stopPropagation(e);
+                },
+              }}
+            />
+          </React.Fragment>
+        );
+      });
+    }))}
+  </>
+);
+
+export const MapView: React.FC<MapViewProps> = ({
   lat, 
   lng, 
   centerLat, 
   centerLng, 
+  photos = [],
+  track = [],
+  heading,
+  original,
+  originalThumbnailUrl,
+  moveWarningMeters,
   onPositionChange,
-  onRecenterRequest
+  onRecenterRequest,
+  onPhotoSelect,
+  onHeadingChange,
+  onLocate,
+  isLocating = false,
+  geofences = [],
+  activeGeofenceId,
+  geofenceTool,
+  onGeofenceDrawn,
+  onGeofenceChange,
+  onGeofenceToolDone,
+  fuzz
 }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [layerSettings, setLayerSettings] = useState<MapLayerSettings>(loadMapLayerSettings);
+  const [localLayer, setLocalLayer] = useState<{ source: TileSource, archive: TileArchive } | null>(null);
+  const [initialZoom] = useState(() => loadMapView()?.zoom ?? 13);
+  const trackLine = useMemo(() => track.map(p => [p.lat, p.lng] as [number, number]), [track]);
+  const [draftCorners, setDraftCorners] = useState<[number, number][]>([]);
+  const editedArea = geofenceTool?.kind === 'edit' ? geofences.find(a => a.id === geofenceTool.areaId) : undefined;
+
+  // A new drawing starts from nothing
+  useEffect(() => {
+    setDraftCorners([]);
+  }, [geofenceTool]);
+
+  const finishDrawing = () => {
+    onGeofenceDrawn?.(draftCorners.map(([lat, lng]) => [lng, lat]));
+    onGeofenceToolDone?.();
+  };
+
+  useEffect(() => {
+    saveMapLayerSettings(layerSettings);
+  }, [layerSettings]);
+
+  const tileSources = useMemo(() => [
+    ...BUILT_IN_TILE_SOURCES,
+    ...layerSettings.customSources,
+    ...(localLayer ? [localLayer.source] : [])
+  ], [layerSettings.customSources, localLayer]);
+  // A saved offline layer is gone after a reload until its file is opened again
+  const activeSource = tileSources.find(s => s.id === layerSettings.activeId) || BUILT_IN_TILE_SOURCES[0];
+
+  const handleLayerSelect = (id: string) => {
+    setLayerSettings(prev => ({ ...prev, activeId: id }));
+  };
+
+  const handleAddLayer = (source: TileSource) => {
+    setLayerSettings(prev => ({ activeId: source.id, customSources: [...prev.customSources, source] }));
+  };
+
+  const handleRemoveLayer = (id: string) => {
+    setLayerSettings(prev => ({
+      activeId: prev.activeId === id ? BUILT_IN_TILE_SOURCES[0].id : prev.activeId,
+      customSources: prev.customSources.filter(s => s.id !== id)
+    }));
+  };
+
+  const handleArchiveOpen = (source: TileSource, archive: TileArchive) => {
+    setLocalLayer({ source, archive });
+    setLayerSettings(prev => ({ ...prev, activeId: LOCAL_TILE_SOURCE_ID }));
+  };
 
   const toggleFullscreen = () => {
     setIsFullscreen(!isFullscreen);
@@ -102,23 +563,34 @@ export const MapView: React.FC<MapViewProps> = ({
     <div className={containerClass}>
       <MapContainer 
         center={[centerLat, centerLng]} 
-        zoom={13} 
+        zoom={initialZoom} 
         style={{ height: "100%", width: "100%", zIndex: 0, background: '#09090b' }}
       >
-        <TileLayer
-          attribution='Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
-          url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-        />
-        <TileLayer
-          attribution=''
-          url="https://stamen-tiles-{s}.a.ssl.fastly.net/toner-labels/{z}/{x}/{y}{r}.png"
-          opacity={0.7}
-        />
+        <BaseLayer source={activeSource} archive={localLayer?.archive} />
         
         <MapController centerLat={centerLat} centerLng={centerLng} />
-        <MapClickEvent onPositionChange={onPositionChange} />
+        {!geofenceTool && <MapClickEvent onPositionChange={onPositionChange} />}
+        <ViewTracker />
         <ResizeHandler isFullscreen={isFullscreen} />
+        {trackLine.length > 1 && (
+          <Polyline positions={trackLine} pathOptions={{ color: '#f59e0b', weight: 3, opacity: 0.85 }} />
+        )}
+        <GeofenceAreas areas={geofences} activeId={activeGeofenceId} />
+        {geofenceTool?.kind === 'draw' && (
+          <GeofenceDrawer corners={draftCorners} onAddCorner={(corner) => setDraftCorners(prev => [...prev, corner])} />
+        )}
+        {editedArea && onGeofenceChange && (
+          <GeofenceEditor area={editedArea} onChange={onGeofenceChange} />
+        )}
+        <PhotoMarkers photos={photos} onPhotoSelect={onPhotoSelect} />
+        {fuzz && <FuzzedLocationPreview fuzz={fuzz} />}
+        {original && (
+          <OriginalLocation original={original} lat={lat} lng={lng} thumbnailUrl={originalThumbnailUrl} warnMeters={moveWarningMeters} />
+        )}
         <DraggableMarker lat={lat} lng={lng} onPositionChange={onPositionChange} />
+        {onHeadingChange && (
+          <HeadingHandle lat={lat} lng={lng} heading={heading} onHeadingChange={onHeadingChange} />
+        )}
       </MapContainer>
 
       {/* Custom Controls Overlay - Dark Theme */}
@@ -137,14 +609,79 @@ export const MapView: React.FC<MapViewProps> = ({
         >
           <Crosshair className="w-5 h-5" />
         </button>
+        {onLocate && (
+          <button
+            onClick={onLocate}
+            disabled={isLocating}
+            className="bg-black/80 backdrop-blur text-white p-3 rounded-xl border border-zinc-700 hover:bg-zinc-800 transition-colors shadow-xl disabled:text-blue-400 disabled:animate-pulse"
+            title="Move the pin to my location"
+          >
+            <LocateFixed className="w-5 h-5" />
+          </button>
+        )}
+        <LayerSwitcher
+          sources={tileSources}
+          activeId={activeSource.id}
+          onSelect={handleLayerSelect}
+          onAddSource={handleAddLayer}
+          onRemoveSource={handleRemoveLayer}
+          onArchiveOpen={handleArchiveOpen}
+        />
       </div>
 
+      {geofenceTool && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/80 backdrop-blur p-2 pl-4 rounded-xl border border-zinc-700 shadow-xl text-xs text-zinc-300 z-[5001]">
+          {geofenceTool.kind === 'draw' ? (
+            <>
+              <span>{draftCorners.length < 3 ? 'Click to place corners' : `${draftCorners.length} corners`}</span>
+              <button
+                onClick={() => setDraftCorners(prev => prev.slice(0, -1))}
+                disabled={draftCorners.length === 0}
+                className="p-1.5 rounded-lg text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-30"
+                title="Remove the last corner"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={finishDrawing}
+                disabled={draftCorners.length < 3}
+                className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors disabled:opacity-40"
+              >
+                <Check className="w-4 h-4" /> Finish
+              </button>
+            </>
+          ) : (
+            <>
+              <span className="truncate max-w-[200px]">Editing {editedArea?.name}</span>
+              <button
+                onClick={onGeofenceToolDone}
+                className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+              >
+                <Check className="w-4 h-4" /> Done
+              </button>
+            </>
+          )}
+          {geofenceTool.kind === 'draw' && (
+            <button
+              onClick={onGeofenceToolDone}
+              className="p-1.5 rounded-lg text-zinc-300 hover:bg-zinc-800 transition-colors"
+              title="Cancel drawing"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Info Overlay */}
       <div className="absolute bottom-8 left-8 bg-black/80 backdrop-blur p-4 rounded-xl shadow-2xl border border-zinc-800 text-xs text-zinc-300 z-[5001] max-w-[240px] pointer-events-none select-none">
-        <p className="font-bold text-white mb-2 uppercase tracking-widest text-[10px]">Satellite Mode</p>
+        <p className="font-bold text-white mb-2 uppercase tracking-widest text-[10px]">{activeSource.name} Mode</p>
         <ul className="list-disc pl-3 space-y-1.5 opacity-80">
           <li>Click map to move pin</li>
           <li>Drag pin to adjust</li>
+          <li>Dots mark loaded photos</li>
+          <li>The round thumbnail is where the photo was</li>
+          <li>Drag the arrow to set heading</li>
           <li>Coordinates update instantly</li>
         </ul>
       </div>
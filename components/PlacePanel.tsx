@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Gazetteer, GazetteerEntry, GPSData, XmpLocation } from '../types';
+import { searchGazetteer, reverseGeocode, parseGazetteerFile, GAZETTEER_KIND_LABELS } from '../utils/gazetteerUtils';
+import { Search, Upload, MapPin, Tag, X } from 'lucide-react';
+
+interface PlacePanelProps {
+  gazetteers: Gazetteer[];
+  currentGps: GPSData;
+  pendingLocation?: XmpLocation;
+  onGazetteerImported: (gazetteer: Gazetteer) => void;
+  onPlaceSelect: (entry: GazetteerEntry) => void;
+  onLocationChange: (location: XmpLocation | undefined) => void;
+}
+
+export const PlacePanel: React.FC<PlacePanelProps> = ({
+  gazetteers,
+  currentGps,
+  pendingLocation,
+  onGazetteerImported,
+  onPlaceSelect,
+  onLocationChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [gazetteerId, setGazetteerId] = useState(gazetteers[0]?.id);
+  const [query, setQuery] = useState('');
+
+  const gazetteer = gazetteers.find(g => g.id === gazetteerId) || gazetteers[0];
+  const results = useMemo(() => gazetteer ? searchGazetteer(gazetteer, query) : [], [gazetteer, query]);
+  const address = useMemo(() => gazetteer ? reverseGeocode(gazetteer, currentGps) : null, [gazetteer, currentGps]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseGazetteerFile(file.name, await file.text());
+      onGazetteerImported(imported);
+      setGazetteerId(imported.id);
+    } catch (error) {
+      console.error("Failed to import gazetteer", error);
+      alert(error instanceof Error ? error.message : "Failed to read gazetteer file.");
+    }
+  };
+
+  const handleSelect = (entry: GazetteerEntry) => {
+    onPlaceSelect(entry);
+    setQuery('');
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Search className="w-4 h-4" />
+        Places
+      </h2>
+
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <select
+            value={gazetteer?.id}
+            onChange={(e) => setGazetteerId(e.target.value)}
+            className={inputClass}
+          >
+            {gazetteers.map(g => (
+              <option key={g.id} value={g.id}>{g.name} ({g.entries.length})</option>
+            ))}
+          </select>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".geojson,.json,.csv"
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import an OSM extract (GeoJSON) or a CSV of places"
+            className="shrink-0 px-3 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="relative">
+          <input
+            type="text"
+            value={query}
+            placeholder="Street, mahalla, landmark or metro station"
+            onChange={(e) => setQuery(e.target.value)}
+            className={inputClass}
+          />
+          {results.length > 0 && (
+            <ul className="absolute z-20 left-0 right-0 mt-1 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl overflow-hidden">
+              {results.map(entry => (
+                <li key={`${entry.kind}-${entry.name}`}>
+                  <button
+                    onClick={() => handleSelect(entry)}
+                    className="w-full text-left px-3 py-2 hover:bg-zinc-800 transition-colors flex items-center justify-between gap-3"
+                  >
+                    <span className="text-sm text-white truncate">{entry.name}</span>
+                    <span className="text-[10px] uppercase tracking-wider text-zinc-500 shrink-0">
+                      {GAZETTEER_KIND_LABELS[entry.kind]}{entry.district ? ` · ${entry.district}` : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-black/30 rounded-lg border border-zinc-800 p-3">
+          <p className="text-[10px] font-semibold text-zinc-500 mb-1 flex items-center gap-1.5">
+            <MapPin className="w-3 h-3" />
+            PIN ADDRESS
+          </p>
+          {address ? (
+            <>
+              <p className="text-sm text-white">{address.address}</p>
+              {address.nearest && address.distanceMeters !== undefined && (
+                <p className="text-[11px] text-zinc-500 mt-0.5">{Math.round(address.distanceMeters)} m from {address.nearest.name}</p>
+              )}
+              <button
+                onClick={() => onLocationChange(address.location)}
+                className="mt-3 w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-xs"
+              >
+                <Tag className="w-3.5 h-3.5" />
+                Write as City / Sublocation
+              </button>
+            </>
+          ) : (
+            <p className="text-xs text-zinc-500">The pin is outside the area this gazetteer covers.</p>
+          )}
+        </div>
+
+        {pendingLocation && (
+          <div className="flex items-start justify-between gap-3 text-xs">
+            <p className="text-blue-400">
+              Will write: {[pendingLocation.sublocation, pendingLocation.city, pendingLocation.country].filter(Boolean).join(', ')}
+            </p>
+            <button
+              onClick={() => onLocationChange(undefined)}
+              title="Don't write place names"
+              className="text-zinc-600 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GPSData, LocationPreset } from '../types';
+import { filterPresets, groupPresets, mergePresets, parsePresetsJson, parseTagList, serializePresets } from '../utils/presetUtils';
+import { saveFile } from '../utils/downloadUtils';
+import { Star, Upload, Download, Plus, Trash2 } from 'lucide-react';
+
+interface PresetsPanelProps {
+  presets: LocationPreset[];
+  currentGps: GPSData;
+  onApply: (preset: LocationPreset) => void;
+  onPresetsChange: (presets: LocationPreset[]) => void;
+}
+
+export const PresetsPanel: React.FC<PresetsPanelProps> = ({
+  presets,
+  currentGps,
+  onApply,
+  onPresetsChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [group, setGroup] = useState('');
+  const [tags, setTags] = useState('');
+  const [includeHeading, setIncludeHeading] = useState(false);
+
+  const groups = useMemo(() => groupPresets(filterPresets(presets, query)), [presets, query]);
+  const groupNames = useMemo(() => [...new Set(presets.map(p => p.group).filter(Boolean))], [presets]);
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    const preset: LocationPreset = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      lat: currentGps.lat,
+      lng: currentGps.lng,
+      altitude: currentGps.altitude,
+      heading: includeHeading ? currentGps.heading : undefined,
+      group: group.trim() || undefined,
+      tags: parseTagList(tags)
+    };
+    onPresetsChange(mergePresets(presets, [preset]));
+    setName('');
+    setTags('');
+    setIncludeHeading(false);
+    setIsAdding(false);
+  };
+
+  const handleRemove = (preset: LocationPreset) => {
+    onPresetsChange(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+    saveFile(new Blob([serializePresets(presets)], { type: 'application/json' }), 'geotagger-presets.json');
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetsJson(await file.text());
+      onPresetsChange(mergePresets(presets, imported));
+    } catch (error) {
+      console.error("Failed to import presets", error);
+      alert(error instanceof Error ? error.message : "Failed to read presets file.");
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+  const iconButtonClass = "p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Star className="w-4 h-4" />
+          Presets
+        </h2>
+        <div className="flex items-center gap-1">
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".json"
+            className="hidden"
+          />
+          <button onClick={() => fileInputRef.current?.click()} title="Import presets (JSON)" className={iconButtonClass}>
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} disabled={presets.length === 0} title="Export presets (JSON)" className={iconButtonClass}>
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {presets.length > 0 ? (
+          <>
+            <input
+              type="text"
+              value={query}
+              placeholder="Filter by name, group or tag"
+              onChange={(e) => setQuery(e.target.value)}
+              className={inputClass}
+            />
+            <div className="max-h-64 overflow-y-auto space-y-3">
+              {groups.map(([groupName, items]) => (
+                <div key={groupName}>
+                  <p className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mb-1">{groupName}</p>
+                  <ul className="space-y-1">
+                    {items.map(preset => (
+                      <li key={preset.id} className="flex items-center gap-1">
+                        <button
+                          onClick={() => onApply(preset)}
+                          title={`Move the pin to ${preset.name}`}
+                          className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-zinc-800 transition-colors"
+                        >
+                          <span className="text-sm text-white block truncate">{preset.name}</span>
+                          <span className="text-[10px] text-zinc-500 font-mono">
+                            {preset.lat.toFixed(5)}, {preset.lng.toFixed(5)}
+                            {preset.altitude !== undefined && ` · ${preset.altitude.toFixed(0)} m`}
+                            {preset.heading !== undefined && ` · ${preset.heading.toFixed(0)}°`}
+                          </span>
+                          {preset.tags && (
+                            <span className="flex flex-wrap gap-1 mt-1">
+                              {preset.tags.map(tag => (
+                                <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">{tag}</span>
+                              ))}
+                            </span>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleRemove(preset)}
+                          title="Delete preset"
+                          className="p-2 text-zinc-600 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {groups.length === 0 && (
+                <p className="text-xs text-zinc-500">No presets match "{query}".</p>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-zinc-500">Save the sites you tag often, then apply them to any photo with one click.</p>
+        )}
+
+        {isAdding ? (
+          <div className="space-y-2 border-t border-zinc-800 pt-4">
+            <input type="text" value={name} placeholder="Name, e.g. Head office" onChange={(e) => setName(e.target.value)} className={inputClass} />
+            <input type="text" value={group} placeholder="Group (optional)" list="preset-groups" onChange={(e) => setGroup(e.target.value)} className={inputClass} />
+            <datalist id="preset-groups">
+              {groupNames.map(g => <option key={g} value={g} />)}
+            </datalist>
+            <input type="text" value={tags} placeholder="Tags, comma separated (optional)" onChange={(e) => setTags(e.target.value)} className={inputClass} />
+            <label className={`flex items-center gap-2 text-xs ${currentGps.heading === undefined ? 'text-zinc-600' : 'text-zinc-400'}`}>
+              <input
+                type="checkbox"
+                checked={includeHeading && currentGps.heading !== undefined}
+                disabled={currentGps.heading === undefined}
+                onChange={(e) => setIncludeHeading(e.target.checked)}
+              />
+              Include heading{currentGps.heading !== undefined && ` (${currentGps.heading.toFixed(0)}°)`}
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsAdding(false)}
+                className="flex-1 py-2 rounded-lg border border-zinc-700 text-zinc-400 hover:bg-zinc-800 transition-colors text-xs"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={!name.trim()}
+                className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors text-xs disabled:opacity-50"
+              >
+                Save Preset
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg border border-dashed border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors text-xs"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Save pin as preset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionSnapshot, PROJECT_FILE_EXTENSION, deleteSession, exportProjectFile, importProjectFile, listProjects } from '../utils/sessionUtils';
+import { FolderOpen, Upload, Download, Save, Trash2 } from 'lucide-react';
+
+interface ProjectsPanelProps {
+  canSave: boolean;
+  onSave: (id: string, name: string) => Promise<void>;
+  onOpen: (project: SessionSnapshot) => Promise<void>;
+}
+
+// Named copies of the session, kept in the browser and shareable as a single file
+export const ProjectsPanel: React.FC<ProjectsPanelProps> = ({ canSave, onSave, onOpen }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [projects, setProjects] = useState<SessionSnapshot[]>([]);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => listProjects()
+    .then(setProjects)
+    .catch(error => console.error("Failed to list projects", error));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Every action reports its own failure and leaves the list up to date
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      alert(error instanceof Error ? `${failure} ${error.message}` : failure);
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Saving under an existing name replaces that project
+    const existing = projects.find(project => project.name === trimmed);
+    run(async () => {
+      await onSave(existing?.id || crypto.randomUUID(), trimmed);
+      setName('');
+    }, "Failed to save the project.");
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    run(async () => onOpen(await importProjectFile(file)), "Failed to import the project.");
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+  const iconButtonClass = "p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <FolderOpen className="w-4 h-4" />
+          Projects
+        </h2>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={PROJECT_FILE_EXTENSION}
+          className="hidden"
+        />
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy} title={`Import a project (${PROJECT_FILE_EXTENSION})`} className={iconButtonClass}>
+          <Upload className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {canSave && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              placeholder="Project name"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className={inputClass}
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || busy}
+              title="Save photos, edits and history under this name"
+              className="shrink-0 flex items-center gap-2 px-3 rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        )}
+
+        {projects.length > 0 ? (
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {projects.map(project => (
+              <li key={project.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => run(() => onOpen(project), "Failed to open the project.")}
+                  disabled={busy}
+                  title="Replace the current session with this project"
+                  className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-40"
+                >
+                  <span className="text-sm text-white block truncate">{project.name}</span>
+                  <span className="text-[10px] text-zinc-500 font-mono">
+                    {project.images.length} photos · {new Date(project.savedAt).toLocaleString()}
+                  </span>
+                </button>
+                <button
+                  onClick={() => run(() => exportProjectFile(project), "Failed to export the project.")}
+                  disabled={busy}
+                  title={`Download as ${PROJECT_FILE_EXTENSION} file`}
+                  className={iconButtonClass}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => run(() => deleteSession(project.id), "Failed to delete the project.")}
+                  disabled={busy}
+                  title="Delete project"
+                  className="p-2 text-zinc-600 hover:text-red-400 transition-colors disabled:opacity-40"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-zinc-600">No saved projects yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
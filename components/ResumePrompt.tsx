@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { SessionSnapshot } from '../utils/sessionUtils';
+import { History } from 'lucide-react';
+
+interface ResumePromptProps {
+  session: SessionSnapshot;
+  onResume: () => Promise<void>;
+  onDiscard: () => void;
+}
+
+// Offered on load when the last session still had photos in it. Nothing is
+// autosaved until the user picks one, so the old session can't be overwritten.
+export const ResumePrompt: React.FC<ResumePromptProps> = ({ session, onResume, onDiscard }) => {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const edited = session.images.filter(image => image.pendingGps || image.pendingLocation || image.pendingTags).length;
+
+  const handleResume = async () => {
+    setIsRestoring(true);
+    try {
+      await onResume();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-blue-900/10 rounded-xl p-5 border border-blue-900/40">
+      <h2 className="text-sm font-bold text-blue-300 uppercase tracking-wider mb-2 flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Resume Last Session
+      </h2>
+      <p className="text-sm text-zinc-400 mb-4">
+        {session.images.length} photo{session.images.length === 1 ? '' : 's'}
+        {edited > 0 && `, ${edited} with unsaved edits`} · {new Date(session.savedAt).toLocaleString()}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onDiscard}
+          disabled={isRestoring}
+          className="flex-1 py-2 rounded-lg border border-zinc-700 text-zinc-400 hover:bg-zinc-800 transition-colors text-sm disabled:opacity-40"
+        >
+          Discard
+        </button>
+        <button
+          onClick={handleResume}
+          disabled={isRestoring}
+          className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors text-sm disabled:opacity-40"
+        >
+          {isRestoring ? 'Restoring...' : 'Resume'}
+        </button>
+      </div>
+    </div>
+  );
+};
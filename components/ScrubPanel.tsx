@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UploadedImage, ScrubCategory, ScrubTarget } from '../types';
+import { planScrub, scrubExifData, verifyScrub } from '../utils/geoUtils';
+import { writeExifToImage, readExifMetadata } from '../utils/imageUtils';
+import { FORMAT_CAPABILITIES } from '../utils/formatUtils';
+import { saveFile } from '../utils/downloadUtils';
+import { ShieldOff, ShieldCheck, AlertTriangle, Download } from 'lucide-react';
+
+interface ScrubPanelProps {
+  image: UploadedImage;
+}
+
+const CATEGORIES: { id: ScrubCategory, label: string, defaultOn: boolean }[] = [
+  { id: 'gps', label: 'GPS location (entire GPS block)', defaultOn: true },
+  { id: 'serials', label: 'Camera, body and lens serial numbers', defaultOn: true },
+  { id: 'owner', label: 'Owner, artist and host computer names', defaultOn: true },
+  { id: 'makerNote', label: 'MakerNote (vendor private data)', defaultOn: true },
+  { id: 'thumbnail', label: 'Embedded thumbnail (may show the original)', defaultOn: true },
+  { id: 'device', label: 'Camera make, model and lens', defaultOn: false },
+];
+
+interface ScrubResult {
+  url: string;
+  removed: number;
+  survivors: ScrubTarget[];
+}
+
+export const ScrubPanel: React.FC<ScrubPanelProps> = ({ image }) => {
+  const [categories, setCategories] = useState<ScrubCategory[]>(
+    CATEGORIES.filter(c => c.defaultOn).map(c => c.id)
+  );
+  const [result, setResult] = useState<ScrubResult | null>(null);
+
+  const targets = useMemo(
+    () => planScrub(image.metadata.rawExifObj, categories),
+    [image, categories]
+  );
+
+  // Results are only valid for the image and options they were built from
+  useEffect(() => {
+    setResult(null);
+  }, [image.id, categories]);
+
+  // The scrubbed copy is held in memory until its URL is let go, when it is
+  // replaced or the panel goes away
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const toggleCategory = (id: ScrubCategory) => {
+    setCategories(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const capability = FORMAT_CAPABILITIES[image.format];
+  const canWrite = capability.write === 'in-place';
+
+  const handleScrub = async () => {
+    try {
+      const blob = await writeExifToImage(image, scrubExifData(image.metadata, targets));
+      // Verify against the bytes that will actually be downloaded
+      const written = readExifMetadata(new Uint8Array(await blob.arrayBuffer()), image.format);
+      const survivors = verifyScrub(written.rawExifObj, targets);
+      setResult({
+        url: URL.createObjectURL(blob),
+        removed: targets.length - survivors.length,
+        survivors
+      });
+    } catch (error) {
+      console.error("Error scrubbing EXIF:", error);
+      alert("Failed to remove EXIF data.");
+    }
+  };
+
+  const handleDownload = () => {
+    if (result) {
+      saveFile(result.url, `scrubbed-${image.file.name}`);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <ShieldOff className="w-4 h-4" />
+        Privacy Scrub
+      </h2>
+
+      <div className="space-y-2 mb-4">
+        {CATEGORIES.map(c => (
+          <label key={c.id} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={categories.includes(c.id)}
+              onChange={() => toggleCategory(c.id)}
+              className="accent-blue-500"
+            />
+            {c.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="bg-black/30 rounded border border-zinc-800 p-3 mb-4 max-h-40 overflow-y-auto custom-scrollbar">
+        {targets.length === 0 ? (
+          <p className="text-xs text-zinc-500">Nothing to remove, none of these tags are present.</p>
+        ) : (
+          <ul className="text-xs font-mono space-y-1">
+            {targets.map(t => (
+              <li key={`${t.ifd}-${t.tag}`} className="flex justify-between gap-3 text-zinc-400">
+                <span className="truncate">{t.name}</span>
+                <span className="text-zinc-600 shrink-0">{t.ifd}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {!canWrite && (
+        <p className="text-xs text-amber-400 mb-4">
+          {capability.label} files cannot be rewritten here, so tags can only be previewed.
+        </p>
+      )}
+
+      {!result ? (
+        <button
+          onClick={handleScrub}
+          disabled={targets.length === 0 || !canWrite}
+          className="w-full flex items-center justify-center gap-2 bg-white hover:bg-zinc-200 text-black font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-40 tracking-tight text-sm"
+        >
+          <ShieldOff className="w-4 h-4" />
+          REMOVE {targets.length} TAGS
+        </button>
+      ) : (
+        <div className="space-y-3">
+          {result.survivors.length === 0 ? (
+            <div className="bg-green-900/30 text-green-400 p-3 rounded-lg text-sm border border-green-900/50 flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4 shrink-0" />
+              Verified: re-reading the output shows all {result.removed} tags are gone.
+            </div>
+          ) : (
+            <div className="bg-red-900/30 text-red-400 p-3 rounded-lg text-sm border border-red-900/50">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {result.survivors.length} tags are still present:
+              </p>
+              <p className="text-xs font-mono mt-1">{result.survivors.map(t => t.name).join(', ')}</p>
+            </div>
+          )}
+          <button
+            onClick={handleDownload}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-colors shadow-lg shadow-blue-900/20 text-sm"
+          >
+            <Download className="w-4 h-4" />
+            DOWNLOAD SCRUBBED COPY
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
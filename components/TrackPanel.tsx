@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { UploadedImage, GPSData, TrackPoint, TrackCorrelationOptions } from '../types';
+import { parseTrackFile, correlateTimestamp } from '../utils/trackUtils';
+import { Route, Upload, Wand2, X } from 'lucide-react';
+
+interface TrackPanelProps {
+  images: UploadedImage[];
+  track: TrackPoint[];
+  trackName: string | null;
+  onTrackLoaded: (points: TrackPoint[], name: string) => void;
+  onTrackClear: () => void;
+  onApplyMatches: (matches: Map<string, GPSData>) => void;
+}
+
+const DEFAULT_OPTIONS: TrackCorrelationOptions = {
+  cameraOffsetSeconds: 0,
+  utcOffsetMinutes: 300, // Asia/Tashkent, UTC+5
+  maxGapSeconds: 120
+};
+
+const formatRange = (track: TrackPoint[]) => {
+  const fmt = (t: number) => new Date(t).toISOString().replace('T', ' ').slice(0, 19);
+  return `${fmt(track[0].time)} → ${fmt(track[track.length - 1].time)} UTC`;
+};
+
+export const TrackPanel: React.FC<TrackPanelProps> = ({
+  images,
+  track,
+  trackName,
+  onTrackLoaded,
+  onTrackClear,
+  onApplyMatches
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [options, setOptions] = useState<TrackCorrelationOptions>(DEFAULT_OPTIONS);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const points = parseTrackFile(file.name, await file.text());
+      if (points.length === 0) {
+        alert("No timestamped points found in this track.");
+        return;
+      }
+      setSummary(null);
+      onTrackLoaded(points, file.name);
+    } catch (error) {
+      console.error("Failed to parse track", error);
+      alert(error instanceof Error ? error.message : "Failed to read track file.");
+    }
+  };
+
+  const updateOption = (key: keyof TrackCorrelationOptions, value: string) => {
+    const parsed = parseFloat(value);
+    setOptions(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : parsed }));
+  };
+
+  const handleCorrelate = () => {
+    const matches = new Map<string, GPSData>();
+    for (const img of images) {
+      const gps = correlateTimestamp(track, img.metadata.dateTimeOriginal, options);
+      if (gps) matches.set(img.id, gps);
+    }
+    onApplyMatches(matches);
+    setSummary(`Tagged ${matches.size} of ${images.length} images, ${images.length - matches.size} left untagged.`);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-black border border-zinc-800 rounded-lg text-white font-mono text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition-all outline-none";
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Route className="w-4 h-4" />
+        GPS Track
+      </h2>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".gpx,.kml,.nmea,.txt,.log"
+        className="hidden"
+      />
+
+      {track.length === 0 ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg border border-zinc-700 text-zinc-300 font-medium hover:bg-zinc-800 transition-colors text-sm"
+        >
+          <Upload className="w-4 h-4" />
+          Load GPX / KML / NMEA track
+        </button>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-3 text-sm">
+            <div className="min-w-0">
+              <p className="text-white truncate">{trackName}</p>
+              <p className="text-xs text-zinc-500 font-mono">{track.length} points · {formatRange(track)}</p>
+            </div>
+            <button onClick={onTrackClear} className="text-zinc-600 hover:text-white transition-colors" title="Remove track">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">CLOCK FIX (S)</label>
+              <input
+                type="number"
+                value={options.cameraOffsetSeconds}
+                onChange={(e) => updateOption('cameraOffsetSeconds', e.target.value)}
+                className={inputClass}
+                title="Seconds added to the camera time to get the true time"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">CAMERA UTC±H</label>
+              <input
+                type="number"
+                step="0.5"
+                value={options.utcOffsetMinutes / 60}
+                onChange={(e) => setOptions(prev => ({ ...prev, utcOffsetMinutes: Math.round((parseFloat(e.target.value) || 0) * 60) }))}
+                className={inputClass}
+                title="Time zone the camera clock was set to"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-semibold text-zinc-500 mb-1.5">MAX GAP (S)</label>
+              <input
+                type="number"
+                min="0"
+                value={options.maxGapSeconds}
+                onChange={(e) => updateOption('maxGapSeconds', e.target.value)}
+                className={inputClass}
+                title="Photos further than this from any track point stay untagged"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleCorrelate}
+            disabled={images.length === 0}
+            className="w-full flex items-center justify-center gap-2 bg-white hover:bg-zinc-200 text-black font-bold py-2.5 px-3 rounded-lg transition-colors text-sm disabled:opacity-40"
+          >
+            <Wand2 className="w-4 h-4" />
+            Geotag images from track
+          </button>
+
+          {summary && (
+            <p className="text-xs text-zinc-400 text-center">{summary}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
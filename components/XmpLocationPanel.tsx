@@ -0,0 +1,83 @@
+import React from 'react';
+import { UploadedImage, GPSData, XmpSource } from '../types';
+import { findXmpConflicts, getXmpLocation, XMP_CONFLICT_METERS } from '../utils/xmpUtils';
+import { FileCode, AlertTriangle, Check } from 'lucide-react';
+
+interface XmpLocationPanelProps {
+  image: UploadedImage;
+  onUseGps: (gps: GPSData) => void;
+}
+
+const SOURCE_LABELS: Record<XmpSource | 'exif', string> = {
+  exif: 'EXIF',
+  embedded: 'Embedded XMP',
+  sidecar: 'XMP sidecar',
+};
+
+const formatGps = (gps?: GPSData) => gps ? `${gps.lat.toFixed(6)}, ${gps.lng.toFixed(6)}` : '—';
+
+export const XmpLocationPanel: React.FC<XmpLocationPanelProps> = ({ image, onUseGps }) => {
+  const location = getXmpLocation(image);
+  if (!location) return null;
+
+  const conflicts = findXmpConflicts(image);
+  const rows: { source: XmpSource | 'exif', gps?: GPSData }[] = [
+    { source: 'exif', gps: image.metadata.gps },
+    ...(image.metadata.xmp ? [{ source: 'embedded' as const, gps: image.metadata.xmp.gps }] : []),
+    ...(image.sidecarXmp ? [{ source: 'sidecar' as const, gps: image.sidecarXmp.gps }] : []),
+  ];
+  const place = [location.sublocation, location.city, location.state, location.country].filter(Boolean).join(', ');
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-5 border border-zinc-800">
+      <h2 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <FileCode className="w-4 h-4" />
+        XMP Location
+      </h2>
+
+      {place && (
+        <p className="text-sm text-white mb-4">
+          {place}
+          {location.countryCode && <span className="text-zinc-500 font-mono ml-2">{location.countryCode}</span>}
+        </p>
+      )}
+
+      <ul className="space-y-2 text-xs">
+        {rows.map(row => {
+          const conflict = conflicts.find(c => c.source === row.source);
+          return (
+            <li key={row.source} className="flex items-center gap-3">
+              <span className="w-28 shrink-0 text-zinc-500">{SOURCE_LABELS[row.source]}</span>
+              <span className={`font-mono flex-1 truncate ${conflict ? 'text-amber-400' : 'text-zinc-300'}`}>
+                {formatGps(row.gps)}
+              </span>
+              {row.source !== 'exif' && row.gps && (
+                <button
+                  onClick={() => onUseGps(row.gps as GPSData)}
+                  className="text-zinc-400 hover:text-white border border-zinc-700 hover:bg-zinc-800 rounded px-2 py-0.5 transition-colors"
+                >
+                  Use
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {conflicts.length > 0 ? (
+        <p className="text-xs text-amber-400 mt-4 flex gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {conflicts.map(c => c.distanceMeters === undefined
+            ? `${SOURCE_LABELS[c.source]} has a location but the EXIF has none.`
+            : `${SOURCE_LABELS[c.source]} is ${Math.round(c.distanceMeters)} m from the EXIF location.`
+          ).join(' ')}
+        </p>
+      ) : rows.some(r => r.source !== 'exif' && r.gps) && (
+        <p className="text-xs text-green-400 mt-4 flex gap-2">
+          <Check className="w-4 h-4 shrink-0" />
+          XMP and EXIF agree to within {XMP_CONFLICT_METERS} m.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -2,18 +2,447 @@ export interface GPSData {
   lat: number;
   lng: number;
   altitude?: number;
+  heading?: number; // GPSImgDirection, degrees clockwise from north
+  headingRef?: 'T' | 'M'; // True or magnetic north
+  speed?: number; // km/h
+  timestamp?: string; // UTC instant (ISO 8601), written as GPSDateStamp + GPSTimeStamp
+  mapDatum?: string; // e.g. "WGS-84"
+  positioningError?: number; // GPSHPositioningError, meters
+  processingMethod?: string; // e.g. "GPS", "NETWORK", "MANUAL"
+  destBearing?: number; // GPSDestBearing, degrees clockwise from north
+  destBearingRef?: 'T' | 'M'; // Its own reference, independent of headingRef
 }
 
 export interface ExifMetadata {
   make?: string;
   model?: string;
   dateTimeOriginal?: string;
+  offsetTimeOriginal?: string; // UTC offset of dateTimeOriginal, e.g. "+05:00" (EXIF 2.31)
   gps?: GPSData;
-  rawExifObj?: any; // Keeps the piexifjs object structure
+  xmp?: XmpLocation; // From an XMP packet embedded in the file
+  rawExifObj?: ExifObject; // Keeps the piexifjs object structure
+  exifError?: string; // Set when the file has EXIF that piexif could not read
+}
+
+// Location as Lightroom / darktable keep it in XMP
+export interface XmpLocation {
+  gps?: GPSData;
+  city?: string; // photoshop:City
+  state?: string; // photoshop:State
+  country?: string; // photoshop:Country
+  countryCode?: string; // Iptc4xmpCore:CountryCode
+  sublocation?: string; // Iptc4xmpCore:Location
+}
+
+export type XmpSource = 'embedded' | 'sidecar';
+
+// An XMP location that disagrees with the EXIF GPS, or exists where EXIF has none
+export interface XmpConflict {
+  source: XmpSource;
+  gps: GPSData;
+  distanceMeters?: number; // Undefined when the EXIF has no GPS at all
+}
+
+export type GazetteerKind = 'city' | 'district' | 'mahalla' | 'street' | 'landmark' | 'metro';
+
+export interface GazetteerEntry {
+  name: string;
+  altNames?: string[]; // Other scripts and spellings, e.g. Cyrillic or Russian names
+  kind: GazetteerKind;
+  lat: number;
+  lng: number;
+  district?: string;
+}
+
+// A searchable place list for one region, bundled or imported from an OSM extract
+export interface Gazetteer {
+  id: string;
+  name: string;
+  city: string;
+  state?: string;
+  country: string;
+  countryCode: string;
+  entries: GazetteerEntry[];
+}
+
+export interface ReverseGeocodeResult {
+  address: string; // Human readable, most specific part first
+  location: XmpLocation; // Names without gps, ready to write as IPTC Core / photoshop XMP
+  nearest?: GazetteerEntry;
+  distanceMeters?: number;
+}
+
+// One IANA zone's area, as GeoJSON Polygon or MultiPolygon coordinates
+export interface TimeZoneArea {
+  tzid: string; // e.g. "Asia/Tashkent"
+  polygons: number[][][][]; // [polygon][ring][vertex][lng, lat], first ring is the outline
+}
+
+// Zone boundaries for looking up a pin's time zone, bundled or imported
+export interface TimeZoneDataset {
+  id: string;
+  name: string;
+  zones: TimeZoneArea[];
+}
+
+// offset = OffsetTimeOriginal, gps = camera clock compared with GPS time,
+// location = zone at the pin, default = the fallback zone
+export type CaptureTimeSource = 'offset' | 'gps' | 'location' | 'default';
+
+// When a photo was taken, with the camera's local time tied to a real instant
+export interface CaptureTime {
+  local: string; // Camera clock, "YYYY:MM:DD HH:MM:SS"
+  instant: number; // Epoch milliseconds
+  offsetMinutes: number; // Of the camera clock, e.g. 300 for UTC+5
+  source: CaptureTimeSource;
+  timeZone?: string; // Set when the offset came from a zone
+  gpsTime?: number; // The file's own GPS time, epoch milliseconds
+}
+
+export interface CaptureTimeOptions {
+  datasets: TimeZoneDataset[]; // Searched last to first, so imported boundaries win
+  defaultTimeZone: string; // IANA zone for photos with no offset, GPS time or located zone
+}
+
+// Tag and GPS changes worked out for one image by the capture time tools
+export interface CaptureTimeEdit {
+  imageId: string;
+  tags: ExifTagEdits;
+  gps?: GPSData;
+}
+
+// A digital elevation model tile: heights in meters on a regular lat/lng grid
+export interface ElevationTile {
+  id: string;
+  name: string; // File name it was loaded from
+  west: number; // Longitude of the first column of samples
+  north: number; // Latitude of the first row of samples
+  cellWidth: number; // Degrees between sample columns
+  cellHeight: number; // Degrees between sample rows
+  width: number;
+  height: number;
+  heights: Int16Array | Float32Array; // Row-major, north to south
+  noData?: number; // Marks voids, e.g. -32768 in SRTM
+}
+
+export interface ElevationSettings {
+  autoFill: boolean; // Set the pin's altitude from the DEM whenever it moves
+  aboveGroundMeters: number; // Added to the ground height, e.g. drone or floor height
+}
+
+// A project boundary photos are expected to be located in, imported or drawn on the map
+export interface GeofenceArea {
+  id: string;
+  name: string;
+  polygons: number[][][][]; // [polygon][ring][vertex][lng, lat], first ring is the outline
+}
+
+// warn = flag photos outside the active area, block = refuse to write them
+export type GeofenceMode = 'warn' | 'block';
+
+export interface GeofenceSettings {
+  activeId: string | null;
+  mode: GeofenceMode;
+}
+
+// Where a pin stands against the active area
+export interface GeofenceStatus {
+  area: GeofenceArea;
+  inside: boolean;
+  distanceMeters: number; // To the nearest edge, 0 inside
+  blocked: boolean; // Outside while the mode is block
+}
+
+// What map clicks do while an area is being drawn or reshaped, instead of moving the pin
+export type GeofenceTool = { kind: 'draw' } | { kind: 'edit'; areaId: string };
+
+// snap = centre of a grid cell, random = somewhere within the precision,
+// centroid = centre of the nearest city or district in the gazetteers
+export type FuzzMethod = 'snap' | 'random' | 'centroid';
+
+export interface FuzzSettings {
+  enabled: boolean; // Fuzz every location written while on
+  method: FuzzMethod;
+  precisionMeters: number; // Grid size or offset radius; centroid falls back to the grid with it
+}
+
+// The coarse location written in place of the real one
+export interface FuzzedLocation {
+  gps: GPSData; // Only lat/lng, plus the precision as positioning error where it gives nothing away
+  radiusMeters: number; // The real location is within this distance of gps
+  dmsResolutionSeconds: number; // Seconds are written rounded to this
+  place?: string; // Name of the centre used by the centroid method
+}
+
+// Fuzzes one photo's location; the seed keeps a photo's random offset the same
+// on every write, so several copies can't be averaged back to the real spot
+export type LocationFuzzer = (seed: string, gps: GPSData) => FuzzedLocation;
+
+// How GPS is written by applyExifEdits
+export interface GpsWriteOptions {
+  dmsResolutionSeconds?: number; // Default 0.0001"
+  replaceGpsIfd?: boolean; // Drop every GPS tag the file had, e.g. altitude and heading, instead of keeping those not rewritten
+}
+
+// Extra XMP written alongside the EXIF of in-place formats
+export type XmpWriteMode = 'none' | 'sidecar' | 'embedded';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'tiff' | 'heic';
+
+// dd = decimal degrees, ddm = degrees and decimal minutes
+export type CoordinateFormat = 'dd' | 'dms' | 'ddm' | 'utm' | 'mgrs';
+
+export interface FormatCapability {
+  label: string;
+  read: boolean;
+  write: 'in-place' | 'sidecar'; // sidecar = edits go to an .xmp file next to the image
+  preview: boolean; // Whether browsers can display the file itself
+  note: string;
 }
 
 export interface UploadedImage {
+  id: string;
   file: File;
-  previewUrl: string; // Base64 for preview and manipulation
+  format: ImageFormat;
+  previewUrl: string; // Object URL of the file, revoke it when the image is removed
   metadata: ExifMetadata;
+  sidecarXmp?: XmpLocation; // From an .xmp file dropped next to the image
+  sidecarXmpPacket?: string; // That file as it was, rewritten sidecars are merged into it
+  pendingLocation?: XmpLocation; // Place names to write, e.g. from reverse geocoding
+  pendingGps?: GPSData; // Location applied in this session, not yet written to the file
+  pendingTags?: ExifTagEdits; // Non-GPS tag edits, written together with the location
+  altitudeLocked?: boolean; // Typed in by hand, so elevation lookups leave it alone
+}
+
+// tagged = has GPS in its EXIF, untagged = none, edited = has a pending location
+export type GpsStatus = 'tagged' | 'untagged' | 'edited';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  altitude?: number;
+  time: number; // Epoch milliseconds, UTC
+}
+
+export interface TrackCorrelationOptions {
+  cameraOffsetSeconds: number; // Added to the camera clock to get true time
+  utcOffsetMinutes: number; // Zone the camera clock was set to, e.g. 300 for Tashkent
+  maxGapSeconds: number; // Photos further than this from any track point stay untagged
+}
+
+// GeoJSON as read from imported files. Coordinates are [lng, lat, alt?] and are
+// not checked by the parser, callers validate what they keep.
+export type GeoJsonPosition = number[];
+
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: GeoJsonPosition }
+  | { type: 'MultiPoint' | 'LineString'; coordinates: GeoJsonPosition[] }
+  | { type: 'MultiLineString' | 'Polygon'; coordinates: GeoJsonPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJsonPosition[][][] };
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+export type GeoJson = { type: 'FeatureCollection'; features: GeoJsonFeature[] } | GeoJsonFeature | GeoJsonGeometry;
+
+// Per-file locations from a client's spreadsheet (CSV) or GeoJSON FeatureCollection
+export type LocationField = 'filename' | 'lat' | 'lng' | 'alt' | 'heading' | 'timestamp';
+
+export type LocationColumnMapping = Partial<Record<LocationField, number>>; // Column index per field
+
+export interface LocationTable {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export interface LocationRow {
+  line: number; // 1-based, as a spreadsheet shows it (or the feature number for GeoJSON)
+  name?: string;
+  gps?: GPSData;
+  time?: number; // Epoch milliseconds, UTC
+  error?: string; // Why the row can't be used
+}
+
+export interface LocationMatchOptions {
+  toleranceSeconds: number; // Timestamp matches further apart than this are rejected
+  utcOffsetMinutes: number; // Zone of the camera clock, and of row timestamps without one
+}
+
+export interface LocationMatch {
+  imageId: string;
+  row: LocationRow;
+  by: 'name' | 'timestamp';
+  offsetSeconds?: number; // Row time minus photo time, for timestamp matches
+}
+
+export interface LocationMatchResult {
+  matches: LocationMatch[];
+  unmatchedRows: LocationRow[];
+  unmatchedImageIds: string[];
+}
+
+// The parts of a Geolocation API fix that are used, so a simulated receiver can supply plain objects
+export interface DeviceFix {
+  coords: {
+    latitude: number;
+    longitude: number;
+    accuracy: number; // Meters, 95% confidence radius
+    altitude: number | null;
+    altitudeAccuracy: number | null;
+    heading: number | null; // Direction of travel, only while moving
+    speed: number | null; // m/s
+  };
+  timestamp: number; // Epoch milliseconds
+}
+
+export interface DeviceFixError {
+  code: number; // 1 permission denied, 2 position unavailable, 3 timeout
+  message: string;
+}
+
+// navigator.geolocation, or a stand-in with the same shape
+export interface GeolocationProvider {
+  getCurrentPosition(success: (fix: DeviceFix) => void, error?: (error: DeviceFixError) => void, options?: PositionOptions): void;
+  watchPosition(success: (fix: DeviceFix) => void, error?: (error: DeviceFixError) => void, options?: PositionOptions): number;
+  clearWatch(id: number): void;
+}
+
+// Photo locations exported as a map layer for GIS tools
+export type LayerFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export interface LayerFeature {
+  fileName: string;
+  gps: GPSData;
+  dateTimeOriginal?: string; // Camera clock, as EXIF stores it
+  make?: string;
+  model?: string;
+  thumbnail?: string; // JPEG data URL for KML balloons
+}
+
+export interface ExportManifestEntry {
+  originalName: string;
+  outputName: string;
+  oldGps?: GPSData;
+  newGps?: GPSData;
+  dateTimeOriginal?: string;
+  changed: boolean;
+  issues?: string[]; // Integrity problems found before writing
+  integrity?: IntegrityDecision; // What was done about them; 'abort' means the image was left out
+}
+
+// Problems found in a file's metadata before it is rewritten.
+// malformed-ifd / parse-failed are structural, the rest are about individual values.
+export type IntegrityIssueKind = 'parse-failed' | 'malformed-ifd' | 'bad-rational' | 'coordinate-range' | 'null-island' | 'ref-mismatch';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  ifd?: ExifIfdName;
+  tag?: number;
+  repair?: string; // What repairing changes, undefined when it can't be repaired
+}
+
+// repair = fix what can be fixed, preserve = write edits around the problems, abort = don't write
+export type IntegrityDecision = 'repair' | 'preserve' | 'abort';
+
+export type ExifIfdName = '0th' | 'Exif' | 'GPS' | 'Interop' | '1st';
+
+export type ScrubCategory = 'gps' | 'serials' | 'owner' | 'makerNote' | 'thumbnail' | 'device';
+
+export interface ScrubTarget {
+  ifd: ExifIfdName | 'thumbnail'; // 'thumbnail' is the embedded JPEG itself, not a tag
+  tag: number;
+  name: string;
+  category: ScrubCategory;
+}
+
+export type ExifValue = string | number | number[] | number[][];
+
+// One IFD of a piexifjs EXIF object, values by tag number
+export type ExifIfd = Record<number, ExifValue>;
+
+// The piexifjs EXIF object: IFDs by name, plus the thumbnail JPEG as a binary string
+export type ExifObject = Partial<Record<ExifIfdName, ExifIfd>> & { thumbnail?: string | null };
+
+export type PatchableIfdName = Extract<ExifIfdName, '0th' | 'Exif' | 'GPS'>;
+
+// One tag to change in a file's existing EXIF block
+export interface ExifPatchEntry {
+  ifd: PatchableIfdName;
+  tag: number;
+  type: string; // TIFF field type as named by piexif, e.g. "Rational"
+  value: ExifValue | null; // null removes the tag
+}
+
+export interface ExifTagEntry {
+  ifd: ExifIfdName;
+  tag: number;
+  name: string;
+  type: string; // TIFF field type as named by piexif, e.g. "Ascii", "Rational"
+  value: ExifValue;
+  display: string; // Human readable rendering of value
+}
+
+export type WritableTagName =
+  | 'DateTimeOriginal' | 'DateTimeDigitized' | 'DateTime'
+  | 'OffsetTimeOriginal' | 'OffsetTimeDigitized' | 'OffsetTime'
+  | 'Artist' | 'Copyright' | 'ImageDescription' | 'Orientation' | 'UserComment';
+
+export type ExifTagEdits = Partial<Record<WritableTagName, string | number>>;
+
+export type TileSourceKind = 'xyz' | 'wms' | 'wmts' | 'mbtiles' | 'pmtiles';
+
+export interface TileSource {
+  id: string;
+  name: string;
+  kind: TileSourceKind;
+  url: string; // Tile template for XYZ/WMTS, service endpoint for WMS, file name for local archives
+  layers?: string; // WMS LAYERS parameter
+  attribution?: string;
+  maxZoom?: number;
+  labelsUrl?: string; // XYZ labels drawn over the base layer, for hybrid views
+  custom?: boolean; // Added by the user, can be edited and removed
+}
+
+export interface TileArchiveInfo {
+  format: 'png' | 'jpg' | 'webp';
+  minZoom: number;
+  maxZoom: number;
+  bounds?: [number, number, number, number]; // west, south, east, north
+  attribution?: string;
+}
+
+// An offline tile file opened from disk; tiles are read lazily as the map asks
+export interface TileArchive {
+  info: TileArchiveInfo;
+  getTile: (z: number, x: number, y: number) => Promise<Blob | null>;
+}
+
+export interface MapLayerSettings {
+  activeId: string;
+  customSources: TileSource[];
+}
+
+// Where the map was left, restored on the next visit
+export interface MapViewState {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// A named place the team tags photos with again and again
+export interface LocationPreset {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  altitude?: number;
+  heading?: number; // Applied to the pin only when set
+  group?: string; // e.g. "Offices", "Construction sites"
+  tags?: string[];
 }
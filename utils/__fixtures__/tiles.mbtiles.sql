@@ -0,0 +1,29 @@
+-- Builds tiles.mbtiles for mbtilesUtils.test.ts: sqlite3 tiles.mbtiles < tiles.mbtiles.sql
+-- Small pages give the table and the tile index several levels of interior pages.
+PRAGMA page_size = 512;
+
+CREATE TABLE metadata (name TEXT, value TEXT);
+CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB);
+CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row);
+
+INSERT INTO metadata VALUES
+  ('name', 'Fixture'),
+  ('format', 'png'),
+  ('minzoom', '0'),
+  ('maxzoom', '4'),
+  ('bounds', '55.9,37.1,73.2,45.6'),
+  ('attribution', 'Test tiles');
+
+-- Every tile of zooms 0-4, rows counted from the south as MBTiles does. The
+-- data is the tile's z/x/y as a map addresses it, rows counted from the north.
+WITH RECURSIVE
+  zooms(z) AS (SELECT 0 UNION ALL SELECT z + 1 FROM zooms WHERE z < 4),
+  steps(n) AS (SELECT 0 UNION ALL SELECT n + 1 FROM steps WHERE n < 15)
+INSERT INTO tiles
+SELECT z, x.n, y.n, CAST(z || '/' || x.n || '/' || ((1 << z) - 1 - y.n) AS BLOB)
+FROM zooms, steps AS x, steps AS y
+WHERE x.n < (1 << z) AND y.n < (1 << z);
+
+-- One tile larger than a page, so its data continues on overflow pages
+UPDATE tiles SET tile_data = CAST('4/3/5' || replace(hex(zeroblob(1500)), '0', 'x') AS BLOB)
+WHERE zoom_level = 4 AND tile_column = 3 AND tile_row = 10;
@@ -0,0 +1,33 @@
+import { TimeZoneDataset } from '../types';
+
+// Hand-drawn outlines, good to a few tens of kilometers. Enough to tell Tashkent
+// time (UTC+5) from Bishkek time (UTC+6) away from the border; import the
+// timezone-boundary-builder release for exact borders and other regions.
+// Tajikistan shares UTC+5 with Uzbekistan, so the Sughd corridor is left inside.
+export const CENTRAL_ASIA_TIME_ZONES: TimeZoneDataset = {
+  id: 'central-asia',
+  name: 'Central Asia (built-in)',
+  zones: [
+    {
+      tzid: 'Asia/Tashkent',
+      polygons: [[[
+        [56.0, 45.0], [58.6, 45.6], [61.0, 44.4], [62.0, 43.5], [64.9, 43.7], [65.8, 42.9],
+        [66.1, 42.0], [68.0, 41.2], [68.6, 40.6], [69.1, 41.45], [69.6, 41.7], [70.2, 42.1],
+        [70.9, 42.2], [70.7, 41.5], [71.2, 41.2], [71.7, 41.2], [72.2, 41.1], [72.6, 40.9],
+        [72.6, 40.6], [72.3, 40.4], [71.5, 40.15], [70.6, 40.2], [69.3, 40.2], [68.6, 40.1],
+        [68.0, 39.5], [67.4, 39.2], [67.8, 38.5], [68.3, 38.2], [67.8, 37.1], [66.5, 37.3],
+        [65.6, 38.2], [64.2, 38.9], [62.5, 39.9], [61.0, 41.2], [60.3, 41.3], [60.1, 42.0],
+        [58.5, 42.6], [57.0, 41.3], [56.0, 41.3], [56.0, 45.0]
+      ]]]
+    },
+    {
+      tzid: 'Asia/Bishkek',
+      polygons: [[[
+        [70.9, 42.2], [71.0, 42.3], [74.2, 43.2], [75.5, 42.9], [79.2, 42.8], [80.2, 42.1],
+        [78.0, 41.0], [76.0, 40.4], [75.0, 39.9], [73.6, 39.4], [71.5, 39.5], [69.3, 39.6],
+        [69.6, 40.1], [70.6, 40.2], [71.5, 40.15], [72.3, 40.4], [72.6, 40.6], [72.6, 40.9],
+        [72.2, 41.1], [71.7, 41.2], [71.2, 41.2], [70.7, 41.5], [70.9, 42.2]
+      ]]]
+    }
+  ]
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCoordinate,
+  latLngToMgrs,
+  latLngToUtm,
+  parseCoordinateInput,
+  utmToLatLng
+} from './coordinateUtils';
+
+// Both hemispheres, both sides of Greenwich, the Norway and Svalbard zone
+// exceptions and a point right on a zone edge
+const PLACES = [
+  { name: 'Tashkent', lat: 41.311081, lng: 69.240562 },
+  { name: 'Sydney', lat: -33.868820, lng: 151.209296 },
+  { name: 'New York', lat: 40.712776, lng: -74.005974 },
+  { name: 'Punta Arenas', lat: -53.163833, lng: -70.917068 },
+  { name: 'Bergen', lat: 60.391263, lng: 5.322054 },
+  { name: 'Longyearbyen', lat: 78.223172, lng: 15.626723 },
+  { name: 'Zone edge', lat: 10.5, lng: 66 },
+];
+
+const expectNear = (actual: { lat: number, lng: number }, expected: { lat: number, lng: number }, digits: number) => {
+  expect(actual.lat).toBeCloseTo(expected.lat, digits);
+  expect(actual.lng).toBeCloseTo(expected.lng, digits);
+};
+
+describe('UTM', () => {
+  it.each(PLACES)('round-trips $name', place => {
+    expectNear(utmToLatLng(latLngToUtm(place.lat, place.lng)), place, 9);
+  });
+
+  it('puts Tashkent in zone 42T', () => {
+    const utm = latLngToUtm(41.345556, 69.284722);
+    expect(utm.zone).toBe(42);
+    expect(utm.band).toBe('T');
+  });
+
+  it('applies the Norway and Svalbard zone exceptions', () => {
+    expect(latLngToUtm(60.391263, 5.322054).zone).toBe(32);
+    expect(latLngToUtm(78.223172, 15.626723).zone).toBe(33);
+  });
+
+  it('refuses the polar caps', () => {
+    expect(() => latLngToUtm(85, 0)).toThrow();
+  });
+
+  it.each(PLACES)('parses its own $name output', place => {
+    const parsed = parseCoordinateInput(formatCoordinate(place.lat, place.lng, 'utm'));
+    expect(parsed?.format).toBe('utm');
+    // Printed to the meter
+    expectNear(parsed!, place, 4);
+  });
+});
+
+describe('MGRS', () => {
+  it.each(PLACES)('round-trips $name', place => {
+    const parsed = parseCoordinateInput(latLngToMgrs(place.lat, place.lng));
+    expect(parsed?.format).toBe('mgrs');
+    // A 1 m square, read back at its centre
+    expectNear(parsed!, place, 4);
+  });
+
+  it('reads shorter references as the centre of a larger square', () => {
+    const place = PLACES[0];
+    const parsed = parseCoordinateInput(latLngToMgrs(place.lat, place.lng, 3));
+    expect(parsed?.format).toBe('mgrs');
+    expectNear(parsed!, place, 2);
+  });
+
+  it('accepts the digits run together', () => {
+    const place = PLACES[0];
+    const spaced = latLngToMgrs(place.lat, place.lng);
+    const [zoneBand, square, easting, northing] = spaced.split(' ');
+    expect(parseCoordinateInput(`${zoneBand}${square}${easting}${northing}`)).toEqual(parseCoordinateInput(spaced));
+  });
+
+  it('rejects an odd number of digits', () => {
+    expect(parseCoordinateInput('42T VL 1234 567')).toBeNull();
+  });
+});
+
+describe('DMS and DDM', () => {
+  it.each(PLACES)('round-trips $name through DMS', place => {
+    const parsed = parseCoordinateInput(formatCoordinate(place.lat, place.lng, 'dms'));
+    expect(parsed?.format).toBe('dms');
+    expectNear(parsed!, place, 5);
+  });
+
+  it.each(PLACES)('round-trips $name through DDM', place => {
+    const parsed = parseCoordinateInput(formatCoordinate(place.lat, place.lng, 'ddm'));
+    expect(parsed?.format).toBe('ddm');
+    expectNear(parsed!, place, 5);
+  });
+
+  it('carries 59.999 seconds into the minutes', () => {
+    expect(formatCoordinate(41 + 17 / 60 + 59.999 / 3600, 69, 'dms')).toBe(`41°18'00.00"N 69°00'00.00"E`);
+  });
+
+  it('reads hemisphere letters before or after, and longitude first when they say so', () => {
+    const expected = { lat: 41.5, lng: -69.25 };
+    expectNear(parseCoordinateInput(`41°30'N 69°15'W`)!, expected, 9);
+    expectNear(parseCoordinateInput(`N41 30 W69 15`)!, expected, 9);
+    expectNear(parseCoordinateInput(`69°15'W 41°30'N`)!, expected, 9);
+  });
+
+  it('reads a negative zero degree as west', () => {
+    expect(parseCoordinateInput(`51 28 40 -0 0 5`)?.lng).toBeLessThan(0);
+  });
+
+  it('rejects minutes or seconds past 60', () => {
+    expect(parseCoordinateInput(`41 75 69 15`)).toBeNull();
+    expect(parseCoordinateInput(`41 30 75 69 15 10`)).toBeNull();
+  });
+});
+
+describe('map links', () => {
+  it.each([
+    ['Google place', 'https://www.google.com/maps/place/Amir+Timur+Square/@41.3,69.2,15z/data=!3m1!4b1!4m6!3m5!1s0x0:0x0!8m2!3d41.311081!4d69.279737', 41.311081, 69.279737],
+    ['Google viewport', 'https://www.google.com/maps/@41.311081,69.279737,17z', 41.311081, 69.279737],
+    ['Google query', 'https://maps.google.com/?q=41.311081,69.279737', 41.311081, 69.279737],
+    ['Apple', 'https://maps.apple.com/?ll=41.311081,69.279737&q=Pin', 41.311081, 69.279737],
+    ['OpenStreetMap marker', 'https://www.openstreetmap.org/?mlat=41.311081&mlon=69.279737#map=17/41.3/69.2', 41.311081, 69.279737],
+    ['OpenStreetMap hash', 'https://www.openstreetmap.org/#map=17/41.311081/69.279737', 41.311081, 69.279737],
+    ['Yandex, longitude first', 'https://yandex.uz/maps/?pt=69.279737,41.311081&z=17', 41.311081, 69.279737],
+    ['geo URI', 'geo:-33.868820,151.209296?z=15', -33.86882, 151.209296],
+  ])('reads %s links', (_, url, lat, lng) => {
+    const parsed = parseCoordinateInput(url);
+    expect(parsed?.format).toBe('url');
+    expectNear(parsed!, { lat, lng }, 6);
+  });
+
+  it('prefers the place over the viewport in Google links', () => {
+    const parsed = parseCoordinateInput('https://www.google.com/maps/place/X/@40,60,15z/data=!3d41.5!4d69.5');
+    expectNear(parsed!, { lat: 41.5, lng: 69.5 }, 9);
+  });
+
+  it('returns null for links without a location', () => {
+    expect(parseCoordinateInput('https://www.google.com/maps/search/plov')).toBeNull();
+    expect(parseCoordinateInput('https://example.com/?q=91,200')).toBeNull();
+  });
+});
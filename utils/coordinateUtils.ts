@@ -0,0 +1,367 @@
+import { CoordinateFormat } from '../types';
+
+export interface ParsedCoordinate {
+  lat: number;
+  lng: number;
+  format: CoordinateFormat | 'url';
+}
+
+export interface UtmCoordinate {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number; // Includes the 10 000 km false northing south of the equator
+}
+
+export const COORDINATE_FORMATS: { id: CoordinateFormat, label: string }[] = [
+  { id: 'dd', label: 'DD' },
+  { id: 'dms', label: 'DMS' },
+  { id: 'ddm', label: 'DDM' },
+  { id: 'utm', label: 'UTM' },
+  { id: 'mgrs', label: 'MGRS' },
+];
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+// WGS-84 ellipsoid and the Krüger series to 6th order in n, good to a few
+// nanometers inside a zone (Karney 2011, "Transverse Mercator with an accuracy
+// of a few nanometers")
+const A_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING = 10000000;
+
+const N = FLATTENING / (2 - FLATTENING);
+const E = Math.sqrt(FLATTENING * (2 - FLATTENING));
+const RECTIFYING_RADIUS = A_AXIS / (1 + N) * (1 + N ** 2 / 4 + N ** 4 / 64 + N ** 6 / 256);
+
+const ALPHA = [
+  N / 2 - 2 * N ** 2 / 3 + 5 * N ** 3 / 16 + 41 * N ** 4 / 180 - 127 * N ** 5 / 288 + 7891 * N ** 6 / 37800,
+  13 * N ** 2 / 48 - 3 * N ** 3 / 5 + 557 * N ** 4 / 1440 + 281 * N ** 5 / 630 - 1983433 * N ** 6 / 1935360,
+  61 * N ** 3 / 240 - 103 * N ** 4 / 140 + 15061 * N ** 5 / 26880 + 167603 * N ** 6 / 181440,
+  49561 * N ** 4 / 161280 - 179 * N ** 5 / 168 + 6601661 * N ** 6 / 7257600,
+  34729 * N ** 5 / 80640 - 3418889 * N ** 6 / 1995840,
+  212378941 * N ** 6 / 319334400,
+];
+
+const BETA = [
+  N / 2 - 2 * N ** 2 / 3 + 37 * N ** 3 / 96 - N ** 4 / 360 - 81 * N ** 5 / 512 + 96199 * N ** 6 / 604800,
+  N ** 2 / 48 + N ** 3 / 15 - 437 * N ** 4 / 1440 + 46 * N ** 5 / 105 - 1118711 * N ** 6 / 3870720,
+  17 * N ** 3 / 480 - 37 * N ** 4 / 840 - 209 * N ** 5 / 4480 + 5569 * N ** 6 / 90720,
+  4397 * N ** 4 / 161280 - 11 * N ** 5 / 504 - 830251 * N ** 6 / 7257600,
+  4583 * N ** 5 / 161280 - 108847 * N ** 6 / 3991680,
+  20648693 * N ** 6 / 638668800,
+];
+
+// Latitude bands are 8° tall from 80°S; X is stretched to 84°N
+const LAT_BANDS = 'CDEFGHJKLMNPQRSTUVWXX';
+
+const centralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3;
+
+// Standard 6° zones plus the Norway and Svalbard exceptions
+const utmZone = (lat: number, lng: number): number => {
+  let zone = Math.floor((lng + 180) / 6) + 1;
+  if (zone > 60) zone = 1;
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) zone = 32;
+  if (lat >= 72 && lat < 84) {
+    if (lng >= 0 && lng < 9) zone = 31;
+    else if (lng >= 9 && lng < 21) zone = 33;
+    else if (lng >= 21 && lng < 33) zone = 35;
+    else if (lng >= 33 && lng < 42) zone = 37;
+  }
+  return zone;
+};
+
+// Conformal latitude helper shared by both directions
+const conformalTau = (tau: number) => {
+  const sigma = Math.sinh(E * Math.atanh(E * tau / Math.sqrt(1 + tau ** 2)));
+  return tau * Math.sqrt(1 + sigma ** 2) - sigma * Math.sqrt(1 + tau ** 2);
+};
+
+const projectInZone = (lat: number, lng: number, zone: number) => {
+  const phi = toRad(lat);
+  const lambda = toRad(lng - centralMeridian(zone));
+
+  const tauPrime = conformalTau(Math.tan(phi));
+  const xiPrime = Math.atan2(tauPrime, Math.cos(lambda));
+  const etaPrime = Math.asinh(Math.sin(lambda) / Math.sqrt(tauPrime ** 2 + Math.cos(lambda) ** 2));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= 6; j++) {
+    xi += ALPHA[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += ALPHA[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
+
+  return {
+    easting: K0 * RECTIFYING_RADIUS * eta + FALSE_EASTING,
+    northing: K0 * RECTIFYING_RADIUS * xi + (lat < 0 ? FALSE_NORTHING : 0)
+  };
+};
+
+export const latLngToUtm = (lat: number, lng: number): UtmCoordinate => {
+  if (lat < -80 || lat > 84) {
+    throw new Error('UTM is only defined between 80°S and 84°N');
+  }
+  const zone = utmZone(lat, lng);
+  const band = LAT_BANDS[Math.floor(lat / 8 + 10)];
+  return { zone, band, ...projectInZone(lat, lng, zone) };
+};
+
+// Bands C-M are south of the equator, N-X north
+const isSouthernBand = (band: string) => band.toUpperCase() < 'N';
+
+export const utmToLatLng = (utm: UtmCoordinate): { lat: number, lng: number } => {
+  const x = utm.easting - FALSE_EASTING;
+  const y = isSouthernBand(utm.band) ? utm.northing - FALSE_NORTHING : utm.northing;
+
+  const eta = x / (K0 * RECTIFYING_RADIUS);
+  const xi = y / (K0 * RECTIFYING_RADIUS);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= 6; j++) {
+    xiPrime -= BETA[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= BETA[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  const sinhEtaPrime = Math.sinh(etaPrime);
+  const cosXiPrime = Math.cos(xiPrime);
+  const tauPrime = Math.sin(xiPrime) / Math.sqrt(sinhEtaPrime ** 2 + cosXiPrime ** 2);
+
+  // Newton-Raphson back from the conformal latitude, converges in 2-3 steps
+  let tau = tauPrime;
+  for (let i = 0; i < 10; i++) {
+    const tauI = conformalTau(tau);
+    const delta = (tauPrime - tauI) / Math.sqrt(1 + tauI ** 2)
+      * (1 + (1 - E ** 2) * tau ** 2) / ((1 - E ** 2) * Math.sqrt(1 + tau ** 2));
+    tau += delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+
+  const lng = toDeg(Math.atan2(sinhEtaPrime, cosXiPrime)) + centralMeridian(utm.zone);
+  return { lat: toDeg(Math.atan(tau)), lng: ((lng + 540) % 360) - 180 };
+};
+
+// MGRS 100 km square letters: columns cycle every 3 zones, rows every 2
+const MGRS_COLUMNS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = ['ABCDEFGHJKLMNPQRSTUV', 'FGHJKLMNPQRSTUVABCDE'];
+
+export const latLngToMgrs = (lat: number, lng: number, digits = 5): string => {
+  const utm = latLngToUtm(lat, lng);
+  const column = MGRS_COLUMNS[(utm.zone - 1) % 3][Math.floor(utm.easting / 100000) - 1];
+  const row = MGRS_ROWS[(utm.zone - 1) % 2][Math.floor(utm.northing / 100000) % 20];
+
+  // MGRS truncates rather than rounds, a grid reference names the square you are in
+  const scale = 10 ** (5 - digits);
+  const e = String(Math.floor((utm.easting % 100000) / scale)).padStart(digits, '0');
+  const n = String(Math.floor((utm.northing % 100000) / scale)).padStart(digits, '0');
+  return `${utm.zone}${utm.band} ${column}${row} ${e} ${n}`;
+};
+
+export const mgrsToLatLng = (zone: number, band: string, square: string, easting: string, northing: string) => {
+  const column = MGRS_COLUMNS[(zone - 1) % 3].indexOf(square[0].toUpperCase()) + 1;
+  const row = MGRS_ROWS[(zone - 1) % 2].indexOf(square[1].toUpperCase());
+  if (column === 0 || row === -1) {
+    throw new Error(`Invalid MGRS square ${square} for zone ${zone}`);
+  }
+
+  // Grid references point at the south-west corner, move to the middle of the cell
+  const precision = 10 ** (5 - easting.length);
+  const e = column * 100000 + Number(easting) * precision + precision / 2;
+  let n = row * 100000 + Number(northing) * precision + precision / 2;
+
+  // Row letters repeat every 2000 km, pick the cycle that lands inside the band
+  const bandIndex = LAT_BANDS.indexOf(band.toUpperCase());
+  const bandBottom = projectInZone((bandIndex - 10) * 8, centralMeridian(zone), zone).northing;
+  const bandFloor = Math.floor(bandBottom / 100000) * 100000;
+  while (n < bandFloor) n += 2000000;
+
+  return utmToLatLng({ zone, band, easting: e, northing: n });
+};
+
+const hemisphere = (value: number, isLat: boolean) => isLat ? (value >= 0 ? 'N' : 'S') : (value >= 0 ? 'E' : 'W');
+
+// Rounds once in the smallest unit so 59.999" carries into the minutes instead of printing 60.00"
+const formatDms = (value: number, isLat: boolean) => {
+  const hundredths = Math.round(Math.abs(value) * 360000);
+  const d = Math.floor(hundredths / 360000);
+  const m = Math.floor((hundredths % 360000) / 6000);
+  const s = (hundredths % 6000) / 100;
+  return `${d}°${String(m).padStart(2, '0')}'${s.toFixed(2).padStart(5, '0')}"${hemisphere(value, isLat)}`;
+};
+
+const formatDdm = (value: number, isLat: boolean) => {
+  const tenThousandths = Math.round(Math.abs(value) * 600000);
+  const d = Math.floor(tenThousandths / 600000);
+  const m = (tenThousandths % 600000) / 10000;
+  return `${d}°${m.toFixed(4).padStart(7, '0')}'${hemisphere(value, isLat)}`;
+};
+
+export const formatCoordinate = (lat: number, lng: number, format: CoordinateFormat): string => {
+  switch (format) {
+    case 'dms': return `${formatDms(lat, true)} ${formatDms(lng, false)}`;
+    case 'ddm': return `${formatDdm(lat, true)} ${formatDdm(lng, false)}`;
+    case 'utm': {
+      const utm = latLngToUtm(lat, lng);
+      return `${utm.zone}${utm.band} ${utm.easting.toFixed(0)} ${utm.northing.toFixed(0)}`;
+    }
+    case 'mgrs': return latLngToMgrs(lat, lng);
+    default: return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  }
+};
+
+const isValidLatLng = (lat: number, lng: number) => (
+  isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+);
+
+const pair = (first: string, second: string) => ({ first: parseFloat(first), second: parseFloat(second) });
+
+// Map links put coordinates in the path, query or hash depending on the service.
+// Yandex is the odd one out and writes longitude first.
+const parseMapUrl = (text: string): { lat: number, lng: number } | null => {
+  const geo = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/i.exec(text);
+  if (geo) return { lat: parseFloat(geo[1]), lng: parseFloat(geo[2]) };
+
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  const decoded = decodeURIComponent(url.href);
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+
+  if (/yandex\./.test(url.hostname)) {
+    const value = url.searchParams.get('pt') || url.searchParams.get('whatshere[point]') || url.searchParams.get('ll');
+    const match = value && new RegExp(`^${number},${number}`).exec(value);
+    if (match) {
+      const { first, second } = pair(match[1], match[2]);
+      return { lat: second, lng: first };
+    }
+    return null;
+  }
+
+  // Google place links: !3d is the place itself, @ is only the viewport centre
+  const place = new RegExp(`!3d${number}!4d${number}`).exec(decoded);
+  if (place) return { lat: parseFloat(place[1]), lng: parseFloat(place[2]) };
+
+  const mlat = url.searchParams.get('mlat');
+  const mlon = url.searchParams.get('mlon');
+  if (mlat && mlon) return { lat: parseFloat(mlat), lng: parseFloat(mlon) };
+
+  for (const key of ['q', 'query', 'll', 'center', 'destination', 'daddr']) {
+    const value = url.searchParams.get(key);
+    const match = value && new RegExp(`^\\s*${number}\\s*,\\s*${number}`).exec(value);
+    if (match) return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+  }
+
+  const viewport = new RegExp(`@${number},${number}`).exec(decoded);
+  if (viewport) return { lat: parseFloat(viewport[1]), lng: parseFloat(viewport[2]) };
+
+  // OpenStreetMap: #map=zoom/lat/lng
+  const osm = new RegExp(`map=\\d+(?:\\.\\d+)?/${number}/${number}`).exec(url.hash);
+  if (osm) return { lat: parseFloat(osm[1]), lng: parseFloat(osm[2]) };
+
+  return null;
+};
+
+const UTM_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*m?\s*E?\s*[,\s]\s*(\d+(?:\.\d+)?)\s*m?\s*N?$/i;
+const MGRS_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z]{2})\s*(\d{0,10})\s*(\d{0,5})$/i;
+
+const parseGrid = (text: string): ParsedCoordinate | null => {
+  const mgrs = MGRS_PATTERN.exec(text);
+  if (mgrs) {
+    const [, zone, band, square, first, second] = mgrs;
+    // Either one run of digits split in half, or two runs of equal length
+    const digits = second ? first + second : first;
+    if (digits.length % 2 !== 0 || (second && first.length !== second.length)) return null;
+    const half = digits.length / 2;
+    const { lat, lng } = mgrsToLatLng(Number(zone), band, square, digits.slice(0, half), digits.slice(half));
+    return { lat, lng, format: 'mgrs' };
+  }
+
+  const utm = UTM_PATTERN.exec(text);
+  if (utm) {
+    const [, zone, band, easting, northing] = utm;
+    const { lat, lng } = utmToLatLng({ zone: Number(zone), band, easting: Number(easting), northing: Number(northing) });
+    return { lat, lng, format: 'utm' };
+  }
+
+  return null;
+};
+
+// Decimal degrees, DDM or DMS. Each half has 1, 2 or 3 numbers, with an
+// optional hemisphere letter before or after it, or a leading minus sign.
+const parseAngular = (text: string): ParsedCoordinate | null => {
+  const normalized = text
+    .replace(/[′’‘`´]/g, "'")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/º/g, '°');
+  if (/[^\d\s.,;:°'"+\-NSEWnsew]/.test(normalized)) return null;
+
+  const tokens = normalized.match(/[NSEW]|[+-]?\d+(?:\.\d+)?/gi) || [];
+  const numbers = tokens.filter(t => /\d/.test(t));
+  if (![2, 4, 6].includes(numbers.length)) return null;
+  const perPart = numbers.length / 2;
+
+  // A letter before the first number or after the last is unambiguous. One
+  // between the halves ends the first half, unless the first half opened with one.
+  const groups: { values: number[], hemisphere?: string }[] = [{ values: [] }, { values: [] }];
+  let seen = 0;
+  for (const token of tokens) {
+    if (/\d/.test(token)) {
+      groups[Math.floor(seen / perPart)].values.push(parseFloat(token));
+      seen++;
+      continue;
+    }
+    let group: number;
+    if (seen === 0) group = 0;
+    else if (seen === numbers.length) group = 1;
+    else if (seen === perPart) group = groups[0].hemisphere ? 1 : 0;
+    else return null;
+    if (groups[group].hemisphere) return null;
+    groups[group].hemisphere = token.toUpperCase();
+  }
+
+  const toDecimal = (group: { values: number[], hemisphere?: string }): number | null => {
+    const [deg, min = 0, sec = 0] = group.values;
+    if (min < 0 || min >= 60 || sec < 0 || sec >= 60) return null;
+    const magnitude = Math.abs(deg) + min / 60 + sec / 3600;
+    const negative = deg < 0 || Object.is(deg, -0) || group.hemisphere === 'S' || group.hemisphere === 'W';
+    return negative ? -magnitude : magnitude;
+  };
+
+  const first = toDecimal(groups[0]);
+  const second = toDecimal(groups[1]);
+  if (first === null || second === null) return null;
+
+  // Longitude first only when the letters say so
+  const swapped = /[EW]/.test(groups[0].hemisphere || '') || /[NS]/.test(groups[1].hemisphere || '');
+  const lat = swapped ? second : first;
+  const lng = swapped ? first : second;
+  const format: CoordinateFormat = perPart === 1 ? 'dd' : perPart === 2 ? 'ddm' : 'dms';
+  return { lat, lng, format };
+};
+
+// Accepts anything a surveyor or a map app is likely to hand over
+export const parseCoordinateInput = (input: string): ParsedCoordinate | null => {
+  const text = input.trim();
+  if (!text) return null;
+
+  let parsed: ParsedCoordinate | null = null;
+  if (/^(https?:\/\/|geo:)/i.test(text)) {
+    const fromUrl = parseMapUrl(text);
+    parsed = fromUrl && { ...fromUrl, format: 'url' };
+  } else {
+    try {
+      parsed = parseGrid(text) || parseAngular(text);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  return parsed && isValidLatLng(parsed.lat, parsed.lng) ? parsed : null;
+};
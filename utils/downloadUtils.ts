@@ -0,0 +1,8 @@
+import FileSaver from 'file-saver';
+
+// file-saver is CommonJS, so depending on the bundler the default import is
+// either the function itself or the module object carrying it as saveAs
+const saveAs: typeof FileSaver.saveAs = FileSaver.saveAs || FileSaver;
+
+// Hands a Blob or an object URL to the browser as a download
+export const saveFile = (data: Blob | string, fileName: string) => saveAs(data, fileName);
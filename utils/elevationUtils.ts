@@ -0,0 +1,260 @@
+import { ElevationSettings, ElevationTile, GPSData } from '../types';
+import { readSetting, writeSetting } from './settingsUtils';
+
+// Ground height from local elevation tiles: SRTM .hgt files as downloaded, or
+// single-band GeoTIFFs in plain lat/lng (EPSG:4326) such as SRTM or Copernicus
+// DEM exports. Tiles are read whole, a 1" SRTM tile takes about 26 MB.
+
+export const ELEVATION_EXTENSIONS = ['.hgt', '.tif', '.tiff'];
+
+const DEFAULT_SETTINGS: ElevationSettings = { autoFill: true, aboveGroundMeters: 0 };
+
+export const loadElevationSettings = (): ElevationSettings => ({ ...DEFAULT_SETTINGS, ...readSetting<Partial<ElevationSettings>>('elevation', {}) });
+
+export const saveElevationSettings = (settings: ElevationSettings) => writeSetting('elevation', settings);
+
+export const isElevationFile = (file: File) => ELEVATION_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+const SRTM_VOID = -32768;
+
+// N41E069.hgt covers 41..42°N, 69..70°E. Rows run north to south and the edge
+// samples are shared with the neighbouring tiles.
+const parseHgt = (name: string, buffer: ArrayBuffer): ElevationTile => {
+  const match = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(name);
+  if (!match) throw new Error(`${name}: HGT files must keep their name, e.g. N41E069.hgt, which says where they are`);
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size) || size < 2) throw new Error(`${name} is not a square grid of 16-bit heights`);
+
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  // Big-endian on disk, whatever the platform
+  const view = new DataView(buffer);
+  const heights = new Int16Array(size * size);
+  for (let i = 0; i < heights.length; i++) heights[i] = view.getInt16(i * 2, false);
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    west,
+    north: south + 1,
+    cellWidth: 1 / (size - 1),
+    cellHeight: 1 / (size - 1),
+    width: size,
+    height: size,
+    heights,
+    noData: SRTM_VOID
+  };
+};
+
+// TIFF tags a GeoTIFF elevation grid needs
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  PlanarConfiguration: 284,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  SampleFormat: 339,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  GeoKeyDirectory: 34735,
+  GdalNoData: 42113,
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const GEO_KEY_RASTER_TYPE = 1025; // 1 = pixel is area, 2 = pixel is point
+const GEO_KEY_PROJECTED_CS = 3072;
+
+type TiffFields = Map<number, (number | string)[]>;
+
+const readTiffFields = (view: DataView): { fields: TiffFields, littleEndian: boolean } => {
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4D4D) throw new Error('Not a TIFF file');
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) throw new Error('BigTIFF files are not supported, save the DEM as a classic TIFF');
+
+  const ifd = view.getUint32(4, littleEndian);
+  const count = view.getUint16(ifd, littleEndian);
+  const fields: TiffFields = new Map();
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const offset = size * length > 4 ? view.getUint32(entry + 8, littleEndian) : entry + 8;
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+      fields.set(tag, [new TextDecoder().decode(bytes).replace(/\0+$/, '')]);
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < length; j++) {
+      const at = offset + j * size;
+      switch (type) {
+        case 3: values.push(view.getUint16(at, littleEndian)); break;
+        case 4: values.push(view.getUint32(at, littleEndian)); break;
+        case 8: values.push(view.getInt16(at, littleEndian)); break;
+        case 9: values.push(view.getInt32(at, littleEndian)); break;
+        case 11: values.push(view.getFloat32(at, littleEndian)); break;
+        case 12: values.push(view.getFloat64(at, littleEndian)); break;
+        case 5: values.push(view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)); break;
+        default: values.push(view.getUint8(at));
+      }
+    }
+    fields.set(tag, values);
+  }
+  return { fields, littleEndian };
+};
+
+// Reader for one sample of the given TIFF sample format and bit depth
+const sampleReader = (format: number, bits: number, littleEndian: boolean): ((view: DataView, at: number) => number) => {
+  if (format === 3 && bits === 32) return (view, at) => view.getFloat32(at, littleEndian);
+  if (format === 3 && bits === 64) return (view, at) => view.getFloat64(at, littleEndian);
+  if (format === 2 && bits === 16) return (view, at) => view.getInt16(at, littleEndian);
+  if (format === 2 && bits === 32) return (view, at) => view.getInt32(at, littleEndian);
+  if (format === 1 && bits === 16) return (view, at) => view.getUint16(at, littleEndian);
+  if (format === 1 && bits === 32) return (view, at) => view.getUint32(at, littleEndian);
+  if (format !== 3 && bits === 8) return (view, at) => format === 2 ? view.getInt8(at) : view.getUint8(at);
+  throw new Error(`${bits}-bit ${format === 3 ? 'float' : 'integer'} samples are not supported`);
+};
+
+const parseGeoTiff = (name: string, buffer: ArrayBuffer): ElevationTile => {
+  const view = new DataView(buffer);
+  const { fields, littleEndian } = readTiffFields(view);
+  const first = (tag: number, fallback?: number) => (fields.get(tag)?.[0] as number | undefined) ?? fallback;
+
+  const width = first(TAG.ImageWidth);
+  const height = first(TAG.ImageLength);
+  const scale = fields.get(TAG.ModelPixelScale) as number[] | undefined;
+  const tiepoint = fields.get(TAG.ModelTiepoint) as number[] | undefined;
+  if (!width || !height) throw new Error(`${name} has no image size`);
+  if (!scale || !tiepoint) throw new Error(`${name} is not georeferenced, it needs ModelPixelScale and ModelTiepoint tags`);
+  if (first(TAG.Compression, 1) !== 1) {
+    throw new Error(`${name} is compressed. Save it without compression, e.g. gdal_translate -co COMPRESS=NONE`);
+  }
+
+  const geoKeys = (fields.get(TAG.GeoKeyDirectory) || []) as number[];
+  const geoKey = (id: number) => {
+    for (let i = 4; i + 3 < geoKeys.length; i += 4) {
+      if (geoKeys[i] === id && geoKeys[i + 1] === 0) return geoKeys[i + 3];
+    }
+    return undefined;
+  };
+  if (geoKey(GEO_KEY_PROJECTED_CS) !== undefined) {
+    throw new Error(`${name} is in a projected coordinate system. Reproject it to lat/lng, e.g. gdalwarp -t_srs EPSG:4326`);
+  }
+
+  const bits = first(TAG.BitsPerSample, 1)!;
+  const bytesPerSample = bits / 8;
+  const samplesPerPixel = first(TAG.SamplesPerPixel, 1)!;
+  // Only the first band is read; with separate planes it comes first anyway
+  const pixelStride = first(TAG.PlanarConfiguration, 1) === 2 ? bytesPerSample : bytesPerSample * samplesPerPixel;
+  const read = sampleReader(first(TAG.SampleFormat, 1)!, bits, littleEndian);
+  const heights = new Float32Array(width * height);
+
+  const tileWidth = first(TAG.TileWidth);
+  const tileLength = first(TAG.TileLength);
+  if (tileWidth && tileLength) {
+    const offsets = fields.get(TAG.TileOffsets) as number[];
+    const across = Math.ceil(width / tileWidth);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const tile = Math.floor(row / tileLength) * across + Math.floor(col / tileWidth);
+        const within = (row % tileLength) * tileWidth + (col % tileWidth);
+        heights[row * width + col] = read(view, offsets[tile] + within * pixelStride);
+      }
+    }
+  } else {
+    const offsets = fields.get(TAG.StripOffsets) as number[];
+    const rowsPerStrip = Math.min(first(TAG.RowsPerStrip, height)!, height);
+    for (let row = 0; row < height; row++) {
+      const start = offsets[Math.floor(row / rowsPerStrip)] + (row % rowsPerStrip) * width * pixelStride;
+      for (let col = 0; col < width; col++) {
+        heights[row * width + col] = read(view, start + col * pixelStride);
+      }
+    }
+  }
+
+  // The tiepoint ties raster (i, j) to (lng, lat). With pixel-is-area, the
+  // default, it is the pixel's corner and samples sit half a cell in.
+  const [i, j, , lng, lat] = tiepoint;
+  const [cellWidth, cellHeight] = scale;
+  const half = geoKey(GEO_KEY_RASTER_TYPE) === 2 ? 0 : 0.5;
+  const noData = parseFloat(String(fields.get(TAG.GdalNoData)?.[0] ?? ''));
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    west: lng + (half - i) * cellWidth,
+    north: lat - (half - j) * cellHeight,
+    cellWidth,
+    cellHeight,
+    width,
+    height,
+    heights,
+    noData: isNaN(noData) ? undefined : noData
+  };
+};
+
+export const parseElevationFile = async (file: File): Promise<ElevationTile> => {
+  const buffer = await file.arrayBuffer();
+  return /\.hgt$/i.test(file.name) ? parseHgt(file.name, buffer) : parseGeoTiff(file.name, buffer);
+};
+
+export const describeTileBounds = (tile: ElevationTile): string => {
+  const south = tile.north - (tile.height - 1) * tile.cellHeight;
+  const east = tile.west + (tile.width - 1) * tile.cellWidth;
+  const lat = (value: number) => `${Math.abs(value).toFixed(2)}°${value < 0 ? 'S' : 'N'}`;
+  const lng = (value: number) => `${Math.abs(value).toFixed(2)}°${value < 0 ? 'W' : 'E'}`;
+  return `${lat(south)}–${lat(tile.north)}, ${lng(tile.west)}–${lng(east)}`;
+};
+
+// Bilinear between the four surrounding samples. Voids are left out of the
+// blend, and a point surrounded only by voids has no height.
+const sampleTile = (tile: ElevationTile, gps: GPSData): number | undefined => {
+  const x = (gps.lng - tile.west) / tile.cellWidth;
+  const y = (tile.north - gps.lat) / tile.cellHeight;
+  if (x < 0 || y < 0 || x > tile.width - 1 || y > tile.height - 1) return undefined;
+
+  const col = Math.min(Math.floor(x), tile.width - 2);
+  const row = Math.min(Math.floor(y), tile.height - 2);
+  const fx = x - col;
+  const fy = y - row;
+  const corners = [
+    { value: tile.heights[row * tile.width + col], weight: (1 - fx) * (1 - fy) },
+    { value: tile.heights[row * tile.width + col + 1], weight: fx * (1 - fy) },
+    { value: tile.heights[(row + 1) * tile.width + col], weight: (1 - fx) * fy },
+    { value: tile.heights[(row + 1) * tile.width + col + 1], weight: fx * fy },
+  ].filter(corner => corner.value !== tile.noData && isFinite(corner.value));
+
+  const total = corners.reduce((sum, corner) => sum + corner.weight, 0);
+  if (corners.length === 0 || total === 0) return undefined;
+  return corners.reduce((sum, corner) => sum + corner.value * corner.weight, 0) / total;
+};
+
+// The finest tile that has a height for the point wins
+export const lookupElevation = (tiles: ElevationTile[], gps: GPSData): number | undefined => {
+  const byResolution = [...tiles].sort((a, b) => a.cellWidth - b.cellWidth);
+  for (const tile of byResolution) {
+    const height = sampleTile(tile, gps);
+    if (height !== undefined) return Math.round(height * 10) / 10;
+  }
+  return undefined;
+};
+
+// The pin's altitude: ground height plus the height above ground, or the pin
+// unchanged where no tile covers it
+export const withGroundElevation = (gps: GPSData, tiles: ElevationTile[], settings: ElevationSettings): GPSData => {
+  const ground = lookupElevation(tiles, gps);
+  if (ground === undefined) return gps;
+  return { ...gps, altitude: Math.round((ground + settings.aboveGroundMeters) * 10) / 10 };
+};
@@ -0,0 +1,17 @@
+import { applyExifWrite, ExifWorkerRequest, ExifWorkerResponse } from './exifWriteUtils';
+import { registerExifTags } from './geoUtils';
+
+registerExifTags();
+
+// Runs applyExifWrite for writeImageMetadata, off the main thread
+self.addEventListener('message', (event: MessageEvent<ExifWorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const bytes = applyExifWrite(job);
+    const response: ExifWorkerResponse = { id, bytes };
+    self.postMessage(response, { transfer: [bytes.buffer] });
+  } catch (error) {
+    const response: ExifWorkerResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import piexif from 'piexifjs';
+import { ExifPatchEntry } from '../types';
+import { applyExifWrite, patchExifTiff } from './exifWriteUtils';
+import { binaryStringToBytes, bytesToBinaryString, concatBytes, extractExifTiff } from './formatUtils';
+
+const LATITUDE = [[41, 1], [17, 1], [3989, 100]];
+const LONGITUDE = [[69, 1], [14, 1], [2602, 100]];
+// Stands in for a vendor MakerNote, whose internal offsets break if it moves
+const MAKER_NOTE = Array.from({ length: 64 }, (_, i) => String.fromCharCode(0x80 + i)).join('');
+
+const segment = (marker: number, payload: Uint8Array) => {
+  const bytes = new Uint8Array(4 + payload.length);
+  bytes.set([0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+  bytes.set(payload, 4);
+  return bytes;
+};
+
+const exifSegment = (exifObj: object) => segment(0xE1, binaryStringToBytes(piexif.dump(exifObj)));
+
+const baseExif = () => ({
+  '0th': { [piexif.ImageIFD.Make]: 'Camera Maker', [piexif.ImageIFD.Model]: 'Model 7' },
+  Exif: { [piexif.ExifIFD.DateTimeOriginal]: '2024:05:17 14:03:22', [piexif.ExifIFD.MakerNote]: MAKER_NOTE },
+  GPS: {
+    [piexif.GPSIFD.GPSLatitudeRef]: 'N',
+    [piexif.GPSIFD.GPSLatitude]: LATITUDE,
+    [piexif.GPSIFD.GPSLongitudeRef]: 'E',
+    [piexif.GPSIFD.GPSLongitude]: LONGITUDE,
+  },
+});
+
+const APP0 = segment(0xE0, new TextEncoder().encode('JFIF\0\x01\x02\0\0\x01\0\x01\0\0'));
+const COM = segment(0xFE, new TextEncoder().encode('Written by a scanner'));
+const DQT = segment(0xDB, new Uint8Array(65).fill(7));
+// Start of scan, some entropy-coded data and EOI
+const SCAN = new Uint8Array([0xFF, 0xDA, 0x00, 0x08, 1, 2, 3, 4, 5, 6, 0x12, 0x34, 0xFF, 0x00, 0x56, 0xFF, 0xD9]);
+
+const jpeg = (...segments: Uint8Array[]) => concatBytes([new Uint8Array([0xFF, 0xD8]), ...segments, SCAN]);
+
+// Big-endian, as piexif writes it
+const rationalBytes = (values: number[][]) => {
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach(([n, d], i) => {
+    view.setUint32(i * 8, n);
+    view.setUint32(i * 8 + 4, d);
+  });
+  return bytes;
+};
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array) => {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const readBack = (bytes: Uint8Array) => piexif.load('Exif\0\0' + bytesToBinaryString(extractExifTiff(bytes, 'jpeg')!));
+
+const write = (bytes: Uint8Array, patch: ExifPatchEntry[]) =>
+  applyExifWrite({ bytes: bytes.slice().buffer, format: 'jpeg', patch });
+
+const NEW_LATITUDE: ExifPatchEntry = { ifd: 'GPS', tag: piexif.GPSIFD.GPSLatitude, type: 'Rational', value: [[40, 1], [0, 1], [0, 1]] };
+const NEW_LONGITUDE: ExifPatchEntry = { ifd: 'GPS', tag: piexif.GPSIFD.GPSLongitude, type: 'Rational', value: [[70, 1], [0, 1], [0, 1]] };
+
+describe('patchExifTiff', () => {
+  const original = jpeg(APP0, exifSegment(baseExif()), COM, DQT);
+
+  it('copies every other segment and the image data byte for byte', () => {
+    const output = write(original, [NEW_LATITUDE]);
+    const scanAt = indexOf(output, SCAN);
+    expect(output.subarray(0, 2 + APP0.length)).toEqual(original.subarray(0, 2 + APP0.length));
+    expect(output.subarray(scanAt - COM.length - DQT.length)).toEqual(concatBytes([COM, DQT, SCAN]));
+  });
+
+  it('keeps untouched values where they were', () => {
+    const before = extractExifTiff(original, 'jpeg')!;
+    const after = extractExifTiff(write(original, [NEW_LATITUDE, NEW_LONGITUDE]), 'jpeg')!;
+    const makerNote = binaryStringToBytes(MAKER_NOTE);
+    expect(indexOf(after, makerNote)).toBe(indexOf(before, makerNote));
+
+    const exif = readBack(write(original, [NEW_LATITUDE]));
+    expect(exif.Exif?.[piexif.ExifIFD.DateTimeOriginal]).toBe('2024:05:17 14:03:22');
+    expect(exif['0th']?.[piexif.ImageIFD.Model]).toBe('Model 7');
+    expect(exif.GPS?.[piexif.GPSIFD.GPSLatitude]).toEqual([[40, 1], [0, 1], [0, 1]]);
+    expect(exif.GPS?.[piexif.GPSIFD.GPSLongitude]).toEqual(LONGITUDE);
+  });
+
+  it('leaves nothing of the replaced location in the file', () => {
+    expect(indexOf(original, rationalBytes(LATITUDE))).not.toBe(-1);
+    const output = write(original, [NEW_LATITUDE, NEW_LONGITUDE]);
+    expect(indexOf(output, rationalBytes(LATITUDE))).toBe(-1);
+    expect(indexOf(output, rationalBytes(LONGITUDE))).toBe(-1);
+  });
+
+  it('leaves nothing of removed tags in the file', () => {
+    const removeGps = Object.keys(baseExif().GPS).map((tag): ExifPatchEntry => ({ ifd: 'GPS', tag: Number(tag), type: 'Rational', value: null }));
+    const output = write(original, removeGps);
+    expect(readBack(output).GPS).toEqual({});
+    expect(indexOf(output, rationalBytes(LATITUDE))).toBe(-1);
+    expect(indexOf(output, rationalBytes(LONGITUDE))).toBe(-1);
+  });
+
+  it('does not grow when the same tags are written again', () => {
+    const once = extractExifTiff(write(original, [NEW_LATITUDE, NEW_LONGITUDE]), 'jpeg')!;
+    let tiff = once;
+    for (let i = 0; i < 5; i++) tiff = patchExifTiff(tiff, [NEW_LATITUDE, NEW_LONGITUDE]);
+    expect(tiff.length).toBe(once.length);
+  });
+
+  it('finds EXIF that comes after other markers instead of adding a second block', () => {
+    const late = jpeg(COM, DQT, exifSegment(baseExif()));
+    const output = write(late, [NEW_LATITUDE]);
+    const exifHeaders = bytesToBinaryString(output).split('Exif\0\0').length - 1;
+    expect(exifHeaders).toBe(1);
+    expect(readBack(output).GPS?.[piexif.GPSIFD.GPSLatitude]).toEqual([[40, 1], [0, 1], [0, 1]]);
+    expect(output.subarray(2, 2 + COM.length + DQT.length)).toEqual(concatBytes([COM, DQT]));
+  });
+
+  it('rebuilds the block when a value outgrows its old space and the JPEG segment', () => {
+    const exifObj = baseExif();
+    const large = { ...exifObj, '0th': { ...exifObj['0th'], [piexif.ImageIFD.ImageDescription]: 'a'.repeat(33000) } };
+    const output = write(jpeg(APP0, exifSegment(large)), [
+      { ifd: '0th', tag: piexif.ImageIFD.ImageDescription, type: 'Ascii', value: 'b'.repeat(34000) },
+      NEW_LATITUDE
+    ]);
+    const exif = readBack(output);
+    expect(extractExifTiff(output, 'jpeg')!.length).toBeLessThanOrEqual(0xFFFF - 8);
+    expect(exif['0th']?.[piexif.ImageIFD.ImageDescription]).toBe('b'.repeat(34000));
+    expect(exif.GPS?.[piexif.GPSIFD.GPSLatitude]).toEqual([[40, 1], [0, 1], [0, 1]]);
+    expect(indexOf(output, rationalBytes(LATITUDE))).toBe(-1);
+  });
+});
@@ -0,0 +1,343 @@
+import piexif from 'piexifjs';
+import { ExifPatchEntry, ExifValue, ImageFormat, PatchableIfdName } from '../types';
+import { binaryStringToBytes, bytesToBinaryString, concatBytes, extractExifTiff, writeExifTiff, writeXmpPacket } from './formatUtils';
+
+// Lossless EXIF editing. Instead of re-serialising the whole TIFF block (which
+// moves MakerNote data and breaks the absolute offsets inside it), edited IFDs
+// are written over the ones they replace or appended to the end of the block,
+// and the pointers to them updated. Everything nothing points to any more is
+// zeroed, so an old location can't be read back out of the file. Every other
+// byte of the original block stays where it was.
+
+export interface ExifWriteJob {
+  bytes: ArrayBuffer;
+  format: ImageFormat;
+  patch?: ExifPatchEntry[]; // Edits applied to the file's own EXIF
+  tiff?: Uint8Array; // Replaces the whole EXIF block instead, as the privacy scrub does
+  xmp?: string; // XMP packet to embed as well
+}
+
+export interface ExifWorkerRequest {
+  id: number;
+  job: ExifWriteJob;
+}
+
+export interface ExifWorkerResponse {
+  id: number;
+  bytes?: Uint8Array;
+  error?: string;
+}
+
+const TIFF_TYPES: Record<string, { code: number; size: number }> = {
+  Byte: { code: 1, size: 1 },
+  Ascii: { code: 2, size: 1 },
+  Short: { code: 3, size: 2 },
+  Long: { code: 4, size: 4 },
+  Rational: { code: 5, size: 8 },
+  SByte: { code: 6, size: 1 },
+  Undefined: { code: 7, size: 1 },
+  SShort: { code: 8, size: 2 },
+  SLong: { code: 9, size: 4 },
+  SRational: { code: 10, size: 8 },
+  Float: { code: 11, size: 4 },
+  DFloat: { code: 12, size: 8 },
+};
+
+const TIFF_TYPE_SIZES = new Map(Object.values(TIFF_TYPES).map(({ code, size }) => [code, size]));
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TYPE_LONG = 4;
+
+// 64 KB APP1 segment, less its length field and the "Exif\0\0" header
+const MAX_JPEG_EXIF_TIFF = 0xFFFF - 2 - 6;
+
+// Big-endian "MM", IFD0 at offset 8 with no entries, for files without EXIF
+const EMPTY_TIFF = new Uint8Array([0x4D, 0x4D, 0x00, 0x2A, 0, 0, 0, 8, 0, 0, 0, 0, 0, 0]);
+
+const binaryToBytes = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xFF);
+
+// Packs a value in piexif's representation into the TIFF type's byte layout
+const encodeValue = (entry: ExifPatchEntry, littleEndian: boolean): { code: number; count: number; data: Uint8Array } => {
+  const type = TIFF_TYPES[entry.type];
+  if (!type) throw new Error(`Cannot write EXIF values of type ${entry.type}`);
+  const value = entry.value as ExifValue;
+
+  if (entry.type === 'Ascii' || entry.type === 'Undefined') {
+    let data: Uint8Array = typeof value === 'string'
+      // ASCII is meant to be 7-bit; anything outside Latin-1 is stored as UTF-8 like most cameras do
+      ? (/^[\x00-\xff]*$/.test(value) ? binaryToBytes(value) : new TextEncoder().encode(value))
+      : Uint8Array.from([value].flat(2) as number[]);
+    if (entry.type === 'Ascii' && data[data.length - 1] !== 0) data = concatBytes([data, new Uint8Array(1)]);
+    // encodeExifText writes UTF-16 big-endian; a little-endian TIFF expects its own byte order
+    if (littleEndian && typeof value === 'string' && value.startsWith('UNICODE\0')) {
+      data = data.slice();
+      for (let i = 8; i + 1 < data.length; i += 2) [data[i], data[i + 1]] = [data[i + 1], data[i]];
+    }
+    return { code: type.code, count: data.length, data };
+  }
+
+  const isRational = entry.type === 'Rational' || entry.type === 'SRational';
+  // [n, d] is one rational, [[n, d], ...] is several; plain numbers may come alone or in an array
+  const numbers = isRational
+    ? (typeof (value as number[])[0] === 'number' ? [value as number[]] : value as number[][]).flat()
+    : [value].flat() as number[];
+  const count = isRational ? numbers.length / 2 : numbers.length;
+  const data = new Uint8Array(count * type.size);
+  const view = new DataView(data.buffer);
+  const itemSize = isRational ? 4 : type.size;
+  numbers.forEach((n, i) => {
+    const at = i * itemSize;
+    switch (entry.type) {
+      case 'Byte': view.setUint8(at, n); break;
+      case 'SByte': view.setInt8(at, n); break;
+      case 'Short': view.setUint16(at, n, littleEndian); break;
+      case 'SShort': view.setInt16(at, n, littleEndian); break;
+      case 'Long': case 'Rational': view.setUint32(at, n, littleEndian); break;
+      case 'SLong': case 'SRational': view.setInt32(at, n, littleEndian); break;
+      case 'Float': view.setFloat32(at, n, littleEndian); break;
+      case 'DFloat': view.setFloat64(at, n, littleEndian); break;
+    }
+  });
+  return { code: type.code, count, data };
+};
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Removes every part of ranges that overlaps one of used
+const subtractRanges = (ranges: ByteRange[], used: ByteRange[]): ByteRange[] => used.reduce(
+  (free, taken) => free.flatMap(range => {
+    if (taken.end <= range.start || taken.start >= range.end) return [range];
+    return [{ start: range.start, end: taken.start }, { start: taken.end, end: range.end }].filter(r => r.end > r.start);
+  }),
+  ranges
+);
+
+export const patchExifTiff = (tiff: Uint8Array | null, patch: ExifPatchEntry[]): Uint8Array => {
+  // A block without a readable header can't be extended, the edits start a new one
+  const hasHeader = !!tiff && tiff.length >= 8
+    && ((tiff[0] === 0x49 && tiff[1] === 0x49 && tiff[2] === 0x2A) || (tiff[0] === 0x4D && tiff[1] === 0x4D && tiff[3] === 0x2A));
+  const source = hasHeader ? tiff! : EMPTY_TIFF;
+  if (patch.length === 0) return source;
+
+  const littleEndian = source[0] === 0x49;
+  const view = new DataView(source.buffer, source.byteOffset, source.byteLength);
+
+  // Entries are kept as their raw 12 bytes, so untouched values keep pointing into the original block
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, Uint8Array>();
+    if (offset < 8 || offset + 2 > source.length) return { entries, next: 0, range: null };
+    // Entries that run past the end of a damaged block are left out
+    const count = Math.min(view.getUint16(offset, littleEndian), Math.floor((source.length - offset - 2) / 12));
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      entries.set(view.getUint16(at, littleEndian), source.subarray(at, at + 12));
+    }
+    const nextAt = offset + 2 + count * 12;
+    const hasNext = nextAt + 4 <= source.length;
+    return {
+      entries,
+      next: hasNext ? view.getUint32(nextAt, littleEndian) : 0,
+      range: { start: offset, end: hasNext ? nextAt + 4 : nextAt }
+    };
+  };
+
+  const pointerValue = (entry?: Uint8Array) =>
+    entry ? new DataView(entry.buffer, entry.byteOffset, 12).getUint32(8, littleEndian) : 0;
+
+  // Where an entry's value lives in the original block, if it is too big for the entry itself
+  const valueRange = (entry: Uint8Array): ByteRange | null => {
+    // Entries written by this patch are new arrays, only views into source point into it
+    if (entry.buffer !== source.buffer) return null;
+    const entryView = new DataView(entry.buffer, entry.byteOffset, 12);
+    const length = (TIFF_TYPE_SIZES.get(entryView.getUint16(2, littleEndian)) || 0) * entryView.getUint32(4, littleEndian);
+    if (length <= 4) return null;
+    const start = entryView.getUint32(8, littleEndian);
+    return start < source.length ? { start, end: Math.min(start + length, source.length) } : null;
+  };
+
+  const ifd0 = readIfd(view.getUint32(4, littleEndian));
+  const subIfds: Record<Exclude<PatchableIfdName, '0th'>, { tag: number; ifd: ReturnType<typeof readIfd> }> = {
+    Exif: { tag: TAG_EXIF_IFD, ifd: readIfd(pointerValue(ifd0.entries.get(TAG_EXIF_IFD))) },
+    GPS: { tag: TAG_GPS_IFD, ifd: readIfd(pointerValue(ifd0.entries.get(TAG_GPS_IFD))) },
+  };
+  const rewritten = (['Exif', 'GPS'] as const).filter(name => patch.some(p => p.ifd === name));
+
+  const ifd0Entries = new Map(ifd0.entries);
+  const subEntries = new Map(rewritten.map(name => [name, new Map(subIfds[name].ifd.entries)]));
+  const entriesOf = (ifdName: PatchableIfdName) => ifdName === '0th' ? ifd0Entries : subEntries.get(ifdName)!;
+  patch.forEach(change => entriesOf(change.ifd).delete(change.tag));
+
+  // The directories being rewritten and the values of the entries the patch replaces
+  // are free, unless something that stays (a shared value, an untouched IFD) still uses them
+  const superseded = [ifd0, ...rewritten.map(name => subIfds[name].ifd)]
+    .flatMap(ifd => [ifd.range, ...[...ifd.entries.values()].map(valueRange)]);
+  const kept = [
+    ...[ifd0Entries, ...subEntries.values()].flatMap(entries => [...entries.values()].map(valueRange)),
+    ...(['Exif', 'GPS'] as const).filter(name => !rewritten.includes(name)).map(name => subIfds[name].ifd.range),
+  ];
+  const free = subtractRanges(
+    superseded.filter((r): r is ByteRange => !!r),
+    kept.filter((r): r is ByteRange => !!r)
+  )
+    .filter(r => r.start >= 8)
+    .sort((a, b) => a.start - b.start)
+    .reduce<ByteRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+      else merged.push({ ...range });
+      return merged;
+    }, []);
+  // Allocation below uses up the gaps, all of them are cleared first
+  const cleared = free.map(range => ({ ...range }));
+
+  const makeEntry = (tag: number, code: number, count: number, valueField: Uint8Array | number) => {
+    const entry = new Uint8Array(12);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint16(0, tag, littleEndian);
+    entryView.setUint16(2, code, littleEndian);
+    entryView.setUint32(4, count, littleEndian);
+    if (typeof valueField === 'number') entryView.setUint32(8, valueField, littleEndian);
+    else entry.set(valueField, 8);
+    return entry;
+  };
+  const setPointer = (entry: Uint8Array, offset: number) =>
+    new DataView(entry.buffer, entry.byteOffset, 12).setUint32(8, offset, littleEndian);
+
+  // Values of up to 4 bytes live in the entry itself, the rest get an offset below
+  const values: { entry: Uint8Array; data: Uint8Array }[] = [];
+  for (const change of patch) {
+    if (change.value === null) continue;
+    const { code, count, data } = encodeValue(change, littleEndian);
+    const entry = makeEntry(change.tag, code, count, data.length <= 4 ? data : 0);
+    if (data.length > 4) values.push({ entry, data });
+    entriesOf(change.ifd).set(change.tag, entry);
+  }
+  // A sub-IFD left without entries is dropped along with its pointer.
+  // IFD0 keeps its link to IFD1, so the thumbnail is not touched either.
+  const directories: { pointer?: Uint8Array; entries: Map<number, Uint8Array>; next: number }[] = [];
+  for (const name of rewritten) {
+    const { tag, ifd } = subIfds[name];
+    const entries = subEntries.get(name)!;
+    if (entries.size === 0) {
+      ifd0Entries.delete(tag);
+      continue;
+    }
+    const pointer = makeEntry(tag, TYPE_LONG, 1, 0);
+    ifd0Entries.set(tag, pointer);
+    directories.push({ pointer, entries, next: ifd.next });
+  }
+  directories.push({ entries: ifd0Entries, next: ifd0.next });
+
+  // Every offset is handed out before anything is written: largest first, each into
+  // the smallest freed gap it fits (on a word boundary), so writing the same tags
+  // again lands where they were instead of growing the block
+  const sizes = [...values.map(v => v.data.length), ...directories.map(d => 2 + d.entries.size * 12 + 4)];
+  const offsets: number[] = [];
+  let length = source.length;
+  sizes
+    .map((size, index) => ({ size, index }))
+    .sort((a, b) => b.size - a.size)
+    .forEach(({ size, index }) => {
+      const gap = free
+        .filter(range => range.start + (range.start % 2) + size <= range.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+      if (gap) {
+        offsets[index] = gap.start + (gap.start % 2);
+        gap.start = offsets[index] + size;
+      } else {
+        offsets[index] = length + (length % 2);
+        length = offsets[index] + size;
+      }
+    });
+
+  const out = new Uint8Array(length);
+  const outView = new DataView(out.buffer);
+  out.set(source);
+  cleared.forEach(({ start, end }) => out.fill(0, start, end));
+
+  values.forEach(({ entry, data }, i) => {
+    setPointer(entry, offsets[i]);
+    out.set(data, offsets[i]);
+  });
+  directories.forEach(({ pointer, entries, next }, i) => {
+    const offset = offsets[values.length + i];
+    if (pointer) setPointer(pointer, offset);
+    const tags = [...entries.keys()].sort((a, b) => a - b);
+    outView.setUint16(offset, tags.length, littleEndian);
+    tags.forEach((tag, j) => out.set(entries.get(tag)!, offset + 2 + j * 12));
+    outView.setUint32(offset + 2 + tags.length * 12, next, littleEndian);
+  });
+  outView.setUint32(4, offsets[offsets.length - 1], littleEndian);
+  return out;
+};
+
+// Re-serialises the whole block, which moves MakerNote data. Only used when
+// the patched block no longer fits in a JPEG segment.
+const rebuildExifTiff = (tiff: Uint8Array | null, patch: ExifPatchEntry[]): Uint8Array => {
+  const exifObj = tiff ? piexif.load('Exif\0\0' + bytesToBinaryString(tiff)) : {};
+  for (const change of patch) {
+    const ifd = exifObj[change.ifd] || (exifObj[change.ifd] = {});
+    if (change.value === null) delete ifd[change.tag];
+    else ifd[change.tag] = change.value;
+  }
+  return binaryStringToBytes(piexif.dump(exifObj).slice(6));
+};
+
+// Builds the output file from the original bytes. Pure, so it runs the same in the worker and inline.
+export const applyExifWrite = (job: ExifWriteJob): Uint8Array => {
+  let bytes: Uint8Array = new Uint8Array(job.bytes);
+  let tiff = job.tiff ?? null;
+  if (!tiff && job.patch && job.patch.length > 0) {
+    const original = extractExifTiff(bytes, job.format);
+    tiff = patchExifTiff(original, job.patch);
+    if (job.format === 'jpeg' && tiff.length > MAX_JPEG_EXIF_TIFF) {
+      console.warn('The patched EXIF block is too large for a JPEG segment, rebuilding it');
+      tiff = rebuildExifTiff(original, job.patch);
+    }
+  }
+  if (tiff) bytes = writeExifTiff(bytes, job.format, tiff);
+  if (job.xmp !== undefined) bytes = writeXmpPacket(bytes, job.format, job.xmp);
+  return bytes;
+};
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, { resolve: (bytes: Uint8Array) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./exifWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ExifWorkerResponse>) => {
+    const { id, bytes, error } = event.data;
+    const job = pendingJobs.get(id);
+    pendingJobs.delete(id);
+    if (error || !bytes) job?.reject(new Error(error || 'The metadata writer returned nothing'));
+    else job?.resolve(bytes);
+  };
+  worker.onerror = (event) => {
+    console.error("Metadata worker failed", event);
+    pendingJobs.forEach(job => job.reject(new Error('The metadata writer stopped unexpectedly')));
+    pendingJobs.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+// Large files are rewritten off the main thread so the page stays responsive.
+// job.bytes is transferred to the worker and can't be used afterwards.
+export const writeImageMetadata = (job: ExifWriteJob): Promise<Uint8Array> => {
+  if (typeof Worker === 'undefined') {
+    return new Promise(resolve => resolve(applyExifWrite(job)));
+  }
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject });
+    const request: ExifWorkerRequest = { id, job };
+    getWorker().postMessage(request, [job.bytes]);
+  });
+};
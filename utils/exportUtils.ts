@@ -0,0 +1,198 @@
+import { UploadedImage, GPSData, ExportManifestEntry, IntegrityDecision, LocationFuzzer, XmpWriteMode } from '../types';
+import { buildOutputFile, getEffectiveGps, hasPendingChanges } from './imageUtils';
+import { hasUsableGps } from './geoUtils';
+import { toSidecarName } from './xmpUtils';
+import { FORMAT_CAPABILITIES } from './formatUtils';
+import { checkImageIntegrity, isBlockingIssue } from './integrityUtils';
+import { createZipWriter, ZipSink } from './zipUtils';
+import { saveFile } from './downloadUtils';
+
+export const DEFAULT_FILENAME_TEMPLATE = 'geotagged-{name}.{ext}';
+
+export const FILENAME_TOKENS = ['{name}', '{ext}', '{date}', '{lat}', '{lng}', '{alt}', '{index}'];
+
+const splitName = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0
+    ? { base: fileName.slice(0, dot), ext: fileName.slice(dot + 1) }
+    : { base: fileName, ext: 'jpg' };
+};
+
+// "2024:05:17 14:03:22" -> "2024-05-17_140322"
+const formatTemplateDate = (exifDate?: string) => {
+  const match = exifDate && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(exifDate);
+  return match ? `${match[1]}-${match[2]}-${match[3]}_${match[4]}${match[5]}${match[6]}` : 'nodate';
+};
+
+// Characters that are invalid in file names on at least one common OS
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_');
+
+export const applyFilenameTemplate = (template: string, image: UploadedImage, gps: GPSData | undefined, index: number): string => {
+  const { base, ext } = splitName(image.file.name);
+  const values: Record<string, string> = {
+    name: base,
+    ext,
+    date: formatTemplateDate(image.metadata.dateTimeOriginal),
+    lat: gps ? gps.lat.toFixed(6) : 'nolat',
+    lng: gps ? gps.lng.toFixed(6) : 'nolng',
+    alt: (gps?.altitude ?? 0).toFixed(1),
+    index: String(index + 1).padStart(3, '0')
+  };
+
+  const name = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+  return sanitizeFileName(name);
+};
+
+// Two images may render to the same name (same template, same spot), and a
+// ZIP with duplicate entries is extracted differently by every tool.
+const makeUnique = (name: string, used: Set<string>) => {
+  if (!used.has(name)) {
+    used.add(name);
+    return name;
+  }
+  const { base, ext } = splitName(name);
+  let counter = 2;
+  while (used.has(`${base}-${counter}.${ext}`)) counter++;
+  const unique = `${base}-${counter}.${ext}`;
+  used.add(unique);
+  return unique;
+};
+
+const gpsEquals = (a?: GPSData, b?: GPSData) => {
+  if (!a || !b) return a === b;
+  return a.lat.toFixed(7) === b.lat.toFixed(7)
+    && a.lng.toFixed(7) === b.lng.toFixed(7)
+    && (a.altitude ?? 0).toFixed(2) === (b.altitude ?? 0).toFixed(2);
+};
+
+export const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (entries: ExportManifestEntry[]): string => {
+  const header = [
+    'original_name', 'output_name', 'timestamp',
+    'old_lat', 'old_lng', 'old_alt', 'new_lat', 'new_lng', 'new_alt', 'changed',
+    'integrity', 'issues'
+  ];
+  const rows = entries.map(e => [
+    e.originalName, e.outputName, e.dateTimeOriginal,
+    e.oldGps?.lat, e.oldGps?.lng, e.oldGps?.altitude,
+    e.newGps?.lat, e.newGps?.lng, e.newGps?.altitude,
+    e.changed, e.integrity, e.issues?.join('; ')
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+// Prefer the File System Access API so the archive is written to disk entry
+// by entry. Other browsers get each chunk wrapped in its own Blob right away,
+// which the browser may keep outside the JS heap, and one download at the end.
+// abort throws away what was written, so a failed export leaves no truncated file.
+const openZipSink = async (zipName: string): Promise<{ sink: ZipSink, close: () => Promise<void>, abort: () => Promise<void> }> => {
+  if (window.showSaveFilePicker) {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: zipName,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+    });
+    const writable = await handle.createWritable();
+    return {
+      sink: (chunk) => writable.write(chunk as BufferSource),
+      close: () => writable.close(),
+      abort: () => writable.abort()
+    };
+  }
+
+  const parts: Blob[] = [];
+  return {
+    sink: async (chunk) => { parts.push(new Blob([chunk as BlobPart])); },
+    close: async () => {
+      saveFile(new Blob(parts, { type: 'application/zip' }), zipName);
+    },
+    abort: async () => {
+      parts.length = 0;
+    }
+  };
+};
+
+export interface ZipExportOptions {
+  template: string;
+  zipName: string;
+  xmpMode?: XmpWriteMode;
+  integrity: IntegrityDecision; // Applied to every image with metadata problems
+  fuzzer?: LocationFuzzer; // Writes every location coarsened, and the names and manifest with it
+  onProgress?: (done: number, total: number) => void;
+}
+
+// With fuzzing on, every located image has to be rewritten, edited or not
+export const getExportQueue = (images: UploadedImage[], fuzzing: boolean): UploadedImage[] =>
+  images.filter(img => hasPendingChanges(img) || (fuzzing && hasUsableGps(getEffectiveGps(img))));
+
+export const exportImagesAsZip = async (images: UploadedImage[], options: ZipExportOptions): Promise<ExportManifestEntry[]> => {
+  const queue = getExportQueue(images, !!options.fuzzer);
+  const { sink, close, abort } = await openZipSink(options.zipName);
+  const zip = createZipWriter(sink);
+  const usedNames = new Set<string>();
+  const manifest: ExportManifestEntry[] = [];
+
+  try {
+    for (let i = 0; i < queue.length; i++) {
+      const img = queue[i];
+      const effectiveGps = getEffectiveGps(img);
+      const fuzz = options.fuzzer && hasUsableGps(effectiveGps) ? options.fuzzer(img.id, effectiveGps) : undefined;
+      const newGps = fuzz ? fuzz.gps : effectiveGps;
+      // Only one rewritten image is held in memory at a time
+      const issues = FORMAT_CAPABILITIES[img.format].write === 'in-place' ? await checkImageIntegrity(img) : [];
+      const entry: ExportManifestEntry = {
+        originalName: img.file.name,
+        outputName: '',
+        // The manifest travels with the photos, so a fuzzed export leaves the exact location out
+        oldGps: options.fuzzer ? undefined : img.metadata.gps,
+        newGps,
+        dateTimeOriginal: img.metadata.dateTimeOriginal,
+        changed: false,
+        issues: issues.length > 0 ? issues.map(issue => issue.message) : undefined,
+        // Warnings alone never keep an image out of the archive
+        integrity: issues.length === 0 ? undefined
+          : options.integrity === 'abort' && !issues.some(isBlockingIssue) ? 'preserve'
+          : options.integrity
+      };
+      if (entry.integrity === 'abort') {
+        manifest.push(entry);
+        options.onProgress?.(i + 1, queue.length);
+        continue;
+      }
+
+      const repairs = entry.integrity === 'repair' ? issues.filter(issue => issue.repair) : [];
+      const { blob, sidecar, xmpSidecar } = await buildOutputFile(img, effectiveGps, options.xmpMode, repairs, fuzz);
+      const templated = applyFilenameTemplate(options.template, img, newGps, i);
+      const outputName = makeUnique(sidecar ? toSidecarName(templated) : templated, usedNames);
+      const modified = new Date(img.file.lastModified);
+
+      await zip.addFile(outputName, new Uint8Array(await blob.arrayBuffer()), modified);
+      if (xmpSidecar) {
+        const sidecarName = makeUnique(toSidecarName(outputName), usedNames);
+        await zip.addFile(sidecarName, new Uint8Array(await xmpSidecar.arrayBuffer()), modified);
+      }
+
+      manifest.push({
+        ...entry,
+        outputName,
+        changed: !gpsEquals(img.metadata.gps, newGps) || Object.keys(img.pendingTags || {}).length > 0
+      });
+      options.onProgress?.(i + 1, queue.length);
+    }
+
+    const encoder = new TextEncoder();
+    await zip.addFile('manifest.csv', encoder.encode(manifestToCsv(manifest)));
+    await zip.addFile('manifest.json', encoder.encode(JSON.stringify(manifest, null, 2)));
+    await zip.finish();
+    await close();
+  } catch (error) {
+    // The error that stopped the export is the one worth reporting
+    await abort().catch(abortError => console.error("Failed to discard the partial archive", abortError));
+    throw error;
+  }
+
+  return manifest;
+};
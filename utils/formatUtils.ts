@@ -0,0 +1,506 @@
+import { ImageFormat, FormatCapability } from '../types';
+import { crc32 } from './zipUtils';
+
+// What each container lets us do with location metadata. Formats without an
+// in-place writer get their edits as an XMP sidecar next to the original.
+export const FORMAT_CAPABILITIES: Record<ImageFormat, FormatCapability> = {
+  jpeg: { label: 'JPEG', read: true, write: 'in-place', preview: true, note: 'EXIF in the APP1 segment' },
+  png: { label: 'PNG', read: true, write: 'in-place', preview: true, note: 'EXIF in the eXIf chunk' },
+  webp: { label: 'WebP', read: true, write: 'in-place', preview: true, note: 'EXIF chunk, VP8X header added if missing' },
+  tiff: { label: 'TIFF / DNG', read: true, write: 'sidecar', preview: false, note: 'Rewriting IFDs could break raw data, XMP sidecar instead' },
+  heic: { label: 'HEIC / HEIF', read: true, write: 'sidecar', preview: false, note: 'Exif item in the ISOBMFF meta box, XMP sidecar instead' },
+};
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+};
+
+const SUPPORTED_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'tif', 'tiff', 'dng', 'heic', 'heif'];
+
+// HEIC and DNG files often arrive without a MIME type, so fall back to the extension
+export const isSupportedImageFile = (file: File): boolean => {
+  if (/^image\/(jpe?g|png|webp|tiff|heic|heif)$/.test(file.type)) return true;
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  return SUPPORTED_EXTENSIONS.includes(ext);
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  const tiffMagic = ascii(bytes, 0, 4);
+  if (tiffMagic === 'II*\0' || tiffMagic === 'MM\0*') return 'tiff';
+  if (ascii(bytes, 4, 4) === 'ftyp' && /^(heic|heix|hevc|heim|heis|mif1|msf1|avif)$/.test(ascii(bytes, 8, 4))) return 'heic';
+  return null;
+};
+
+// Some writers store "Exif\0\0" in front of the TIFF header, strip it
+const stripExifPrefix = (data: Uint8Array) => {
+  return ascii(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data;
+};
+
+interface JpegSegment {
+  marker: number;
+  start: number; // Offset of the 0xFF marker byte
+  end: number; // Offset just past the segment
+  data: Uint8Array; // Payload after the length field
+}
+
+const JPEG_EXIF_HEADER = 'Exif\0\0';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const JPEG_SOS = 0xDA;
+
+// Walks every marker segment up to the start of scan. Metadata usually comes
+// right after SOI, but some writers put a COM, DQT or DHT first, so the APPn
+// segments can sit anywhere in the header.
+// Returns them with the offset where the entropy-coded image data begins.
+const readJpegSegments = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+    const marker = bytes[offset + 1];
+    // 0xFF fill bytes may pad any marker
+    if (marker === 0xFF) {
+      offset++;
+      continue;
+    }
+    if (marker === JPEG_SOS) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, end, data: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+  return { segments, dataStart: offset };
+};
+
+const isJpegExif = (segment: JpegSegment) => segment.marker === 0xE1 && ascii(segment.data, 0, 6) === JPEG_EXIF_HEADER;
+
+const isJpegXmp = (segment: JpegSegment) => segment.marker === 0xE1 && ascii(segment.data, 0, JPEG_XMP_HEADER.length) === JPEG_XMP_HEADER;
+
+const readJpegExif = (bytes: Uint8Array): Uint8Array | null => {
+  const exif = readJpegSegments(bytes).segments.find(isJpegExif);
+  return exif ? exif.data.subarray(6) : null;
+};
+
+const readPngExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'eXIf') return stripExifPrefix(bytes.subarray(offset + 8, offset + 8 + length));
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+const readWebpExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (ascii(bytes, offset, 4) === 'EXIF') return stripExifPrefix(bytes.subarray(offset + 8, offset + 8 + size));
+    offset += 8 + size + (size & 1);
+  }
+  return null;
+};
+
+interface IsoBox {
+  type: string;
+  start: number; // First byte of the payload
+  end: number;
+}
+
+const readBoxes = (view: DataView, start: number, end: number): IsoBox[] => {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7)
+    );
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const readUint = (view: DataView, offset: number, size: number): number => {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(offset);
+  if (size === 4) return view.getUint32(offset);
+  return Number(view.getBigUint64(offset));
+};
+
+// HEIF keeps EXIF as an item of type "Exif": iinf names the item, iloc says
+// where its bytes are. The payload starts with a 4 byte offset to the TIFF header.
+const readHeicExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const meta = readBoxes(view, 0, bytes.length).find(b => b.type === 'meta');
+  if (!meta) return null;
+
+  // meta is a FullBox: skip version and flags
+  const children = readBoxes(view, meta.start + 4, meta.end);
+  const iinf = children.find(b => b.type === 'iinf');
+  const iloc = children.find(b => b.type === 'iloc');
+  const idat = children.find(b => b.type === 'idat');
+  if (!iinf || !iloc) return null;
+
+  const iinfVersion = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifItemId: number | null = null;
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const version = view.getUint8(infe.start);
+    if (version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const itemId = readUint(view, infe.start + 4, idSize);
+    const itemType = ascii(bytes, infe.start + 4 + idSize + 2, 4);
+    if (itemType === 'Exif') {
+      exifItemId = itemId;
+      break;
+    }
+  }
+  if (exifItemId === null) return null;
+
+  const version = view.getUint8(iloc.start);
+  let offset = iloc.start + 4;
+  const sizes = view.getUint16(offset);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xF;
+  const baseOffsetSize = (sizes >> 4) & 0xF;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xF : 0;
+  offset += 2;
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0xF;
+      offset += 2;
+    }
+    offset += 2; // data_reference_index
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    const parts: Uint8Array[] = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readUint(view, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readUint(view, offset, lengthSize);
+      offset += lengthSize;
+
+      const origin = constructionMethod === 1 && idat ? idat.start : 0;
+      const from = origin + baseOffset + extentOffset;
+      parts.push(bytes.subarray(from, extentLength ? from + extentLength : bytes.length));
+    }
+
+    if (itemId !== exifItemId) continue;
+    if (constructionMethod > 1) return null;
+
+    const data = parts.length === 1 ? parts[0] : concatBytes(parts);
+    const tiffOffset = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+    return stripExifPrefix(data.subarray(4 + tiffOffset));
+  }
+
+  return null;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Returns the TIFF structure ("II*\0..." / "MM\0*...") holding the EXIF IFDs
+export const extractExifTiff = (bytes: Uint8Array, format: ImageFormat): Uint8Array | null => {
+  switch (format) {
+    case 'jpeg': return readJpegExif(bytes);
+    case 'png': return readPngExif(bytes);
+    case 'webp': return readWebpExif(bytes);
+    case 'heic': return readHeicExif(bytes);
+    // A TIFF file is its own EXIF structure
+    case 'tiff': return bytes;
+    default: return null;
+  }
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Replaces every chunk matched by isOld with newChunk, placed before the first IDAT
+const replacePngChunk = (bytes: Uint8Array, newChunk: Uint8Array, isOld: (type: string, data: Uint8Array) => boolean): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let inserted = false;
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const chunk = bytes.subarray(offset, offset + 12 + length);
+    offset += 12 + length;
+
+    if (isOld(type, chunk.subarray(8, 8 + length))) continue;
+    if (!inserted && (type === 'IDAT' || type === 'IEND')) {
+      parts.push(newChunk);
+      inserted = true;
+    }
+    parts.push(chunk);
+  }
+
+  return concatBytes(parts);
+};
+
+// eXIf must come before the first IDAT; any existing eXIf is replaced
+const writePngExif = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  return replacePngChunk(bytes, pngChunk('eXIf', tiff), type => type === 'eXIf');
+};
+
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// XMP lives in an uncompressed iTXt chunk: keyword, NUL, flag, method, empty language and translated keyword
+const writePngXmp = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array => {
+  const header = new TextEncoder().encode(`${PNG_XMP_KEYWORD}\0\0\0\0\0`);
+  return replacePngChunk(
+    bytes,
+    pngChunk('iTXt', concatBytes([header, xmp])),
+    (type, data) => type === 'iTXt' && ascii(data, 0, PNG_XMP_KEYWORD.length + 1) === `${PNG_XMP_KEYWORD}\0`
+  );
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  const view = new DataView(chunk.buffer);
+  for (let i = 0; i < 4; i++) chunk[i] = fourcc.charCodeAt(i);
+  view.setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Canvas size of a simple (VP8 / VP8L) WebP, needed to build a VP8X header
+const readWebpCanvas = (bytes: Uint8Array, chunkType: string, dataStart: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (chunkType === 'VP8 ') {
+    return {
+      width: view.getUint16(dataStart + 6, true) & 0x3FFF,
+      height: view.getUint16(dataStart + 8, true) & 0x3FFF
+    };
+  }
+  if (chunkType === 'VP8L') {
+    const bits = view.getUint32(dataStart + 1, true);
+    return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+  }
+  return null;
+};
+
+const WEBP_FLAGS: Record<string, number> = { 'EXIF': 0x08, 'XMP ': 0x04 };
+
+// Sets an EXIF or XMP chunk, upgrading simple WebP files to the extended (VP8X) layout
+const writeWebpChunk = (bytes: Uint8Array, fourcc: 'EXIF' | 'XMP ', payload: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string, data: Uint8Array, raw: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    chunks.push({
+      type: ascii(bytes, offset, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + size),
+      raw: bytes.subarray(offset, end)
+    });
+    offset = end;
+  }
+
+  const kept = chunks.filter(c => c.type !== fourcc);
+  const parts: Uint8Array[] = [];
+
+  if (kept[0]?.type === 'VP8X') {
+    const vp8x = new Uint8Array(kept[0].data);
+    vp8x[0] |= WEBP_FLAGS[fourcc];
+    parts.push(riffChunk('VP8X', vp8x));
+    kept.shift();
+  } else {
+    const first = kept[0];
+    const firstStart = first ? first.raw.byteOffset - bytes.byteOffset + 8 : 0;
+    const canvas = first ? readWebpCanvas(bytes, first.type, firstStart) : null;
+    if (!canvas) throw new Error('Unrecognised WebP bitstream');
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = WEBP_FLAGS[fourcc];
+    const w = canvas.width - 1;
+    const h = canvas.height - 1;
+    vp8x.set([w & 0xFF, (w >> 8) & 0xFF, (w >> 16) & 0xFF, h & 0xFF, (h >> 8) & 0xFF, (h >> 16) & 0xFF], 4);
+    parts.push(riffChunk('VP8X', vp8x));
+  }
+
+  // Metadata goes after the image data, EXIF before XMP
+  const xmpIndex = fourcc === 'EXIF' ? kept.findIndex(c => c.type === 'XMP ') : -1;
+  const before = xmpIndex === -1 ? kept : kept.slice(0, xmpIndex);
+  const after = xmpIndex === -1 ? [] : kept.slice(xmpIndex);
+  parts.push(...before.map(c => c.raw), riffChunk(fourcc, payload), ...after.map(c => c.raw));
+
+  const body = concatBytes(parts);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return out;
+};
+
+const jpegAppSegment = (payload: Uint8Array, what: string): Uint8Array => {
+  if (payload.length + 2 > 0xFFFF) throw new Error(`${what} is too large for a JPEG segment`);
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xFF, 0xE1, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+  segment.set(payload, 4);
+  return segment;
+};
+
+// Swaps the EXIF APP1 segment for a new one. Every other segment (ICC, MPF, XMP,
+// vendor APPn, tables) and all image data are copied byte for byte.
+const writeJpegExif = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  const segment = jpegAppSegment(concatBytes([new TextEncoder().encode(JPEG_EXIF_HEADER), tiff]), 'EXIF block');
+  const { segments, dataStart } = readJpegSegments(bytes);
+  const hasExif = segments.some(isJpegExif);
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let inserted = false;
+  for (const s of segments) {
+    if (isJpegExif(s)) {
+      // Keep the original position, drop any duplicate EXIF segments
+      if (!inserted) parts.push(segment);
+      inserted = true;
+      continue;
+    }
+    // New EXIF goes first, after a JFIF APP0 if there is one
+    if (!hasExif && !inserted && s.marker !== 0xE0) {
+      parts.push(segment);
+      inserted = true;
+    }
+    parts.push(bytes.subarray(s.start, s.end));
+  }
+  if (!inserted) parts.push(segment);
+  parts.push(bytes.subarray(dataStart));
+  return concatBytes(parts);
+};
+
+// In-place writers, all working on raw bytes
+export const writeExifTiff = (bytes: Uint8Array, format: ImageFormat, tiff: Uint8Array): Uint8Array => {
+  switch (format) {
+    case 'jpeg': return writeJpegExif(bytes, tiff);
+    case 'png': return writePngExif(bytes, tiff);
+    case 'webp': return writeWebpChunk(bytes, 'EXIF', tiff);
+    default: throw new Error(`${FORMAT_CAPABILITIES[format].label} cannot be written in place`);
+  }
+};
+
+// Standard XMP goes in its own APP1 segment after the EXIF one. Extended XMP
+// (packets over 64 KB split across segments) is not supported.
+const writeJpegXmp = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array => {
+  const segment = jpegAppSegment(concatBytes([new TextEncoder().encode(JPEG_XMP_HEADER), xmp]), 'XMP packet');
+  const { segments, dataStart } = readJpegSegments(bytes);
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let inserted = false;
+  for (const s of segments) {
+    if (isJpegXmp(s)) continue;
+    if (!inserted && s.marker !== 0xE0 && !isJpegExif(s)) {
+      parts.push(segment);
+      inserted = true;
+    }
+    parts.push(bytes.subarray(s.start, s.end));
+  }
+
+  if (!inserted) parts.push(segment);
+  parts.push(bytes.subarray(dataStart));
+  return concatBytes(parts);
+};
+
+// Embeds an XMP packet in formats that are written in place
+export const writeXmpPacket = (bytes: Uint8Array, format: ImageFormat, xml: string): Uint8Array => {
+  const xmp = new TextEncoder().encode(xml);
+  switch (format) {
+    case 'jpeg': return writeJpegXmp(bytes, xmp);
+    case 'png': return writePngXmp(bytes, xmp);
+    case 'webp': return writeWebpChunk(bytes, 'XMP ', xmp);
+    default: throw new Error(`${FORMAT_CAPABILITIES[format].label} cannot be written in place`);
+  }
+};
+
+const indexOfBytes = (bytes: Uint8Array, pattern: Uint8Array, from = 0): number => {
+  let i = bytes.indexOf(pattern[0], from);
+  while (i !== -1 && i + pattern.length <= bytes.length) {
+    let j = 1;
+    while (j < pattern.length && bytes[i + j] === pattern[j]) j++;
+    if (j === pattern.length) return i;
+    i = bytes.indexOf(pattern[0], i + 1);
+  }
+  return -1;
+};
+
+// XMP packets are stored as plain UTF-8 in every container we read (JPEG APP1,
+// PNG iTXt, WebP "XMP ", TIFF tag 700, HEIF mime item), so a byte scan finds them
+export const extractXmpPacket = (bytes: Uint8Array): string | null => {
+  const encoder = new TextEncoder();
+  const start = indexOfBytes(bytes, encoder.encode('<x:xmpmeta'));
+  if (start === -1) return null;
+  const closing = encoder.encode('</x:xmpmeta>');
+  const end = indexOfBytes(bytes, closing, start);
+  if (end === -1) return null;
+  return new TextDecoder().decode(bytes.subarray(start, end + closing.length));
+};
+
+export const binaryStringToBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Chunked so large files do not overflow the argument limit of fromCharCode
+export const bytesToBinaryString = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
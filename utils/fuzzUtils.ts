@@ -0,0 +1,87 @@
+import { FuzzSettings, FuzzedLocation, Gazetteer, GPSData, LocationFuzzer } from '../types';
+import { decimalToDms, distanceMeters, dmsToDecimal } from './geoUtils';
+import { findAreaCentre } from './gazetteerUtils';
+import { readSetting, writeSetting } from './settingsUtils';
+
+// Coarse locations for photos that are shared publicly: close enough to show
+// the neighbourhood, too coarse to find the house the photo was taken from.
+
+export const FUZZ_PRECISIONS = [100, 1000, 5000];
+
+const DEFAULT_SETTINGS: FuzzSettings = { enabled: false, method: 'snap', precisionMeters: 1000 };
+
+export const loadFuzzSettings = (): FuzzSettings => ({ ...DEFAULT_SETTINGS, ...readSetting<Partial<FuzzSettings>>('locationFuzz', {}) });
+
+export const saveFuzzSettings = (settings: FuzzSettings) => writeSetting('locationFuzz', settings);
+
+const METERS_PER_DEGREE = 111320;
+const METERS_PER_SECOND = METERS_PER_DEGREE / 3600;
+
+// The coarsest DMS seconds resolution whose rounding (half a step at most)
+// stays within a quarter of the precision, so the digits say no more than the fuzz
+export const dmsResolutionFor = (precisionMeters: number): number =>
+  [60, 10, 1, 0.1, 0.01].find(seconds => seconds * METERS_PER_SECOND <= precisionMeters / 2) ?? 0.0001;
+
+const roundToDms = (gps: GPSData, resolutionSeconds: number): GPSData => ({
+  lat: dmsToDecimal(decimalToDms(gps.lat, resolutionSeconds), gps.lat < 0 ? 'S' : 'N'),
+  lng: dmsToDecimal(decimalToDms(gps.lng, resolutionSeconds), gps.lng < 0 ? 'W' : 'E')
+});
+
+// Same sequence for the same seed (mulberry32 over a string hash)
+const seededRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Centre of the grid cell, cells precision meters on a side. Everyone in the
+// cell gets the same point, so nothing about the real spot inside it is kept.
+export const snapToGrid = (gps: GPSData, precisionMeters: number): GPSData => {
+  const latStep = precisionMeters / METERS_PER_DEGREE;
+  const lat = (Math.floor(gps.lat / latStep) + 0.5) * latStep;
+  // Columns are sized at the row's centre, so the cells stay about square away from the equator
+  const lngStep = precisionMeters / (METERS_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  const lng = (Math.floor(gps.lng / lngStep) + 0.5) * lngStep;
+  return { lat: Math.max(-90, Math.min(90, lat)), lng: Math.max(-180, Math.min(180, lng)) };
+};
+
+// A point uniformly spread over the disk of radius precision around gps
+export const offsetRandomly = (gps: GPSData, precisionMeters: number, random: () => number): GPSData => {
+  const distance = precisionMeters * Math.sqrt(random());
+  const angle = random() * 2 * Math.PI;
+  const lat = gps.lat + distance * Math.cos(angle) / METERS_PER_DEGREE;
+  const lng = gps.lng + distance * Math.sin(angle) / (METERS_PER_DEGREE * Math.max(Math.cos(gps.lat * Math.PI / 180), 0.01));
+  return { lat: Math.max(-90, Math.min(90, lat)), lng: ((lng + 540) % 360) - 180 };
+};
+
+export const createLocationFuzzer = (settings: FuzzSettings, gazetteers: Gazetteer[]): LocationFuzzer => (seed, gps) => {
+  const { method, precisionMeters } = settings;
+  const dmsResolutionSeconds = dmsResolutionFor(precisionMeters);
+  const finish = (fuzzed: GPSData, radiusMeters: number, place?: string): FuzzedLocation => {
+    const written = roundToDms(fuzzed, dmsResolutionSeconds);
+    const radius = radiusMeters + distanceMeters(fuzzed, written);
+    return {
+      // The distance to a place centre would draw a ring through the real spot, so it isn't written
+      gps: place ? written : { ...written, positioningError: Math.ceil(radius) },
+      radiusMeters: radius,
+      dmsResolutionSeconds,
+      place
+    };
+  };
+
+  if (method === 'centroid') {
+    const centre = findAreaCentre(gazetteers, gps);
+    if (centre) return finish(centre.entry, centre.distance, centre.entry.name);
+  }
+  if (method === 'random') {
+    return finish(offsetRandomly(gps, precisionMeters, seededRandom(seed)), precisionMeters);
+  }
+  const cell = snapToGrid(gps, precisionMeters);
+  // Half the cell's diagonal, the farthest the real spot can be from its centre
+  return finish(cell, precisionMeters * Math.SQRT1_2);
+};
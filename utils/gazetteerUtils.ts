@@ -0,0 +1,251 @@
+import { Gazetteer, GazetteerEntry, GazetteerKind, GeoJsonGeometry, GPSData, ReverseGeocodeResult } from '../types';
+import { readGeoJsonFeatures, textProperty } from './geoJsonUtils';
+import { distanceMeters } from './geoUtils';
+import { parseCsv } from './csvUtils';
+import { TASHKENT_GAZETTEER } from './tashkentGazetteer';
+
+// New regions are added here; imported extracts live next to them at runtime
+export const BUILT_IN_GAZETTEERS: Gazetteer[] = [TASHKENT_GAZETTEER];
+
+export const GAZETTEER_KIND_LABELS: Record<GazetteerKind, string> = {
+  city: 'City',
+  district: 'District',
+  mahalla: 'Mahalla',
+  street: 'Street',
+  landmark: 'Landmark',
+  metro: 'Metro',
+};
+
+// Case, accents and the many apostrophes of Uzbek Latin (oʻ, gʻ) are ignored
+const normalizeName = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[ʻʼ'‘’`´]/g, '')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const matchScore = (name: string, query: string): number => {
+  const normalized = normalizeName(name);
+  if (normalized === query) return 0;
+  if (normalized.startsWith(query)) return 1;
+  if (normalized.split(' ').some(word => word.startsWith(query))) return 2;
+  if (normalized.includes(query)) return 3;
+  return Infinity;
+};
+
+export const searchGazetteer = (gazetteer: Gazetteer, query: string, limit = 8): GazetteerEntry[] => {
+  const normalizedQuery = normalizeName(query);
+  if (normalizedQuery.length < 2) return [];
+
+  return gazetteer.entries
+    .map(entry => ({
+      entry,
+      score: Math.min(...[entry.name, ...(entry.altNames || [])].map(name => matchScore(name, normalizedQuery)))
+    }))
+    .filter(match => match.score !== Infinity)
+    .sort((a, b) => a.score - b.score || a.entry.name.length - b.entry.name.length)
+    .slice(0, limit)
+    .map(match => match.entry);
+};
+
+// Anything further than this from every named place only gets district and city
+const NEAREST_PLACE_METERS = 1000;
+const NEAREST_DISTRICT_METERS = 8000;
+// How far outside the gazetteer's own points a pin can be and still be "in" its city
+const EXTENT_MARGIN_DEGREES = 0.1;
+
+const isWithinExtent = (gazetteer: Gazetteer, gps: GPSData) => {
+  const lats = gazetteer.entries.map(e => e.lat);
+  const lngs = gazetteer.entries.map(e => e.lng);
+  return gps.lat >= Math.min(...lats) - EXTENT_MARGIN_DEGREES
+    && gps.lat <= Math.max(...lats) + EXTENT_MARGIN_DEGREES
+    && gps.lng >= Math.min(...lngs) - EXTENT_MARGIN_DEGREES
+    && gps.lng <= Math.max(...lngs) + EXTENT_MARGIN_DEGREES;
+};
+
+const findNearest = (entries: GazetteerEntry[], gps: GPSData) => {
+  let nearest: GazetteerEntry | undefined;
+  let best = Infinity;
+  for (const entry of entries) {
+    const distance = distanceMeters(gps, entry);
+    if (distance < best) {
+      best = distance;
+      nearest = entry;
+    }
+  }
+  return nearest ? { entry: nearest, distance: best } : undefined;
+};
+
+// The nearest city or district centre in any gazetteer covering the pin, a
+// location to publish that names the area without pointing at an address
+export const findAreaCentre = (gazetteers: Gazetteer[], gps: GPSData) => {
+  const centres = gazetteers
+    .filter(gazetteer => gazetteer.entries.length > 0 && isWithinExtent(gazetteer, gps))
+    .flatMap(gazetteer => gazetteer.entries.filter(e => e.kind === 'city' || e.kind === 'district'));
+  const nearest = findNearest(centres, gps);
+  return nearest && nearest.distance <= NEAREST_DISTRICT_METERS ? nearest : undefined;
+};
+
+// Returns null when the pin is outside the region the gazetteer covers
+export const reverseGeocode = (gazetteer: Gazetteer, gps: GPSData): ReverseGeocodeResult | null => {
+  if (gazetteer.entries.length === 0 || !isWithinExtent(gazetteer, gps)) return null;
+
+  const place = findNearest(gazetteer.entries.filter(e => e.kind !== 'district' && e.kind !== 'city'), gps);
+  const nearby = place && place.distance <= NEAREST_PLACE_METERS ? place : undefined;
+
+  const districtEntry = findNearest(gazetteer.entries.filter(e => e.kind === 'district'), gps);
+  const district = nearby?.entry.district
+    || (districtEntry && districtEntry.distance <= NEAREST_DISTRICT_METERS ? districtEntry.entry.name : undefined);
+
+  // IPTC Sublocation is the area inside the city, so it carries the district too
+  const sublocation = [nearby?.entry.name, district].filter(Boolean).join(', ') || undefined;
+
+  return {
+    address: [sublocation, gazetteer.city, gazetteer.country].filter(Boolean).join(', '),
+    location: {
+      sublocation,
+      city: gazetteer.city || undefined,
+      state: gazetteer.state,
+      country: gazetteer.country || undefined,
+      countryCode: gazetteer.countryCode || undefined,
+    },
+    nearest: nearby?.entry,
+    distanceMeters: nearby?.distance
+  };
+};
+
+// Maps OSM tags (as flattened by overpass turbo or osmtogeojson) to our kinds
+const kindFromTags = (props: Record<string, unknown>): GazetteerKind => {
+  const place = typeof props.place === 'string' ? props.place : '';
+  if (props.station === 'subway' || props.railway === 'subway_entrance' || (props.railway === 'station' && props.subway === 'yes')) return 'metro';
+  if (props.highway) return 'street';
+  if (['city', 'town', 'village'].includes(place)) return 'city';
+  if (['neighbourhood', 'quarter', 'suburb', 'hamlet'].includes(place)) return 'mahalla';
+  if (props.boundary === 'administrative' || place === 'borough' || place === 'city_district') return 'district';
+  return 'landmark';
+};
+
+type Position = number[];
+
+// A single representative point: the middle vertex of a line, the bbox centre of an area
+const representativePoint = (geometry: GeoJsonGeometry | null): Position | null => {
+  if (!geometry) return null;
+  switch (geometry.type) {
+    case 'Point': return geometry.coordinates;
+    case 'MultiPoint':
+    case 'LineString': return geometry.coordinates[Math.floor(geometry.coordinates.length / 2)];
+    case 'MultiLineString': return representativePoint({ type: 'LineString', coordinates: geometry.coordinates[0] });
+    case 'Polygon': {
+      const ring = geometry.coordinates[0];
+      const lngs = ring.map(p => p[0]);
+      const lats = ring.map(p => p[1]);
+      return [(Math.min(...lngs) + Math.max(...lngs)) / 2, (Math.min(...lats) + Math.max(...lats)) / 2];
+    }
+    case 'MultiPolygon': return representativePoint({ type: 'Polygon', coordinates: geometry.coordinates[0] });
+    default: return null;
+  }
+};
+
+const mostCommon = (values: (string | undefined)[]): string | undefined => {
+  const counts = new Map<string, number>();
+  values.forEach(v => v && counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const parseGeoJsonGazetteer = (fileName: string, text: string): Gazetteer => {
+  const features = readGeoJsonFeatures(text);
+
+  const entries: GazetteerEntry[] = [];
+  const cities: (string | undefined)[] = [];
+  const countries: (string | undefined)[] = [];
+  // OSM splits long streets into many ways, keep one entry per name and kind
+  const seen = new Set<string>();
+
+  for (const feature of features) {
+    const props = feature.properties || {};
+    const name = textProperty(feature, 'name', 'name:en', 'name:uz');
+    const point = representativePoint(feature.geometry);
+    if (!name || !point) continue;
+
+    const kind = kindFromTags(props);
+    const key = `${kind}:${name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const altNames = ['name:en', 'name:uz', 'name:ru', 'name:uz-Cyrl', 'alt_name', 'old_name']
+      .map(tag => props[tag])
+      .filter((alt): alt is string => typeof alt === 'string' && alt !== name);
+
+    entries.push({
+      name,
+      altNames: altNames.length > 0 ? altNames : undefined,
+      kind,
+      lat: point[1],
+      lng: point[0],
+      district: textProperty(feature, 'addr:district', 'addr:suburb')
+    });
+    cities.push(textProperty(feature, 'addr:city'));
+    countries.push(textProperty(feature, 'addr:country'));
+  }
+
+  const countryCode = mostCommon(countries) || '';
+  return {
+    id: `import-${Date.now()}`,
+    name: baseName(fileName),
+    city: mostCommon(cities) || '',
+    country: countryCode,
+    countryCode,
+    entries
+  };
+};
+
+const KINDS = Object.keys(GAZETTEER_KIND_LABELS) as GazetteerKind[];
+
+// Columns: name, lat, lng (or lon), and optionally kind, district, alt_names ("|" separated)
+const parseCsvGazetteer = (fileName: string, text: string): Gazetteer => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The CSV file is empty');
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const nameCol = col('name');
+  const latCol = col('lat', 'latitude');
+  const lngCol = col('lng', 'lon', 'long', 'longitude');
+  const kindCol = col('kind', 'type');
+  const districtCol = col('district');
+  const altCol = col('alt_names', 'altnames');
+  if (nameCol === -1 || latCol === -1 || lngCol === -1) {
+    throw new Error('The CSV needs name, lat and lng columns');
+  }
+
+  const entries = rows.flatMap((row): GazetteerEntry[] => {
+    const lat = parseFloat(row[latCol]);
+    const lng = parseFloat(row[lngCol]);
+    const name = row[nameCol]?.trim();
+    if (!name || isNaN(lat) || isNaN(lng)) return [];
+    const kind = row[kindCol]?.trim().toLowerCase() as GazetteerKind;
+    const altNames = altCol === -1 ? [] : (row[altCol] || '').split('|').map(s => s.trim()).filter(Boolean);
+    return [{
+      name,
+      altNames: altNames.length > 0 ? altNames : undefined,
+      kind: KINDS.includes(kind) ? kind : 'landmark',
+      lat,
+      lng,
+      district: districtCol === -1 ? undefined : row[districtCol]?.trim() || undefined
+    }];
+  });
+
+  return { id: `import-${Date.now()}`, name: baseName(fileName), city: '', country: '', countryCode: '', entries };
+};
+
+export const parseGazetteerFile = (fileName: string, text: string): Gazetteer => {
+  const gazetteer = /\.csv$/i.test(fileName)
+    ? parseCsvGazetteer(fileName, text)
+    : parseGeoJsonGazetteer(fileName, text);
+  if (gazetteer.entries.length === 0) {
+    throw new Error('No named places found in this file');
+  }
+  return gazetteer;
+};
@@ -0,0 +1,18 @@
+import { GeoJson, GeoJsonFeature } from '../types';
+
+// The features of a FeatureCollection, a single Feature, a bare geometry or a
+// plain array of features, as the various GIS exports write them
+export const readGeoJsonFeatures = (text: string): GeoJsonFeature[] => {
+  const data: GeoJson | GeoJsonFeature[] | null = JSON.parse(text);
+  if (Array.isArray(data)) return data.filter(feature => feature && typeof feature === 'object');
+  if (!data || typeof data !== 'object') return [];
+  if (data.type === 'FeatureCollection') return Array.isArray(data.features) ? data.features.filter(Boolean) : [];
+  if (data.type === 'Feature') return [data];
+  return [{ type: 'Feature', geometry: data, properties: null }];
+};
+
+// The first of the named properties holding non-blank text
+export const textProperty = (feature: GeoJsonFeature, ...names: string[]): string | undefined => {
+  const value = names.map(name => feature.properties?.[name]).find(v => typeof v === 'string' && v.trim());
+  return typeof value === 'string' ? value : undefined;
+};
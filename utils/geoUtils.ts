@@ -1,15 +1,34 @@
 import piexif from 'piexifjs';
-import { GPSData, ExifMetadata } from '../types';
+import { GPSData, GpsWriteOptions, ExifMetadata, ExifIfd, ExifIfdName, ExifObject, ExifPatchEntry, ExifValue, PatchableIfdName, ScrubCategory, ScrubTarget, ExifTagEntry, ExifTagEdits, WritableTagName } from '../types';
 
-// Convert Decimal to DMS (Degrees, Minutes, Seconds) for EXIF
-export const decimalToDms = (decimal: number): number[][] => {
-  const absolute = Math.abs(decimal);
-  const degrees = Math.floor(absolute);
-  const minutesNotTruncated = (absolute - degrees) * 60;
-  const minutes = Math.floor(minutesNotTruncated);
-  const seconds = Math.round((minutesNotTruncated - minutes) * 60 * 10000); // 4 decimal places precision
+// piexifjs predates EXIF 2.31: without these entries it drops the UTC offset
+// tags when loading and refuses to write them
+export const OffsetTimeTags = {
+  OffsetTime: 0x9010,
+  OffsetTimeOriginal: 0x9011,
+  OffsetTimeDigitized: 0x9012,
+};
 
-  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+// Adds them to piexif's tag table, which every importer shares. Each entry
+// point (the app, the EXIF worker, the CLI) calls this once before reading files.
+export const registerExifTags = () => {
+  Object.entries(OffsetTimeTags).forEach(([name, tag]) => {
+    piexif.TAGS.Exif[tag] = { name, type: 'Ascii' };
+  });
+};
+
+// Convert Decimal to DMS (Degrees, Minutes, Seconds) for EXIF.
+// resolutionSeconds is 0.0001 or coarser: 1 writes whole seconds, 60 whole minutes.
+export const decimalToDms = (decimal: number, resolutionSeconds = 0.0001): number[][] => {
+  const denominator = resolutionSeconds < 1 ? Math.round(1 / resolutionSeconds) : 1;
+  const step = resolutionSeconds < 1 ? 1 : Math.round(resolutionSeconds);
+  // Rounded once in the resolution, so 59.99999" carries into the minute instead of becoming 60"
+  const total = Math.round(Math.abs(decimal) * 3600 * denominator / step) * step;
+  const degrees = Math.floor(total / (3600 * denominator));
+  const minutes = Math.floor((total % (3600 * denominator)) / (60 * denominator));
+  const seconds = total % (60 * denominator);
+
+  return [[degrees, 1], [minutes, 1], [seconds, denominator]];
 };
 
 // Convert DMS to Decimal
@@ -29,13 +48,33 @@ export const dmsToDecimal = (dms: number[][], ref: string): number => {
   return decimal;
 };
 
-export const parseExifData = (base64: string): ExifMetadata => {
-  let exifObj;
+// EXIF dates look like "2024:05:17 14:03:22" and carry no zone, so the caller
+// has to say which UTC offset the camera clock was set to.
+export const exifDateToTimestamp = (exifDate: string, utcOffsetMinutes = 0): number | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(exifDate.trim());
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, s) - utcOffsetMinutes * 60 * 1000;
+};
+
+// piexif keeps Ascii and Undefined values as strings, one rational as [n, d]
+// and several as [[n, d], ...]
+const asText = (value: ExifValue | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const isRationalList = (value: ExifValue | undefined): value is number[][] =>
+  Array.isArray(value) && value.every(item => Array.isArray(item));
+
+// Accepts a JPEG data URL, or "Exif\0\0" followed by a TIFF structure as a
+// binary string (what formatUtils extracts from PNG, WebP, HEIC and TIFF)
+export const parseExifData = (data: string): ExifMetadata => {
+  let exifObj: ExifObject;
   try {
-    exifObj = piexif.load(base64);
+    exifObj = piexif.load(data);
   } catch (e) {
     console.error("Failed to parse EXIF", e);
-    return { rawExifObj: {} };
+    return { rawExifObj: {}, exifError: e instanceof Error ? e.message : String(e) };
   }
 
   const result: ExifMetadata = {
@@ -45,15 +84,18 @@ export const parseExifData = (base64: string): ExifMetadata => {
   // 0th IFD
   const zeroIfd = exifObj['0th'];
   if (zeroIfd) {
-    if (zeroIfd[piexif.ImageIFD.Make]) result.make = zeroIfd[piexif.ImageIFD.Make];
-    if (zeroIfd[piexif.ImageIFD.Model]) result.model = zeroIfd[piexif.ImageIFD.Model];
+    if (zeroIfd[piexif.ImageIFD.Make]) result.make = asText(zeroIfd[piexif.ImageIFD.Make]);
+    if (zeroIfd[piexif.ImageIFD.Model]) result.model = asText(zeroIfd[piexif.ImageIFD.Model]);
   }
 
   // Exif IFD
   const exifIfd = exifObj['Exif'];
   if (exifIfd) {
     if (exifIfd[piexif.ExifIFD.DateTimeOriginal]) {
-      result.dateTimeOriginal = exifIfd[piexif.ExifIFD.DateTimeOriginal];
+      result.dateTimeOriginal = asText(exifIfd[piexif.ExifIFD.DateTimeOriginal]);
+    }
+    if (exifIfd[OffsetTimeTags.OffsetTimeOriginal]) {
+      result.offsetTimeOriginal = String(exifIfd[OffsetTimeTags.OffsetTimeOriginal]).replace(/\0+$/, '').trim();
     }
   }
 
@@ -61,26 +103,28 @@ export const parseExifData = (base64: string): ExifMetadata => {
   const gpsIfd = exifObj['GPS'];
   if (gpsIfd) {
     const lat = gpsIfd[piexif.GPSIFD.GPSLatitude];
-    const latRef = gpsIfd[piexif.GPSIFD.GPSLatitudeRef];
+    const latRef = asText(gpsIfd[piexif.GPSIFD.GPSLatitudeRef]);
     const lng = gpsIfd[piexif.GPSIFD.GPSLongitude];
-    const lngRef = gpsIfd[piexif.GPSIFD.GPSLongitudeRef];
+    const lngRef = asText(gpsIfd[piexif.GPSIFD.GPSLongitudeRef]);
     const alt = gpsIfd[piexif.GPSIFD.GPSAltitude];
     const altRef = gpsIfd[piexif.GPSIFD.GPSAltitudeRef] || 0; // 0 = Above sea level
 
-    if (lat && latRef && lng && lngRef) {
+    if (isRationalList(lat) && latRef && isRationalList(lng) && lngRef) {
       const finalLat = dmsToDecimal(lat, latRef);
       const finalLng = dmsToDecimal(lng, lngRef);
       let finalAlt = 0;
       
-      if (alt) {
-        finalAlt = alt[0] / alt[1];
+      const [altNum, altDen] = Array.isArray(alt) ? alt : [];
+      if (typeof altNum === 'number' && typeof altDen === 'number') {
+        finalAlt = altNum / altDen;
         if (altRef === 1) finalAlt = -finalAlt; // Below sea level
       }
 
       result.gps = {
         lat: finalLat,
         lng: finalLng,
-        altitude: finalAlt
+        altitude: finalAlt,
+        ...parseGpsExtras(gpsIfd)
       };
     }
   }
@@ -88,40 +132,435 @@ export const parseExifData = (base64: string): ExifMetadata => {
   return result;
 };
 
-export const embedExifData = (originalBase64: string, metadata: ExifMetadata, newGps: GPSData): string => {
-  const exifObj = metadata.rawExifObj || { "0th": {}, "Exif": {}, "GPS": {}, "1st": {}, "thumbnail": null };
+const rationalToNumber = (value: ExifValue | undefined): number | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const [num, den] = value;
+  return typeof num === 'number' && typeof den === 'number' && den ? num / den : undefined;
+};
+
+const SPEED_TO_KMH: Record<string, number> = { K: 1, M: 1.609344, N: 1.852 };
+
+// Optional GPS IFD fields beyond the position itself
+const parseGpsExtras = (gpsIfd: ExifIfd): Partial<GPSData> => {
+  const extras: Partial<GPSData> = {};
+
+  const heading = rationalToNumber(gpsIfd[piexif.GPSIFD.GPSImgDirection]);
+  if (heading !== undefined) {
+    extras.heading = heading;
+    extras.headingRef = gpsIfd[piexif.GPSIFD.GPSImgDirectionRef] === 'M' ? 'M' : 'T';
+  }
+
+  const speed = rationalToNumber(gpsIfd[piexif.GPSIFD.GPSSpeed]);
+  if (speed !== undefined) {
+    extras.speed = speed * (SPEED_TO_KMH[asText(gpsIfd[piexif.GPSIFD.GPSSpeedRef]) || 'K'] || 1);
+  }
+
+  const dateStamp = gpsIfd[piexif.GPSIFD.GPSDateStamp];
+  const timeStamp = gpsIfd[piexif.GPSIFD.GPSTimeStamp];
+  if (typeof dateStamp === 'string' && isRationalList(timeStamp) && timeStamp.length === 3) {
+    const [y, mo, d] = dateStamp.split(':').map(Number);
+    const [h, mi, sec] = timeStamp.map(rationalToNumber).map(v => v || 0);
+    const instant = Date.UTC(y, mo - 1, d, h, mi, 0) + Math.round(sec * 1000);
+    if (!isNaN(instant)) extras.timestamp = new Date(instant).toISOString();
+  }
+
+  const datum = gpsIfd[piexif.GPSIFD.GPSMapDatum];
+  if (datum) extras.mapDatum = String(datum).trim();
+
+  const error = rationalToNumber(gpsIfd[piexif.GPSIFD.GPSHPositioningError]);
+  if (error !== undefined) extras.positioningError = error;
+
+  const method = asText(gpsIfd[piexif.GPSIFD.GPSProcessingMethod]);
+  if (method) extras.processingMethod = decodeExifText(method);
+
+  const destBearing = rationalToNumber(gpsIfd[piexif.GPSIFD.GPSDestBearing]);
+  if (destBearing !== undefined) {
+    extras.destBearing = destBearing;
+    extras.destBearingRef = gpsIfd[piexif.GPSIFD.GPSDestBearingRef] === 'M' ? 'M' : 'T';
+  }
+
+  return extras;
+};
+
+const toRational = (value: number, precision = 100): number[] => [Math.round(Math.abs(value) * precision), precision];
+
+const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// Fields left undefined are not touched, so existing tags survive a relocation
+const writeGpsExtras = (gpsIfd: ExifIfd, gps: GPSData) => {
+  if (gps.heading !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSImgDirection] = toRational(normalizeDegrees(gps.heading));
+    gpsIfd[piexif.GPSIFD.GPSImgDirectionRef] = gps.headingRef || 'T';
+  }
+  if (gps.speed !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSSpeed] = toRational(gps.speed);
+    gpsIfd[piexif.GPSIFD.GPSSpeedRef] = 'K';
+  }
+  if (gps.timestamp !== undefined) {
+    const date = new Date(gps.timestamp);
+    if (!isNaN(date.getTime())) {
+      const pad = (n: number) => String(n).padStart(2, '0');
+      gpsIfd[piexif.GPSIFD.GPSDateStamp] = `${date.getUTCFullYear()}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())}`;
+      gpsIfd[piexif.GPSIFD.GPSTimeStamp] = [
+        [date.getUTCHours(), 1],
+        [date.getUTCMinutes(), 1],
+        [date.getUTCSeconds() * 1000 + date.getUTCMilliseconds(), 1000]
+      ];
+    }
+  }
+  if (gps.mapDatum !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSMapDatum] = gps.mapDatum;
+  }
+  if (gps.positioningError !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSHPositioningError] = toRational(gps.positioningError);
+  }
+  if (gps.processingMethod !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSProcessingMethod] = encodeExifText(gps.processingMethod);
+  }
+  if (gps.destBearing !== undefined) {
+    gpsIfd[piexif.GPSIFD.GPSDestBearing] = toRational(normalizeDegrees(gps.destBearing));
+    gpsIfd[piexif.GPSIFD.GPSDestBearingRef] = gps.destBearingRef || 'T';
+  }
+};
+
+// 0,0 is what cameras without a fix write, but a point on the equator or the
+// prime meridian alone is a real place
+export const hasUsableGps = (gps?: GPSData): gps is GPSData => {
+  return !!gps
+    && isFinite(gps.lat) && isFinite(gps.lng)
+    && Math.abs(gps.lat) <= 90 && Math.abs(gps.lng) <= 180
+    && !(gps.lat === 0 && gps.lng === 0);
+};
+
+// Initial great-circle bearing from one point to another, degrees from north
+export const calculateBearing = (from: GPSData, to: GPSData): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLng = toRad(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(to.lat));
+  const x = Math.cos(toRad(from.lat)) * Math.sin(toRad(to.lat))
+    - Math.sin(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.cos(dLng);
+  return normalizeDegrees(Math.atan2(y, x) * 180 / Math.PI);
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const toCompassPoint = (bearing: number): string =>
+  COMPASS_POINTS[Math.round(normalizeDegrees(bearing) / 45) % COMPASS_POINTS.length];
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// Haversine distance, accurate to well under a meter at photo scales
+export const distanceMeters = (from: GPSData, to: GPSData): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${meters.toFixed(1)} m` : `${(meters / 1000).toFixed(2)} km`;
+
+// Even-odd ray casting over GeoJSON polygon rings ([lng, lat]), so holes after
+// the outline are excluded. Treats the degrees as planar, fine at border scales.
+export const isPointInPolygon = (gps: GPSData, polygon: number[][][]): boolean => {
+  let inside = false;
+  for (const ring of polygon) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > gps.lat) !== (yj > gps.lat) && gps.lng < (xj - xi) * (gps.lat - yi) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+// Returns a copy of the piexif object with the edits applied; the loaded metadata is never mutated
+export const applyExifEdits = (metadata: ExifMetadata, newGps?: GPSData, tagEdits?: ExifTagEdits, gpsOptions: GpsWriteOptions = {}): ExifObject => {
+  const exifObj: ExifObject = JSON.parse(JSON.stringify(metadata.rawExifObj || { "0th": {}, "Exif": {}, "GPS": {}, "1st": {}, "thumbnail": null }));
   
-  if (!exifObj["GPS"]) {
+  if (!exifObj["GPS"] || (newGps && gpsOptions.replaceGpsIfd)) {
     exifObj["GPS"] = {};
   }
+  const gpsIfd = exifObj["GPS"];
+
+  if (newGps) {
+    const latDms = decimalToDms(newGps.lat, gpsOptions.dmsResolutionSeconds);
+    const lngDms = decimalToDms(newGps.lng, gpsOptions.dmsResolutionSeconds);
+    const latRef = newGps.lat >= 0 ? 'N' : 'S';
+    const lngRef = newGps.lng >= 0 ? 'E' : 'W';
+
+    gpsIfd[piexif.GPSIFD.GPSLatitude] = latDms;
+    gpsIfd[piexif.GPSIFD.GPSLatitudeRef] = latRef;
+    gpsIfd[piexif.GPSIFD.GPSLongitude] = lngDms;
+    gpsIfd[piexif.GPSIFD.GPSLongitudeRef] = lngRef;
+
+    if (newGps.altitude !== undefined) {
+      const alt = Math.abs(newGps.altitude);
+      const altRef = newGps.altitude < 0 ? 1 : 0;
+      // Altitude is Rational, e.g., 1205/10
+      const altRational = [Math.round(alt * 100), 100];
+      
+      gpsIfd[piexif.GPSIFD.GPSAltitude] = altRational;
+      gpsIfd[piexif.GPSIFD.GPSAltitudeRef] = altRef;
+    }
+
+    writeGpsExtras(gpsIfd, newGps);
+
+    // Add a version tag if missing (required for some readers)
+    if (!gpsIfd[piexif.GPSIFD.GPSVersionID]) {
+      gpsIfd[piexif.GPSIFD.GPSVersionID] = [2, 2, 0, 0];
+    }
+  }
+
+  if (tagEdits) {
+    applyTagEdits(exifObj, tagEdits);
+  }
+
+  return exifObj;
+};
+
+// Serialises the metadata with the given edits applied, as "Exif\0\0" + TIFF.
+// This re-lays out every IFD, so it is only used where nothing has to survive untouched.
+export const buildExifBytes = (metadata: ExifMetadata, newGps?: GPSData, tagEdits?: ExifTagEdits, gpsOptions?: GpsWriteOptions): string => {
+  return piexif.dump(applyExifEdits(metadata, newGps, tagEdits, gpsOptions));
+};
+
+// piexif names IFD tags by table: both 0th and 1st use the "Image" table
+const TAG_TABLES: Record<ExifIfdName, string> = {
+  '0th': 'Image',
+  'Exif': 'Exif',
+  'GPS': 'GPS',
+  'Interop': 'Interop',
+  '1st': 'Image',
+};
+
+export const getTagName = (ifd: ExifIfdName, tag: number): string => {
+  return piexif.TAGS[TAG_TABLES[ifd]]?.[tag]?.name || `Unknown (0x${tag.toString(16).padStart(4, '0')})`;
+};
+
+// piexif's type name for the tag ("Rational", "Ascii", ...), undefined for unknown tags
+export const getTagType = (ifd: ExifIfdName, tag: number): string | undefined => {
+  return piexif.TAGS[TAG_TABLES[ifd]]?.[tag]?.type;
+};
+
+const PATCHABLE_IFDS: PatchableIfdName[] = ['0th', 'Exif', 'GPS'];
+
+// Offsets to sub-IFDs belong to the file layout, the writer sets them itself
+const POINTER_TAGS = new Set<number>([piexif.ImageIFD.ExifTag, piexif.ImageIFD.GPSTag, piexif.ExifIFD.InteroperabilityTag]);
+
+// The tags that differ between two piexif objects, for writing only what was edited
+export const diffExifObjects = (original: ExifObject | undefined, edited: ExifObject): ExifPatchEntry[] => {
+  const entries: ExifPatchEntry[] = [];
+  for (const ifd of PATCHABLE_IFDS) {
+    const before: ExifIfd = original?.[ifd] || {};
+    const after: ExifIfd = edited[ifd] || {};
+    const tags = new Set([...Object.keys(before), ...Object.keys(after)].map(Number));
+    for (const tag of tags) {
+      if (POINTER_TAGS.has(tag) || JSON.stringify(before[tag]) === JSON.stringify(after[tag])) continue;
+      const type = getTagType(ifd, tag);
+      if (!type) throw new Error(`Cannot write unknown EXIF tag ${getTagName(ifd, tag)}`);
+      entries.push({ ifd, tag, type, value: after[tag] === undefined ? null : after[tag] });
+    }
+  }
+  return entries;
+};
+
+// Individual identifying tags. GPS and thumbnail are handled as whole blocks.
+const SCRUB_TAGS: { category: ScrubCategory, ifd: ExifIfdName, tag: number }[] = [
+  { category: 'serials', ifd: '0th', tag: piexif.ImageIFD.CameraSerialNumber },
+  { category: 'serials', ifd: 'Exif', tag: piexif.ExifIFD.BodySerialNumber },
+  { category: 'serials', ifd: 'Exif', tag: piexif.ExifIFD.LensSerialNumber },
+  { category: 'serials', ifd: 'Exif', tag: piexif.ExifIFD.ImageUniqueID },
+  { category: 'owner', ifd: '0th', tag: piexif.ImageIFD.Artist },
+  { category: 'owner', ifd: '0th', tag: piexif.ImageIFD.HostComputer },
+  { category: 'owner', ifd: 'Exif', tag: piexif.ExifIFD.CameraOwnerName },
+  { category: 'makerNote', ifd: 'Exif', tag: piexif.ExifIFD.MakerNote },
+  { category: 'device', ifd: '0th', tag: piexif.ImageIFD.Make },
+  { category: 'device', ifd: '0th', tag: piexif.ImageIFD.Model },
+  { category: 'device', ifd: 'Exif', tag: piexif.ExifIFD.LensMake },
+  { category: 'device', ifd: 'Exif', tag: piexif.ExifIFD.LensModel },
+];
+
+const hasTag = (exifObj: ExifObject | undefined, ifd: ExifIfdName, tag: number) => {
+  return exifObj?.[ifd]?.[tag] !== undefined;
+};
+
+// Lists exactly the tags that a scrub with these categories would remove
+export const planScrub = (exifObj: ExifObject | undefined, categories: ScrubCategory[]): ScrubTarget[] => {
+  const targets: ScrubTarget[] = [];
+  if (!exifObj) return targets;
+
+  if (categories.includes('gps') && exifObj['GPS']) {
+    for (const key of Object.keys(exifObj['GPS'])) {
+      const tag = Number(key);
+      targets.push({ ifd: 'GPS', tag, name: getTagName('GPS', tag), category: 'gps' });
+    }
+  }
+
+  for (const entry of SCRUB_TAGS) {
+    if (categories.includes(entry.category) && hasTag(exifObj, entry.ifd, entry.tag)) {
+      targets.push({ ...entry, name: getTagName(entry.ifd, entry.tag) });
+    }
+  }
+
+  if (categories.includes('thumbnail')) {
+    if (exifObj['thumbnail']) {
+      targets.push({ ifd: 'thumbnail', tag: 0, name: 'Embedded thumbnail image', category: 'thumbnail' });
+    }
+    for (const key of Object.keys(exifObj['1st'] || {})) {
+      const tag = Number(key);
+      targets.push({ ifd: '1st', tag, name: getTagName('1st', tag), category: 'thumbnail' });
+    }
+  }
+
+  return targets;
+};
+
+// Returns the scrubbed EXIF as "Exif\0\0" + TIFF, ready to be written to any container
+export const scrubExifData = (metadata: ExifMetadata, targets: ScrubTarget[]): string => {
+  // Work on a copy so the loaded image keeps its original metadata
+  const exifObj: ExifObject = JSON.parse(JSON.stringify(metadata.rawExifObj || {}));
+
+  for (const target of targets) {
+    if (target.ifd === 'thumbnail') {
+      exifObj['thumbnail'] = null;
+      exifObj['1st'] = {};
+    } else {
+      delete exifObj[target.ifd]?.[target.tag];
+    }
+  }
 
-  const latDms = decimalToDms(newGps.lat);
-  const lngDms = decimalToDms(newGps.lng);
-  const latRef = newGps.lat >= 0 ? 'N' : 'S';
-  const lngRef = newGps.lng >= 0 ? 'E' : 'W';
+  return piexif.dump(exifObj);
+};
 
-  exifObj["GPS"][piexif.GPSIFD.GPSLatitude] = latDms;
-  exifObj["GPS"][piexif.GPSIFD.GPSLatitudeRef] = latRef;
-  exifObj["GPS"][piexif.GPSIFD.GPSLongitude] = lngDms;
-  exifObj["GPS"][piexif.GPSIFD.GPSLongitudeRef] = lngRef;
+// Given the EXIF re-read from the written file, report every target that survived
+export const verifyScrub = (exifObj: ExifObject | undefined, targets: ScrubTarget[]): ScrubTarget[] => {
+  return targets.filter(target => (
+    target.ifd === 'thumbnail'
+      ? !!exifObj?.['thumbnail']
+      : hasTag(exifObj, target.ifd, target.tag)
+  ));
+};
 
-  if (newGps.altitude !== undefined) {
-    const alt = Math.abs(newGps.altitude);
-    const altRef = newGps.altitude < 0 ? 1 : 0;
-    // Altitude is Rational, e.g., 1205/10
-    const altRational = [Math.round(alt * 100), 100];
-    
-    exifObj["GPS"][piexif.GPSIFD.GPSAltitude] = altRational;
-    exifObj["GPS"][piexif.GPSIFD.GPSAltitudeRef] = altRef;
+// Tags the inspector lets users edit, and where they live
+export const WRITABLE_TAGS: Record<WritableTagName, { ifd: ExifIfdName, tag: number }> = {
+  DateTimeOriginal: { ifd: 'Exif', tag: piexif.ExifIFD.DateTimeOriginal },
+  DateTimeDigitized: { ifd: 'Exif', tag: piexif.ExifIFD.DateTimeDigitized },
+  DateTime: { ifd: '0th', tag: piexif.ImageIFD.DateTime },
+  OffsetTimeOriginal: { ifd: 'Exif', tag: OffsetTimeTags.OffsetTimeOriginal },
+  OffsetTimeDigitized: { ifd: 'Exif', tag: OffsetTimeTags.OffsetTimeDigitized },
+  OffsetTime: { ifd: 'Exif', tag: OffsetTimeTags.OffsetTime },
+  Artist: { ifd: '0th', tag: piexif.ImageIFD.Artist },
+  Copyright: { ifd: '0th', tag: piexif.ImageIFD.Copyright },
+  ImageDescription: { ifd: '0th', tag: piexif.ImageIFD.ImageDescription },
+  Orientation: { ifd: '0th', tag: piexif.ImageIFD.Orientation },
+  UserComment: { ifd: 'Exif', tag: piexif.ExifIFD.UserComment },
+};
+
+// UserComment and GPSProcessingMethod are Undefined bytes starting with an 8 byte
+// character code. piexif always writes big-endian TIFF, so UNICODE is UTF-16BE.
+export const encodeExifText = (text: string): string => {
+  if (/^[\x00-\x7f]*$/.test(text)) {
+    return 'ASCII\0\0\0' + text;
+  }
+  let body = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    body += String.fromCharCode(code >> 8, code & 0xff);
   }
+  return 'UNICODE\0' + body;
+};
+
+export const decodeExifText = (raw: string): string => {
+  const prefix = raw.slice(0, 8);
+  const body = raw.slice(8);
+  if (prefix.startsWith('UNICODE')) {
+    let text = '';
+    for (let i = 0; i + 1 < body.length; i += 2) {
+      text += String.fromCharCode((body.charCodeAt(i) << 8) | body.charCodeAt(i + 1));
+    }
+    return text.replace(/\0+$/, '');
+  }
+  return body.replace(/\0+$/, '').trim();
+};
+
+const applyTagEdits = (exifObj: ExifObject, edits: ExifTagEdits) => {
+  for (const [name, value] of Object.entries(edits) as [WritableTagName, string | number][]) {
+    const { ifd, tag } = WRITABLE_TAGS[name];
+    const tags = exifObj[ifd] || (exifObj[ifd] = {});
+
+    // An emptied field removes the tag instead of writing an empty string
+    if (value === '' || value === undefined) {
+      delete tags[tag];
+    } else if (name === 'Orientation') {
+      tags[tag] = Number(value);
+    } else if (name === 'UserComment') {
+      tags[tag] = encodeExifText(String(value));
+    } else {
+      tags[tag] = String(value);
+    }
+  }
+};
 
-  // Add a version tag if missing (required for some readers)
-  if (!exifObj["GPS"][piexif.GPSIFD.GPSVersionID]) {
-    exifObj["GPS"][piexif.GPSIFD.GPSVersionID] = [2, 2, 0, 0];
+export const readWritableTags = (exifObj: ExifObject | undefined): ExifTagEdits => {
+  const values: ExifTagEdits = {};
+  for (const [name, { ifd, tag }] of Object.entries(WRITABLE_TAGS) as [WritableTagName, { ifd: ExifIfdName, tag: number }][]) {
+    const raw = exifObj?.[ifd]?.[tag];
+    if (typeof raw === 'string') {
+      values[name] = name === 'UserComment' ? decodeExifText(raw) : raw;
+    } else if (typeof raw === 'number') {
+      values[name] = raw;
+    }
+  }
+  return values;
+};
+
+const formatRational = ([num, den]: number[]) => {
+  if (den === 0) return `${num}/0 (invalid)`;
+  return den === 1 ? `${num}` : `${num}/${den} (${Number((num / den).toFixed(6))})`;
+};
+
+const isPrintable = (text: string) => /^[\x20-\x7e]*$/.test(text);
+
+const formatTagValue = (name: string, type: string, value: ExifValue): string => {
+  if ((name === 'UserComment' || name === 'GPSProcessingMethod') && typeof value === 'string') {
+    return decodeExifText(value);
+  }
+  if (typeof value === 'string') {
+    const text = value.replace(/\0+$/, '');
+    if (type === 'Ascii' || isPrintable(text)) return text;
+    return `<${value.length} bytes>`;
+  }
+  if ((type === 'Rational' || type === 'SRational') && Array.isArray(value)) {
+    return isRationalList(value) ? value.map(formatRational).join(', ') : formatRational(value);
+  }
+  if (Array.isArray(value)) {
+    return value.length > 16 ? `${value.slice(0, 16).join(', ')}, … (${value.length} values)` : value.join(', ');
+  }
+  return String(value);
+};
+
+// Flattens the piexif object into one typed entry per tag, in IFD order
+export const describeExifTags = (exifObj: ExifObject | undefined): ExifTagEntry[] => {
+  const entries: ExifTagEntry[] = [];
+  if (!exifObj) return entries;
+
+  for (const ifd of ['0th', 'Exif', 'GPS', 'Interop', '1st'] as ExifIfdName[]) {
+    const tags = exifObj[ifd];
+    if (!tags) continue;
+
+    const ids = Object.keys(tags).map(Number).filter(tag => !isNaN(tag)).sort((a, b) => a - b);
+    for (const tag of ids) {
+      const info = piexif.TAGS[TAG_TABLES[ifd]]?.[tag];
+      const name = info?.name || getTagName(ifd, tag);
+      const type = info?.type || 'Unknown';
+      entries.push({ ifd, tag, name, type, value: tags[tag], display: formatTagValue(name, type, tags[tag]) });
+    }
   }
 
-  const exifBytes = piexif.dump(exifObj);
-  // piexif.insert works on JPEG strings
-  const newJpeg = piexif.insert(exifBytes, originalBase64);
-  return newJpeg;
+  return entries;
 };
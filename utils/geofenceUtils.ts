@@ -0,0 +1,184 @@
+import { GeofenceArea, GeofenceMode, GeofenceSettings, GeofenceStatus, GPSData } from '../types';
+import { readGeoJsonFeatures, textProperty } from './geoJsonUtils';
+import { hasUsableGps, isPointInPolygon } from './geoUtils';
+import { readSetting, writeSetting } from './settingsUtils';
+
+// Project boundaries photos have to be located in. Areas keep GeoJSON polygon
+// coordinates, so imported files and areas drawn on the map are handled alike.
+
+export const GEOFENCE_EXTENSIONS = ['.geojson', '.json', '.kml'];
+
+// Beyond this the map would drown in vertex handles; such areas are edited in a GIS
+export const EDITABLE_VERTEX_LIMIT = 500;
+
+const DEFAULT_SETTINGS: GeofenceSettings = { activeId: null, mode: 'warn' };
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && isFinite(n))
+  && Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+
+// A ring needs three corners plus the closing one
+const isRing = (value: unknown): value is number[][] =>
+  Array.isArray(value) && value.length >= 4 && value.every(isPosition);
+
+const isPolygon = (value: unknown): value is number[][][] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRing);
+
+// Accepts hand-edited or older settings: bad polygons are dropped, ids are optional
+const toArea = (raw: unknown): GeofenceArea | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, name, polygons }: { id?: unknown; name?: unknown; polygons?: unknown } = raw;
+  if (typeof name !== 'string' || !Array.isArray(polygons)) return null;
+  const valid = polygons.filter(isPolygon);
+  if (valid.length === 0) return null;
+  return {
+    id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+    name: name.trim() || 'Unnamed area',
+    polygons: valid
+  };
+};
+
+export const loadGeofences = (): GeofenceArea[] => {
+  const stored = readSetting<unknown>('geofences', []);
+  return Array.isArray(stored) ? stored.map(toArea).filter((a): a is GeofenceArea => a !== null) : [];
+};
+
+export const saveGeofences = (areas: GeofenceArea[]) => writeSetting('geofences', areas);
+
+export const loadGeofenceSettings = (): GeofenceSettings => ({ ...DEFAULT_SETTINGS, ...readSetting<Partial<GeofenceSettings>>('geofence', {}) });
+
+export const saveGeofenceSettings = (settings: GeofenceSettings) => writeSetting('geofence', settings);
+
+export const isGeofenceFile = (file: File) => GEOFENCE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+export const isInsideArea = (area: GeofenceArea, gps: GPSData): boolean =>
+  area.polygons.some(polygon => isPointInPolygon(gps, polygon));
+
+// Shortest distance from the point to any ring edge. Each edge is measured on a
+// flat projection around the point, good to well under a percent within a few km.
+export const distanceToEdgeMeters = (area: GeofenceArea, gps: GPSData): number => {
+  const metersPerDegree = 111320;
+  const xScale = Math.cos(gps.lat * Math.PI / 180) * metersPerDegree;
+  const project = ([lng, lat]: number[]) => [(lng - gps.lng) * xScale, (lat - gps.lat) * metersPerDegree];
+
+  let nearest = Infinity;
+  for (const ring of area.polygons.flat()) {
+    for (let i = 1; i < ring.length; i++) {
+      const [ax, ay] = project(ring[i - 1]);
+      const [bx, by] = project(ring[i]);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+      nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  }
+  return nearest;
+};
+
+// null when no area is active or the photo has no location to check
+export const getGeofenceStatus = (area: GeofenceArea | undefined, mode: GeofenceMode, gps: GPSData | undefined): GeofenceStatus | null => {
+  if (!area || !hasUsableGps(gps)) return null;
+  const inside = isInsideArea(area, gps);
+  return {
+    area,
+    inside,
+    distanceMeters: inside ? 0 : distanceToEdgeMeters(area, gps),
+    blocked: !inside && mode === 'block'
+  };
+};
+
+export const countVertices = (area: GeofenceArea): number =>
+  area.polygons.reduce((sum, polygon) => sum + polygon.reduce((n, ring) => n + Math.max(0, ring.length - 1), 0), 0);
+
+// GeoJSON rings repeat the first corner at the end; the map works with the open form
+export const openRing = (ring: number[][]): number[][] => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+export const closeRing = (ring: number[][]): number[][] => [...ring, ring[0]];
+
+// Copy of the area with one ring's corners replaced, given in open form
+export const withRing = (area: GeofenceArea, polygonIndex: number, ringIndex: number, corners: number[][]): GeofenceArea => ({
+  ...area,
+  polygons: area.polygons.map((polygon, p) => p !== polygonIndex ? polygon
+    : polygon.map((ring, r) => r !== ringIndex ? ring : closeRing(corners)))
+});
+
+// An area from corners clicked on the map, [lng, lat] each
+export const areaFromCorners = (name: string, corners: number[][]): GeofenceArea => ({
+  id: crypto.randomUUID(),
+  name,
+  polygons: [[closeRing(corners)]]
+});
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Features with polygon geometry, each its own area named after its name property
+const parseGeoJson = (fileName: string, text: string): GeofenceArea[] => {
+  const features = readGeoJsonFeatures(text);
+
+  const areas: GeofenceArea[] = [];
+  features.forEach((feature, index) => {
+    const geometry = feature.geometry;
+    const polygons = geometry?.type === 'Polygon' ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' ? geometry.coordinates
+      : [];
+    const name = textProperty(feature, 'name', 'Name', 'NAME', 'title');
+    const area = toArea({ name: name || (features.length > 1 ? `${baseName(fileName)} ${index + 1}` : baseName(fileName)), polygons });
+    if (area) areas.push(area);
+  });
+  return areas;
+};
+
+const parseKmlRing = (boundary: Element | undefined): number[][] | null => {
+  const text = boundary?.getElementsByTagNameNS('*', 'coordinates')[0]?.textContent || '';
+  const ring = text.trim().split(/\s+/).map(tuple => tuple.split(',').slice(0, 2).map(Number));
+  return isRing(ring) ? ring : null;
+};
+
+// Placemarks with Polygon geometry, MultiGeometry included
+const parseKmlAreas = (fileName: string, text: string): GeofenceArea[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Boundary file is not valid XML');
+  }
+
+  const areas: GeofenceArea[] = [];
+  const placemarks = Array.from(doc.getElementsByTagNameNS('*', 'Placemark'));
+  placemarks.forEach((placemark, index) => {
+    const polygons: number[][][][] = [];
+    for (const polygon of Array.from(placemark.getElementsByTagNameNS('*', 'Polygon'))) {
+      const outline = parseKmlRing(polygon.getElementsByTagNameNS('*', 'outerBoundaryIs')[0]);
+      if (!outline) continue;
+      const holes = Array.from(polygon.getElementsByTagNameNS('*', 'innerBoundaryIs'))
+        .map(parseKmlRing)
+        .filter((ring): ring is number[][] => ring !== null);
+      polygons.push([outline, ...holes]);
+    }
+    const name = placemark.getElementsByTagNameNS('*', 'name')[0]?.textContent?.trim();
+    const area = toArea({ name: name || `${baseName(fileName)} ${index + 1}`, polygons });
+    if (area) areas.push(area);
+  });
+  return areas;
+};
+
+export const parseGeofenceFile = (fileName: string, text: string): GeofenceArea[] => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  let areas: GeofenceArea[];
+
+  if (ext === 'kml') {
+    areas = parseKmlAreas(fileName, text);
+  } else if (ext === 'geojson' || ext === 'json') {
+    areas = parseGeoJson(fileName, text);
+  } else {
+    throw new Error(`Unsupported boundary format: .${ext}`);
+  }
+
+  if (areas.length === 0) {
+    throw new Error('No polygons found in this file');
+  }
+  return areas;
+};
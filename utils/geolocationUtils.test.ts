@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeviceFix, DeviceFixError, GeolocationProvider } from '../types';
+import { averageDeviceGps, averageFixes, getDeviceGps } from './geolocationUtils';
+
+const fix = (latitude: number, longitude: number, accuracy: number, extra: Partial<DeviceFix['coords']> = {}, timestamp = 0): DeviceFix => ({
+  coords: { latitude, longitude, accuracy, altitude: null, altitudeAccuracy: null, heading: null, speed: null, ...extra },
+  timestamp
+});
+
+// A receiver that reports the given fixes in turn, one per interval, or the error when it has none
+const simulatedReceiver = (fixes: DeviceFix[], intervalMs = 1000, error: DeviceFixError = { code: 2, message: 'No fixes' }) => {
+  const watches = new Map<number, ReturnType<typeof setInterval>>();
+  let nextWatchId = 1;
+  let index = 0;
+
+  const report = (success: (fix: DeviceFix) => void, onError?: (error: DeviceFixError) => void) => {
+    if (fixes.length === 0) onError?.(error);
+    else success({ ...fixes[index++ % fixes.length], timestamp: Date.now() });
+  };
+
+  const provider: GeolocationProvider = {
+    getCurrentPosition: (success, onError) => {
+      setTimeout(() => report(success, onError), intervalMs);
+    },
+    watchPosition: (success, onError) => {
+      const id = nextWatchId++;
+      watches.set(id, setInterval(() => report(success, onError), intervalMs));
+      return id;
+    },
+    clearWatch: (id) => {
+      clearInterval(watches.get(id));
+      watches.delete(id);
+    }
+  };
+  return { provider, watching: () => watches.size };
+};
+
+describe('averageFixes', () => {
+  it('weights fixes by their accuracy and reports the best one', () => {
+    const gps = averageFixes([fix(41, 69, 10), fix(41.001, 69.001, 20)]);
+    // Weights 1/100 and 1/400, so four fifths of the way to the first fix
+    expect(gps.lat).toBeCloseTo(41.0002, 6);
+    expect(gps.lng).toBeCloseTo(69.0002, 6);
+    expect(gps.positioningError).toBe(10);
+  });
+
+  it('averages altitude only over the fixes that have one', () => {
+    const gps = averageFixes([
+      fix(41, 69, 10, { altitude: 450, altitudeAccuracy: 5 }),
+      fix(41, 69, 10),
+      fix(41, 69, 10, { altitude: 460, altitudeAccuracy: 5 })
+    ]);
+    expect(gps.altitude).toBeCloseTo(455, 6);
+    expect(averageFixes([fix(41, 69, 10)]).altitude).toBeUndefined();
+  });
+
+  it('keeps a spot on the antimeridian on the antimeridian', () => {
+    const gps = averageFixes([fix(-17, 179.999, 10), fix(-17, -179.999, 10)]);
+    expect(Math.abs(gps.lng)).toBeCloseTo(180, 6);
+    const east = averageFixes([fix(-17, 179.998, 10), fix(-17, -179.999, 10)]);
+    expect(east.lng).toBeCloseTo(179.9995, 6);
+  });
+
+  it('averages headings around north through 0°, not 180°', () => {
+    const gps = averageFixes([fix(41, 69, 10, { heading: 350 }), fix(41, 69, 10, { heading: 10 })]);
+    expect(Math.min(gps.heading!, 360 - gps.heading!)).toBeCloseTo(0, 6);
+    expect(gps.headingRef).toBe('T');
+    expect(averageFixes([fix(41, 69, 10, { heading: 340 }), fix(41, 69, 10, { heading: 30 })]).heading).toBeCloseTo(5, 6);
+  });
+
+  it('refuses to average nothing', () => {
+    expect(() => averageFixes([])).toThrow('No location fixes');
+  });
+});
+
+describe('device location from a simulated receiver', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes a single fix with its accuracy', async () => {
+    const { provider } = simulatedReceiver([fix(41.3, 69.24, 12, { altitude: 455, speed: 2 })]);
+    const result = getDeviceGps(provider);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await result).toMatchObject({ lat: 41.3, lng: 69.24, altitude: 455, speed: 7.2, positioningError: 12 });
+  });
+
+  it('averages the fixes for the given time and then stops watching', async () => {
+    const { provider, watching } = simulatedReceiver([fix(41, 69, 10), fix(41.001, 69, 10)]);
+    const progress = vi.fn();
+    const session = averageDeviceGps(provider, 4, progress);
+    await vi.advanceTimersByTimeAsync(4000);
+    const gps = await session.result;
+    expect(progress).toHaveBeenCalledTimes(4);
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ lat: expect.closeTo(41.0005, 6) }), 4);
+    expect(gps.lat).toBeCloseTo(41.0005, 6);
+    expect(watching()).toBe(0);
+  });
+
+  it('finishes early with the fixes so far', async () => {
+    const { provider, watching } = simulatedReceiver([fix(41, 69, 10), fix(41.001, 69, 30)]);
+    const session = averageDeviceGps(provider, 30);
+    await vi.advanceTimersByTimeAsync(1500);
+    session.finish();
+    const gps = await session.result;
+    expect(gps.lat).toBe(41);
+    expect(watching()).toBe(0);
+    // Nothing more arrives once it has finished
+    await vi.advanceTimersByTimeAsync(30000);
+    expect((await session.result).lat).toBe(41);
+  });
+
+  it('rejects when finished before any fix arrived', async () => {
+    const { provider } = simulatedReceiver([fix(41, 69, 10)]);
+    const session = averageDeviceGps(provider, 30);
+    session.finish();
+    await expect(session.result).rejects.toThrow('No location fix was received');
+  });
+
+  it('ends the session when location access is refused', async () => {
+    const { provider, watching } = simulatedReceiver([], 1000, { code: 1, message: 'User denied Geolocation' });
+    const session = averageDeviceGps(provider, 30);
+    const failed = expect(session.result).rejects.toThrow('Location access was denied');
+    await vi.advanceTimersByTimeAsync(1000);
+    await failed;
+    expect(watching()).toBe(0);
+  });
+
+  it('keeps waiting through fixes that time out', async () => {
+    const { provider } = simulatedReceiver([], 1000, { code: 3, message: 'Timeout expired' });
+    const session = averageDeviceGps(provider, 5);
+    const failed = expect(session.result).rejects.toThrow('No location fix was received');
+    await vi.advanceTimersByTimeAsync(5000);
+    await failed;
+  });
+
+  it('handles a provider that refuses before returning the watch id', async () => {
+    const clearWatch = vi.fn();
+    const provider: GeolocationProvider = {
+      getCurrentPosition: () => {},
+      watchPosition: (_, onError) => {
+        onError?.({ code: 1, message: 'Blocked' });
+        return 7;
+      },
+      clearWatch
+    };
+    await expect(averageDeviceGps(provider, 30).result).rejects.toThrow('Location access was denied');
+    expect(clearWatch).toHaveBeenCalledWith(7);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { DeviceFix, DeviceFixError, GPSData, GeolocationProvider } from '../types';
+
+// "Where I am now" from the device. Everything goes through a GeolocationProvider,
+// so the tests can swap the browser's receiver for a simulated one.
+
+const HIGH_ACCURACY: PositionOptions = { enableHighAccuracy: true, maximumAge: 0, timeout: 20000 };
+
+export const describeFixError = (error: DeviceFixError): Error => {
+  switch (error.code) {
+    case 1: return new Error('Location access was denied. Allow it for this site in the browser settings.');
+    case 2: return new Error('The device could not determine its location.');
+    case 3: return new Error('Timed out waiting for a location fix.');
+    default: return new Error(error.message || 'Failed to get the device location.');
+  }
+};
+
+const isReported = (value: number | null): value is number => value !== null && isFinite(value);
+
+export const fixToGps = (fix: DeviceFix): GPSData => {
+  const { coords } = fix;
+  return {
+    lat: coords.latitude,
+    lng: coords.longitude,
+    altitude: isReported(coords.altitude) ? coords.altitude : undefined,
+    heading: isReported(coords.heading) ? coords.heading : undefined,
+    headingRef: isReported(coords.heading) ? 'T' : undefined,
+    speed: isReported(coords.speed) ? coords.speed * 3.6 : undefined,
+    positioningError: coords.accuracy,
+    timestamp: new Date(fix.timestamp).toISOString()
+  };
+};
+
+// Fixes are weighted by 1/accuracy². The reported accuracy is that of the best
+// single fix: consecutive fixes share most of their error, so averaging them
+// does not shrink it the way independent samples would.
+export const averageFixes = (fixes: DeviceFix[]): GPSData => {
+  if (fixes.length === 0) throw new Error('No location fixes to average');
+  const weight = (accuracy: number | null) => 1 / Math.max(accuracy ?? 1, 1) ** 2;
+  const weightedMean = (items: { value: number, weight: number }[]) =>
+    items.reduce((sum, item) => sum + item.value * item.weight, 0) / items.reduce((sum, item) => sum + item.weight, 0);
+
+  // Longitudes are averaged relative to the first fix, so a spot on the antimeridian doesn't average to 0
+  const origin = fixes[0].coords.longitude;
+  const wrap = (lng: number) => ((lng + 540) % 360) - 180;
+  const lat = weightedMean(fixes.map(f => ({ value: f.coords.latitude, weight: weight(f.coords.accuracy) })));
+  const lng = wrap(origin + weightedMean(fixes.map(f => ({ value: wrap(f.coords.longitude - origin), weight: weight(f.coords.accuracy) }))));
+
+  const withAltitude = fixes.filter(f => isReported(f.coords.altitude));
+  const altitude = withAltitude.length > 0
+    ? weightedMean(withAltitude.map(f => ({ value: f.coords.altitude!, weight: weight(f.coords.altitudeAccuracy ?? f.coords.accuracy) })))
+    : undefined;
+
+  // Circular mean, so 350° and 10° average to 0° and not 180°
+  const headings = fixes.map(f => f.coords.heading).filter(isReported);
+  const heading = headings.length > 0
+    ? (Math.atan2(
+        headings.reduce((sum, h) => sum + Math.sin(h * Math.PI / 180), 0),
+        headings.reduce((sum, h) => sum + Math.cos(h * Math.PI / 180), 0)
+      ) * 180 / Math.PI + 360) % 360
+    : undefined;
+
+  return {
+    lat,
+    lng,
+    altitude,
+    heading,
+    headingRef: heading !== undefined ? 'T' : undefined,
+    positioningError: Math.min(...fixes.map(f => f.coords.accuracy)),
+    timestamp: new Date(fixes[fixes.length - 1].timestamp).toISOString()
+  };
+};
+
+export const getDeviceGps = (provider: GeolocationProvider): Promise<GPSData> => new Promise((resolve, reject) => {
+  provider.getCurrentPosition(
+    fix => resolve(fixToGps(fix)),
+    error => reject(describeFixError(error)),
+    HIGH_ACCURACY
+  );
+});
+
+export interface AveragingSession {
+  result: Promise<GPSData>;
+  finish: () => void; // Stops early and resolves with the fixes so far
+}
+
+// Collects fixes for the given time and resolves with their average. Progress
+// is reported after every fix so the estimate can be shown as it settles.
+export const averageDeviceGps = (
+  provider: GeolocationProvider,
+  durationSeconds: number,
+  onProgress?: (gps: GPSData, fixCount: number) => void
+): AveragingSession => {
+  const fixes: DeviceFix[] = [];
+  let finish = () => {};
+
+  const result = new Promise<GPSData>((resolve, reject) => {
+    let settled = false;
+    let watchId = -1;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const stop = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      provider.clearWatch(watchId);
+      clearTimeout(timer);
+      if (fixes.length > 0) resolve(averageFixes(fixes));
+      else reject(error || new Error('No location fix was received.'));
+    };
+
+    watchId = provider.watchPosition(
+      fix => {
+        if (settled) return;
+        fixes.push(fix);
+        onProgress?.(averageFixes(fixes), fixes.length);
+      },
+      // A fix that times out is retried by the watch; a refusal ends the session
+      error => {
+        if (error.code !== 3) stop(describeFixError(error));
+      },
+      HIGH_ACCURACY
+    );
+    // A provider may refuse synchronously, before the watch id was known
+    if (settled) provider.clearWatch(watchId);
+    else timer = setTimeout(() => stop(), durationSeconds * 1000);
+    finish = () => stop();
+  });
+
+  return { result, finish: () => finish() };
+};
+
+export const getGeolocationProvider = (): GeolocationProvider | null =>
+  typeof navigator !== 'undefined' && navigator.geolocation ? navigator.geolocation : null;
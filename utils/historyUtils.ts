@@ -0,0 +1,51 @@
+import { GPSData } from '../types';
+
+// Pin positions for one image, oldest first. present is what the pin shows now.
+export interface EditHistory {
+  past: GPSData[];
+  present: GPSData;
+  future: GPSData[];
+}
+
+// Enough to step back through a long editing session without growing forever
+const MAX_HISTORY = 100;
+
+// The coordinate inputs round to 6 decimals, so a blur without a real change
+// must not count as a new step
+export const isSameGps = (a: GPSData, b: GPSData) => {
+  const normalize = (gps: GPSData) => JSON.stringify({ ...gps, lat: gps.lat.toFixed(6), lng: gps.lng.toFixed(6) });
+  return normalize(a) === normalize(b);
+};
+
+export const createHistory = (initial: GPSData): EditHistory => ({
+  past: [],
+  present: initial,
+  future: []
+});
+
+export const pushHistory = (history: EditHistory, gps: GPSData): EditHistory => {
+  if (isSameGps(history.present, gps)) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: gps,
+    future: []
+  };
+};
+
+export const undoHistory = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoHistory = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import piexif from 'piexifjs';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { buildOutputFile, loadUploadedImage, readExifMetadata } from './imageUtils';
+import { createLocationFuzzer } from './fuzzUtils';
+import { binaryStringToBytes, extractXmpPacket } from './formatUtils';
+import { toXmpCoordinate } from './xmpUtils';
+
+const LATITUDE = [[41, 1], [17, 1], [3989, 100]];
+const LONGITUDE = [[69, 1], [14, 1], [2602, 100]];
+const ALTITUDE = [4567, 10];
+
+const LAT_DECIMAL = 41 + 17 / 60 + 39.89 / 3600;
+const LNG_DECIMAL = 69 + 14 / 60 + 26.02 / 3600;
+
+// The camera's own packet, with the precise spot in its GPS and IPTC location fields
+const XMP_PACKET = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:exif="http://ns.adobe.com/exif/1.0/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/"
+ exif:GPSLatitude="${toXmpCoordinate(LAT_DECIMAL, true)}" exif:GPSLongitude="${toXmpCoordinate(LNG_DECIMAL, false)}"
+ Iptc4xmpCore:Location="12 Amir Temur Street" xmp:Rating="4"/>
+</rdf:RDF></x:xmpmeta>`;
+
+const segment = (marker: number, payload: Uint8Array) => {
+  const bytes = new Uint8Array(4 + payload.length);
+  bytes.set([0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+  bytes.set(payload, 4);
+  return bytes;
+};
+
+const photo = () => {
+  const exif = binaryStringToBytes(piexif.dump({
+    '0th': { [piexif.ImageIFD.Make]: 'Camera Maker' },
+    GPS: {
+      [piexif.GPSIFD.GPSLatitudeRef]: 'N',
+      [piexif.GPSIFD.GPSLatitude]: LATITUDE,
+      [piexif.GPSIFD.GPSLongitudeRef]: 'E',
+      [piexif.GPSIFD.GPSLongitude]: LONGITUDE,
+      [piexif.GPSIFD.GPSAltitudeRef]: 0,
+      [piexif.GPSIFD.GPSAltitude]: ALTITUDE,
+    },
+  }));
+  const scan = [0xFF, 0xDA, 0x00, 0x08, 1, 2, 3, 4, 5, 6, 0x12, 0x34, 0xFF, 0xD9];
+  const xmp = new TextEncoder().encode(`http://ns.adobe.com/xap/1.0/\0${XMP_PACKET}`);
+  return new File([new Uint8Array([0xFF, 0xD8, ...segment(0xE1, exif), ...segment(0xE1, xmp), ...scan])], 'photo.jpg', { type: 'image/jpeg' });
+};
+
+// Big-endian, as piexif writes it
+const rationalBytes = (values: number[][]) => {
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach(([n, d], i) => {
+    view.setUint32(i * 8, n);
+    view.setUint32(i * 8 + 4, d);
+  });
+  return bytes;
+};
+
+const contains = (haystack: Uint8Array, needle: Uint8Array) => {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+};
+
+// The packet is merged through the DOM, which Node only has from xmldom, as in the CLI
+beforeAll(() => {
+  vi.stubGlobal('DOMParser', DOMParser);
+  vi.stubGlobal('XMLSerializer', XMLSerializer);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildOutputFile with a fuzzed location', () => {
+  it('leaves none of the precise location in the written file', async () => {
+    const image = await loadUploadedImage(photo());
+    const original = new Uint8Array(await image.file.arrayBuffer());
+    expect(contains(original, rationalBytes(LATITUDE))).toBe(true);
+
+    const fuzzer = createLocationFuzzer({ enabled: true, method: 'snap', precisionMeters: 1000 }, []);
+    const fuzz = fuzzer(image.id, image.metadata.gps!);
+    const { blob } = await buildOutputFile(image, image.metadata.gps, 'none', [], fuzz);
+    const output = new Uint8Array(await blob.arrayBuffer());
+
+    for (const values of [LATITUDE, LONGITUDE, [ALTITUDE]]) {
+      expect(contains(output, rationalBytes(values))).toBe(false);
+    }
+    // The seconds alone give the spot away to within a few meters
+    expect(contains(output, rationalBytes([LATITUDE[2]]))).toBe(false);
+    expect(contains(output, rationalBytes([LONGITUDE[2]]))).toBe(false);
+
+    const written = readExifMetadata(output, 'jpeg');
+    expect(written.gps?.lat).toBeCloseTo(fuzz.gps.lat, 4);
+    expect(written.gps?.lng).toBeCloseTo(fuzz.gps.lng, 4);
+    expect(written.rawExifObj?.GPS?.[piexif.GPSIFD.GPSAltitude]).toBeUndefined();
+    expect(written.make).toBe('Camera Maker');
+
+    // The packet is merged, not replaced, and its coordinates say no more than the fuzz
+    const packet = extractXmpPacket(output)!;
+    expect(packet).toContain('xmp:Rating');
+    expect(packet).not.toContain('Amir Temur');
+    expect(packet).not.toContain(toXmpCoordinate(LAT_DECIMAL, true));
+    expect(packet).not.toContain(toXmpCoordinate(LNG_DECIMAL, false));
+    const xmpGps = written.xmp?.gps;
+    expect(xmpGps?.lat).toBeCloseTo(fuzz.gps.lat, 6);
+    expect(xmpGps?.lng).toBeCloseTo(fuzz.gps.lng, 6);
+    for (const value of [xmpGps!.lat, xmpGps!.lng]) {
+      const steps = value * 3600 / fuzz.dmsResolutionSeconds;
+      expect(Math.abs(steps - Math.round(steps))).toBeLessThan(0.01);
+    }
+  });
+});
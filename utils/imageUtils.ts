@@ -0,0 +1,150 @@
+import { GPSData, GpsStatus, GpsWriteOptions, FuzzedLocation, UploadedImage, ExifMetadata, ImageFormat, IntegrityIssue, XmpWriteMode } from '../types';
+import { parseExifData, applyExifEdits, buildExifBytes, diffExifObjects } from './geoUtils';
+import { isStructuralIssue, repairExifObject } from './integrityUtils';
+import {
+  FORMAT_CAPABILITIES,
+  FORMAT_MIME_TYPES,
+  detectImageFormat,
+  extractExifTiff,
+  extractXmpPacket,
+  binaryStringToBytes,
+  bytesToBinaryString
+} from './formatUtils';
+import { writeImageMetadata } from './exifWriteUtils';
+import { buildXmpPacket, getXmpLocation, mergeXmpPacket, parseXmpPacket, toSidecarName } from './xmpUtils';
+
+// Every container has its TIFF block cut out first, piexif only sees the EXIF itself
+const readExif = (bytes: Uint8Array, format: ImageFormat): ExifMetadata => {
+  const tiff = extractExifTiff(bytes, format);
+  if (!tiff) return { rawExifObj: {} };
+  return parseExifData('Exif\0\0' + bytesToBinaryString(tiff));
+};
+
+export const readExifMetadata = (bytes: Uint8Array, format: ImageFormat): ExifMetadata => {
+  const metadata = readExif(bytes, format);
+  const packet = extractXmpPacket(bytes);
+  const xmp = packet ? parseXmpPacket(packet) : undefined;
+  return xmp ? { ...metadata, xmp } : metadata;
+};
+
+export const loadUploadedImage = async (file: File): Promise<UploadedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new Error(`${file.name} is not a supported image format`);
+  }
+
+  // The browser may not know the MIME type (HEIC, DNG), so it is taken from the detected format
+  const previewUrl = URL.createObjectURL(new Blob([file], { type: FORMAT_MIME_TYPES[format] }));
+
+  return {
+    id: crypto.randomUUID(),
+    file,
+    format,
+    previewUrl,
+    metadata: readExifMetadata(bytes, format),
+  };
+};
+
+// HEIC and TIFF do not render in most browsers, fall back to the EXIF thumbnail
+export const getDisplayUrl = (image: UploadedImage): string | null => {
+  if (FORMAT_CAPABILITIES[image.format].preview) return image.previewUrl;
+  const thumbnail = image.metadata.rawExifObj?.thumbnail;
+  return thumbnail ? `data:image/jpeg;base64,${btoa(thumbnail)}` : null;
+};
+
+// The location that would be written if the image was exported right now
+export const getEffectiveGps = (image: UploadedImage): GPSData | undefined => {
+  return image.pendingGps || image.metadata.gps;
+};
+
+export const getGpsStatus = (image: UploadedImage): GpsStatus => {
+  if (image.pendingGps) return 'edited';
+  return image.metadata.gps ? 'tagged' : 'untagged';
+};
+
+export const hasPendingChanges = (image: UploadedImage): boolean => {
+  return !!image.pendingGps
+    || !!image.pendingLocation
+    || (!!image.pendingTags && Object.keys(image.pendingTags).length > 0);
+};
+
+// Replaces the image's whole EXIF block with a serialised one ("Exif\0\0" + TIFF)
+export const writeExifToImage = async (image: UploadedImage, exifBytes: string): Promise<Blob> => {
+  const output = await writeImageMetadata({
+    bytes: await image.file.arrayBuffer(),
+    format: image.format,
+    tiff: binaryStringToBytes(exifBytes.slice(6))
+  });
+  return new Blob([output as BlobPart], { type: FORMAT_MIME_TYPES[image.format] });
+};
+
+const XMP_MIME_TYPE = 'application/rdf+xml';
+
+export interface OutputFile {
+  blob: Blob;
+  sidecar: boolean; // true when the blob is an .xmp file to keep next to the untouched original
+  xmpSidecar?: Blob; // Extra .xmp requested with XmpWriteMode 'sidecar'
+}
+
+// IPTC location structures can hold the street or the exact position of a fuzzed photo
+const FUZZ_CLEARED_XMP = ['Iptc4xmpCore:Location', 'Iptc4xmpExt:LocationCreated', 'Iptc4xmpExt:LocationShown'];
+
+// Location names read from XMP are carried over so rewriting never drops them,
+// except the sublocation of a fuzzed photo, which can name the street.
+// An existing packet is written into rather than replaced.
+const buildImageXmp = (image: UploadedImage, existing: string | null | undefined, gps?: GPSData, fuzzed = false): string => {
+  const { gps: _, ...location } = getXmpLocation(image) || {};
+  const names = { ...location, ...image.pendingLocation };
+  if (fuzzed) delete names.sublocation;
+  return existing
+    ? mergeXmpPacket(existing, gps, image.pendingTags, names, fuzzed ? FUZZ_CLEARED_XMP : [])
+    : buildXmpPacket(gps, image.pendingTags, names);
+};
+
+// repairs are issues from checkImageIntegrity to fix while writing; anything else is preserved as it is.
+// A fuzzed location replaces gps and every other GPS tag the file had.
+export const buildOutputFile = async (
+  image: UploadedImage,
+  requestedGps?: GPSData,
+  requestedXmpMode: XmpWriteMode = 'none',
+  repairs: IntegrityIssue[] = [],
+  fuzz?: FuzzedLocation
+): Promise<OutputFile> => {
+  const gps = fuzz ? fuzz.gps : requestedGps;
+  if (FORMAT_CAPABILITIES[image.format].write === 'sidecar') {
+    return { blob: new Blob([buildImageXmp(image, image.sidecarXmpPacket, gps, !!fuzz)], { type: XMP_MIME_TYPE }), sidecar: true };
+  }
+
+  // EXIF has no City / Sublocation tags, place names only survive in XMP.
+  // A fuzzed photo always gets its packet rewritten, the old one may hold the exact location.
+  const xmpMode = requestedXmpMode === 'none' && (image.pendingLocation || fuzz) ? 'embedded' : requestedXmpMode;
+  const gpsOptions: GpsWriteOptions | undefined = fuzz ? { dmsResolutionSeconds: fuzz.dmsResolutionSeconds, replaceGpsIfd: true } : undefined;
+
+  const source: ExifMetadata = repairs.length > 0
+    ? { ...image.metadata, rawExifObj: repairExifObject(image.metadata.rawExifObj, repairs) }
+    : image.metadata;
+  // Only the tags that changed are written and the rest of the file is copied byte for byte,
+  // unless the block itself is damaged and a rebuild was asked for. A fuzzed photo is always
+  // rebuilt, so nothing of the precise location can be left anywhere in the block.
+  const exif = fuzz || repairs.some(isStructuralIssue)
+    ? { tiff: binaryStringToBytes(buildExifBytes(source, gps, image.pendingTags, gpsOptions).slice(6)) }
+    : { patch: diffExifObjects(image.metadata.rawExifObj, applyExifEdits(source, gps, image.pendingTags, gpsOptions)) };
+  const bytes = await image.file.arrayBuffer();
+  const output = await writeImageMetadata({
+    bytes,
+    format: image.format,
+    ...exif,
+    xmp: xmpMode === 'embedded' ? buildImageXmp(image, extractXmpPacket(new Uint8Array(bytes)), gps, !!fuzz) : undefined
+  });
+
+  return {
+    blob: new Blob([output as BlobPart], { type: FORMAT_MIME_TYPES[image.format] }),
+    sidecar: false,
+    xmpSidecar: xmpMode === 'sidecar' ? new Blob([buildImageXmp(image, image.sidecarXmpPacket, gps, !!fuzz)], { type: XMP_MIME_TYPE }) : undefined
+  };
+};
+
+export const getOutputFileName = (fileName: string, sidecar: boolean): string => {
+  return sidecar ? toSidecarName(fileName) : `geotagged-${fileName}`;
+};
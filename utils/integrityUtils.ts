@@ -0,0 +1,274 @@
+import piexif from 'piexifjs';
+import { ExifIfd, ExifIfdName, ExifMetadata, ExifObject, ExifValue, IntegrityIssue, UploadedImage } from '../types';
+import { dmsToDecimal, getTagName, getTagType } from './geoUtils';
+import { extractExifTiff } from './formatUtils';
+
+// Checks run before a file is rewritten, so damaged metadata is reported and
+// the user decides what happens to it instead of it being silently replaced.
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const SUB_IFD_POINTERS: Record<number, ExifIfdName> = {
+  0x8769: 'Exif',
+  0x8825: 'GPS',
+  0xA005: 'Interop',
+};
+
+const IFD_NAMES: ExifIfdName[] = ['0th', 'Exif', 'GPS', 'Interop', '1st'];
+
+const REBUILD_REPAIR = 'Write a fresh EXIF block from the tags that could be read; anything unreadable is dropped';
+
+// Walks the raw IFD chain the way a strict reader would. piexif gives up on the
+// first problem, this keeps going so every problem ends up in the report.
+export const inspectTiffStructure = (tiff: Uint8Array): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const malformed = (message: string, ifd?: ExifIfdName, tag?: number) => {
+    issues.push({ kind: 'malformed-ifd', severity: 'error', message, ifd, tag, repair: REBUILD_REPAIR });
+  };
+
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if (tiff.length < 8 || (order !== 'II' && order !== 'MM')) {
+    malformed('The EXIF block does not start with a TIFF header');
+    return issues;
+  }
+  const littleEndian = order === 'II';
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  if (view.getUint16(2, littleEndian) !== 42) {
+    malformed('The TIFF header has the wrong magic number');
+    return issues;
+  }
+
+  const visited = new Set<number>();
+  const walk = (offset: number, ifd: ExifIfdName): number => {
+    if (visited.has(offset)) {
+      malformed(`The ${ifd} IFD points back to an earlier IFD`, ifd);
+      return 0;
+    }
+    visited.add(offset);
+    if (offset < 8 || offset + 2 > tiff.length) {
+      malformed(`The ${ifd} IFD offset (${offset}) is outside the EXIF block`, ifd);
+      return 0;
+    }
+
+    const count = view.getUint16(offset, littleEndian);
+    const available = Math.floor((tiff.length - offset - 2) / 12);
+    if (count > available) {
+      malformed(`The ${ifd} IFD lists ${count} entries but only ${available} fit in the EXIF block`, ifd);
+    }
+
+    for (let i = 0; i < Math.min(count, available); i++) {
+      const at = offset + 2 + i * 12;
+      const tag = view.getUint16(at, littleEndian);
+      const type = view.getUint16(at + 2, littleEndian);
+      if (!TYPE_SIZES[type]) {
+        malformed(`${getTagName(ifd, tag)} has an unknown value type (${type})`, ifd, tag);
+        continue;
+      }
+      const size = TYPE_SIZES[type] * view.getUint32(at + 4, littleEndian);
+      const valueOffset = view.getUint32(at + 8, littleEndian);
+      if (size > 4 && valueOffset + size > tiff.length) {
+        malformed(`${getTagName(ifd, tag)} points past the end of the EXIF block`, ifd, tag);
+        continue;
+      }
+      const child = ifd !== '1st' ? SUB_IFD_POINTERS[tag] : undefined;
+      if (child) walk(valueOffset, child);
+    }
+
+    const nextAt = offset + 2 + count * 12;
+    return nextAt + 4 <= tiff.length ? view.getUint32(nextAt, littleEndian) : 0;
+  };
+
+  const next = walk(view.getUint32(4, littleEndian), '0th');
+  if (next !== 0) walk(next, '1st');
+  return issues;
+};
+
+// piexif keeps one rational as [n, d] and several as [[n, d], ...]
+const toRationalList = (value: ExifValue | undefined): number[][] => {
+  if (!Array.isArray(value)) return [];
+  const items: (number | number[])[] = value;
+  return typeof items[0] === 'number'
+    ? [items.filter((item): item is number => typeof item === 'number')]
+    : items.filter((item): item is number[] => Array.isArray(item));
+};
+
+const isRationalType = (ifd: ExifIfdName, tag: number) => {
+  const type = getTagType(ifd, tag);
+  return type === 'Rational' || type === 'SRational';
+};
+
+// Writers that treat the coordinate as signed store e.g. -33 as 4294967263
+const WRAPPED_NEGATIVE = 0x80000000;
+
+const checkCoordinate = (
+  gpsIfd: ExifIfd,
+  valueTag: number,
+  refTag: number,
+  axis: { name: string, limit: number, positive: string, negative: string }
+): IntegrityIssue[] => {
+  const value = gpsIfd[valueTag];
+  if (value === undefined) return [];
+  const ref = gpsIfd[refTag];
+  const issues: IntegrityIssue[] = [];
+
+  if (typeof ref !== 'string' || ![axis.positive, axis.negative].includes(ref.trim().toUpperCase())) {
+    issues.push({
+      kind: 'ref-mismatch',
+      severity: 'error',
+      message: `${axis.name} has ${ref === undefined ? 'no' : `an invalid (${JSON.stringify(ref)})`} hemisphere reference, so its sign is unknown`,
+      ifd: 'GPS',
+      tag: refTag,
+    });
+    return issues;
+  }
+  if (ref !== ref.trim().toUpperCase()) {
+    issues.push({
+      kind: 'ref-mismatch',
+      severity: 'warning',
+      message: `${axis.name} reference "${ref}" is not in the standard form`,
+      ifd: 'GPS',
+      tag: refTag,
+      repair: `Rewrite it as "${ref.trim().toUpperCase()}"`,
+    });
+  }
+
+  const rationals = toRationalList(value);
+  if (rationals.some(([n]) => n >= WRAPPED_NEGATIVE)) {
+    issues.push({
+      kind: 'ref-mismatch',
+      severity: 'error',
+      message: `${axis.name} is stored as a negative number while the reference says ${ref.trim().toUpperCase()}`,
+      ifd: 'GPS',
+      tag: valueTag,
+      repair: `Store the positive value with reference ${axis.negative}`,
+    });
+    return issues;
+  }
+
+  // Zero denominators are reported by the rational check
+  if (rationals.length < 3 || rationals.some(([, d]) => !d)) return issues;
+  const [, minutes, seconds] = rationals.map(([n, d]) => n / d);
+  const decimal = Math.abs(dmsToDecimal(rationals, ref));
+  if (decimal > axis.limit || minutes >= 60 || seconds >= 60) {
+    issues.push({
+      kind: 'coordinate-range',
+      severity: 'error',
+      message: `${axis.name} ${decimal.toFixed(6)}° (${minutes}' ${seconds}") is not a valid position`,
+      ifd: 'GPS',
+      tag: valueTag,
+      repair: 'Remove the stored position',
+    });
+  }
+  return issues;
+};
+
+// Value-level checks on what piexif managed to read
+export const validateExifObject = (metadata: ExifMetadata): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const exifObj: ExifObject = metadata.rawExifObj || {};
+
+  if (metadata.exifError) {
+    issues.push({
+      kind: 'parse-failed',
+      severity: 'error',
+      message: `The EXIF block could not be read (${metadata.exifError})`,
+      repair: 'Write a fresh EXIF block; everything in the damaged one is lost',
+    });
+  }
+
+  for (const ifd of IFD_NAMES) {
+    for (const [key, value] of Object.entries(exifObj[ifd] || {})) {
+      const tag = Number(key);
+      if (!isRationalType(ifd, tag)) continue;
+      const zero = toRationalList(value).filter(([, d]) => d === 0);
+      if (zero.length === 0) continue;
+      // EXIF uses 0/0 for "unknown" in a few places, n/0 is always broken
+      const unknown = zero.every(([n]) => n === 0);
+      issues.push({
+        kind: 'bad-rational',
+        severity: unknown ? 'warning' : 'error',
+        message: `${getTagName(ifd, tag)} has a zero denominator (${zero.map(([n, d]) => `${n}/${d}`).join(', ')})`,
+        ifd,
+        tag,
+        repair: 'Remove the tag',
+      });
+    }
+  }
+
+  const gpsIfd = exifObj['GPS'] || {};
+  issues.push(
+    ...checkCoordinate(gpsIfd, piexif.GPSIFD.GPSLatitude, piexif.GPSIFD.GPSLatitudeRef, { name: 'Latitude', limit: 90, positive: 'N', negative: 'S' }),
+    ...checkCoordinate(gpsIfd, piexif.GPSIFD.GPSLongitude, piexif.GPSIFD.GPSLongitudeRef, { name: 'Longitude', limit: 180, positive: 'E', negative: 'W' })
+  );
+
+  const gps = metadata.gps;
+  if (gps && gps.lat === 0 && gps.lng === 0) {
+    issues.push({
+      kind: 'null-island',
+      severity: 'warning',
+      message: 'The stored location is exactly 0°, 0°, usually a placeholder written by a camera without a fix. It is treated as no location.',
+      ifd: 'GPS',
+    });
+  }
+
+  // An XMP copy of the location mirrored across the equator or meridian means one of the refs is wrong
+  const xmpGps = metadata.xmp?.gps;
+  if (gps && xmpGps) {
+    const mirrored = (a: number, b: number) => a !== 0 && Math.sign(a) !== Math.sign(b) && Math.abs(a + b) < 1e-4;
+    if (mirrored(gps.lat, xmpGps.lat) || mirrored(gps.lng, xmpGps.lng)) {
+      issues.push({
+        kind: 'ref-mismatch',
+        severity: 'warning',
+        message: `EXIF places the photo at ${gps.lat.toFixed(5)}, ${gps.lng.toFixed(5)} but the embedded XMP at ${xmpGps.lat.toFixed(5)}, ${xmpGps.lng.toFixed(5)}`,
+        ifd: 'GPS',
+      });
+    }
+  }
+
+  return issues;
+};
+
+// Only in-place formats are checked, sidecar formats never have their EXIF rewritten
+export const checkImageIntegrity = async (image: UploadedImage): Promise<IntegrityIssue[]> => {
+  const tiff = extractExifTiff(new Uint8Array(await image.file.arrayBuffer()), image.format);
+  const structural = tiff ? inspectTiffStructure(tiff) : [];
+  // A structural problem is usually why piexif failed, so the two are not listed twice
+  const values = validateExifObject(image.metadata).filter(issue => issue.kind !== 'parse-failed' || structural.length === 0);
+  return [...structural, ...values];
+};
+
+export const isStructuralIssue = (issue: IntegrityIssue) => issue.kind === 'malformed-ifd' || issue.kind === 'parse-failed';
+
+export const isBlockingIssue = (issue: IntegrityIssue) => issue.severity === 'error';
+
+// Returns a repaired copy of the piexif object; the loaded metadata is never mutated
+export const repairExifObject = (exifObj: ExifObject | undefined, issues: IntegrityIssue[]): ExifObject => {
+  const repaired: ExifObject = JSON.parse(JSON.stringify(exifObj || {}));
+  const gpsIfd = repaired['GPS'] || {};
+  const { GPSLatitude, GPSLatitudeRef, GPSLongitude, GPSLongitudeRef } = piexif.GPSIFD;
+
+  for (const issue of issues) {
+    if (!issue.repair || !issue.ifd || issue.tag === undefined) continue;
+    const ifd = repaired[issue.ifd];
+    if (!ifd) continue;
+
+    switch (issue.kind) {
+      case 'bad-rational':
+        delete ifd[issue.tag];
+        break;
+      case 'coordinate-range':
+        [GPSLatitude, GPSLatitudeRef, GPSLongitude, GPSLongitudeRef].forEach(tag => delete gpsIfd[tag]);
+        break;
+      case 'ref-mismatch':
+        if (issue.tag === GPSLatitudeRef || issue.tag === GPSLongitudeRef) {
+          ifd[issue.tag] = String(ifd[issue.tag]).trim().toUpperCase();
+        } else {
+          // Undo the two's complement wrap and move the sign into the reference
+          ifd[issue.tag] = toRationalList(ifd[issue.tag]).map(([n, d]) => [n >= WRAPPED_NEGATIVE ? 0x100000000 - n : n, d]);
+          ifd[issue.tag === GPSLatitude ? GPSLatitudeRef : GPSLongitudeRef] = issue.tag === GPSLatitude ? 'S' : 'W';
+        }
+        break;
+    }
+  }
+  return repaired;
+};
@@ -0,0 +1,194 @@
+import { LayerFeature, LayerFormat, UploadedImage } from '../types';
+import { getDisplayUrl, getEffectiveGps } from './imageUtils';
+import { hasUsableGps } from './geoUtils';
+import { csvCell } from './exportUtils';
+import { escapeXml } from './xmpUtils';
+import { saveFile } from './downloadUtils';
+
+export const LAYER_FORMATS: { id: LayerFormat, label: string, extension: string, mimeType: string }[] = [
+  { id: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { id: 'kml', label: 'KML (Google Earth)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { id: 'gpx', label: 'GPX waypoints', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+];
+
+// piexif keeps the NUL terminator and padding some cameras write
+const cleanText = (value?: string) => value?.replace(/\0/g, '').trim() || undefined;
+
+// "2024:05:17 14:03:22" -> "2024-05-17T14:03:22", still camera local time
+const toIsoLocal = (exifDate?: string) => {
+  const match = exifDate && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(exifDate);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : undefined;
+};
+
+// Pending edits win over what is in the file, the same as on export. Images without a location are left out.
+export const collectLayerFeatures = (images: UploadedImage[]): LayerFeature[] => images.flatMap(image => {
+  const gps = getEffectiveGps(image);
+  if (!hasUsableGps(gps)) return [];
+  const dateTimeOriginal = image.pendingTags?.DateTimeOriginal ?? image.metadata.dateTimeOriginal;
+  return [{
+    fileName: image.file.name,
+    gps,
+    dateTimeOriginal: dateTimeOriginal === undefined ? undefined : String(dateTimeOriginal),
+    make: cleanText(image.metadata.make),
+    model: cleanText(image.metadata.model)
+  }];
+});
+
+const loadImageElement = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const element = new Image();
+  element.onload = () => resolve(element);
+  element.onerror = () => reject(new Error('The image could not be decoded'));
+  element.src = url;
+});
+
+// Small JPEG for a KML balloon. HEIC and TIFF use their EXIF thumbnail, or get none.
+export const createThumbnailDataUrl = async (image: UploadedImage, maxSize = 320): Promise<string | undefined> => {
+  const url = getDisplayUrl(image);
+  if (!url) return undefined;
+  try {
+    const element = await loadImageElement(url);
+    const scale = Math.min(1, maxSize / Math.max(element.naturalWidth, element.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(element.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(element.naturalHeight * scale));
+    canvas.getContext('2d')!.drawImage(element, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error("Failed to create thumbnail for", image.file.name, error);
+    return undefined;
+  }
+};
+
+// Attribute names shared by the GeoJSON, KML and CSV outputs
+const featureProperties = (feature: LayerFeature): Record<string, string | number | undefined> => ({
+  filename: feature.fileName,
+  timestamp: toIsoLocal(feature.dateTimeOriginal),
+  gps_time: feature.gps.timestamp,
+  make: feature.make,
+  model: feature.model,
+  altitude: feature.gps.altitude,
+  heading: feature.gps.heading,
+});
+
+const definedEntries = (feature: LayerFeature) =>
+  Object.entries(featureProperties(feature)).filter(([, value]) => value !== undefined) as [string, string | number][];
+
+export const featuresToGeoJson = (features: LayerFeature[]): string => JSON.stringify({
+  type: 'FeatureCollection',
+  features: features.map(feature => ({
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: feature.gps.altitude !== undefined
+        ? [feature.gps.lng, feature.gps.lat, feature.gps.altitude]
+        : [feature.gps.lng, feature.gps.lat]
+    },
+    properties: Object.fromEntries(definedEntries(feature))
+  }))
+}, null, 2);
+
+const kmlBalloon = (feature: LayerFeature) => {
+  const camera = [feature.make, feature.model].filter(Boolean).join(' ');
+  const lines = [
+    feature.thumbnail ? `<img src="${feature.thumbnail}" style="max-width:320px"/>` : '',
+    `<b>${escapeXml(feature.fileName)}</b>`,
+    camera ? escapeXml(camera) : '',
+    feature.dateTimeOriginal ? escapeXml(feature.dateTimeOriginal) : '',
+  ].filter(Boolean);
+  // Escaped text can't contain "]]>", so the CDATA section stays intact
+  return `<![CDATA[${lines.join('<br/>')}]]>`;
+};
+
+export const featuresToKml = (features: LayerFeature[], name: string): string => {
+  const placemarks = features.map(feature => {
+    const when = feature.gps.timestamp || toIsoLocal(feature.dateTimeOriginal);
+    const coordinates = [feature.gps.lng, feature.gps.lat, ...(feature.gps.altitude !== undefined ? [feature.gps.altitude] : [])].join(',');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(feature.fileName)}</name>`,
+      `      <description>${kmlBalloon(feature)}</description>`,
+      ...(when ? [`      <TimeStamp><when>${when}</when></TimeStamp>`] : []),
+      '      <ExtendedData>',
+      ...definedEntries(feature).map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`),
+      '      </ExtendedData>',
+      // Absolute only when there is an altitude, otherwise the pin sits on the terrain
+      `      <Point>${feature.gps.altitude !== undefined ? '<altitudeMode>absolute</altitudeMode>' : ''}<coordinates>${coordinates}</coordinates></Point>`,
+      '    </Placemark>'
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+// GPX times must be UTC, so only a GPS timestamp goes in <time>; the camera time is kept in <desc>
+export const featuresToGpx = (features: LayerFeature[], name: string): string => {
+  const waypoints = features.map(feature => {
+    const camera = [feature.make, feature.model].filter(Boolean).join(' ');
+    const desc = [camera, feature.dateTimeOriginal && `Taken ${feature.dateTimeOriginal} (camera clock)`].filter(Boolean).join(', ');
+    return [
+      `  <wpt lat="${feature.gps.lat.toFixed(7)}" lon="${feature.gps.lng.toFixed(7)}">`,
+      ...(feature.gps.altitude !== undefined ? [`    <ele>${feature.gps.altitude}</ele>`] : []),
+      ...(feature.gps.timestamp ? [`    <time>${feature.gps.timestamp}</time>`] : []),
+      `    <name>${escapeXml(feature.fileName)}</name>`,
+      ...(desc ? [`    <desc>${escapeXml(desc)}</desc>`] : []),
+      '  </wpt>'
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="GeoTagger" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...waypoints,
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+export const featuresToCsv = (features: LayerFeature[]): string => {
+  const header = ['filename', 'lat', 'lng', 'altitude', 'heading', 'timestamp', 'gps_time', 'make', 'model'];
+  const rows = features.map(feature => {
+    const properties = featureProperties(feature);
+    return [
+      feature.fileName, feature.gps.lat, feature.gps.lng, properties.altitude, properties.heading,
+      properties.timestamp, properties.gps_time, properties.make, properties.model
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+export interface LayerExportOptions {
+  format: LayerFormat;
+  name: string; // File name without extension, also the layer name inside KML and GPX
+  thumbnails?: boolean; // KML only
+}
+
+// Returns how many images made it into the layer
+export const exportLocationLayer = async (images: UploadedImage[], options: LayerExportOptions): Promise<number> => {
+  const layerImages = images.filter(image => hasUsableGps(getEffectiveGps(image)));
+  const features = collectLayerFeatures(layerImages);
+
+  if (options.format === 'kml' && options.thumbnails) {
+    // One at a time, so only a single decoded full-size image is in memory
+    for (let i = 0; i < features.length; i++) {
+      features[i].thumbnail = await createThumbnailDataUrl(layerImages[i]);
+    }
+  }
+
+  const format = LAYER_FORMATS.find(f => f.id === options.format)!;
+  const text = options.format === 'geojson' ? featuresToGeoJson(features)
+    : options.format === 'kml' ? featuresToKml(features, options.name)
+    : options.format === 'gpx' ? featuresToGpx(features, options.name)
+    : featuresToCsv(features);
+
+  saveFile(new Blob([text], { type: `${format.mimeType};charset=utf-8` }), `${options.name}.${format.extension}`);
+  return features.length;
+};
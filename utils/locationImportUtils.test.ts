@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isLocationFile } from './locationImportUtils';
+
+const file = (name: string, text: string) => new File([text], name);
+
+describe('isLocationFile', () => {
+  it('takes CSV and .geojson files by name', async () => {
+    expect(await isLocationFile(file('locations.csv', 'file,lat,lng'))).toBe(true);
+    expect(await isLocationFile(file('Survey.GEOJSON', ''))).toBe(true);
+    expect(await isLocationFile(file('photo.jpg', '{"type":"Point"}'))).toBe(false);
+  });
+
+  it('takes a .json file only when it holds GeoJSON', async () => {
+    expect(await isLocationFile(file('points.json', '{"type":"FeatureCollection","features":[]}'))).toBe(true);
+    expect(await isLocationFile(file('point.json', '{"type":"Point","coordinates":[69.24,41.3]}'))).toBe(true);
+    expect(await isLocationFile(file('features.json', '[{"type":"Feature","geometry":null,"properties":{}}]'))).toBe(true);
+  });
+
+  it('leaves other JSON alone', async () => {
+    expect(await isLocationFile(file('presets.json', '{"presets":[{"name":"Home","lat":41.3,"lng":69.24}]}'))).toBe(false);
+    expect(await isLocationFile(file('tiles.json', '{"type":"overlay","tiles":[]}'))).toBe(false);
+    expect(await isLocationFile(file('list.json', '[1, 2, 3]'))).toBe(false);
+    expect(await isLocationFile(file('empty.json', '[]'))).toBe(false);
+    expect(await isLocationFile(file('broken.json', '{"type":'))).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  GPSData,
+  LocationColumnMapping,
+  LocationField,
+  LocationMatch,
+  LocationMatchOptions,
+  LocationMatchResult,
+  LocationRow,
+  LocationTable,
+  UploadedImage
+} from '../types';
+import { parseCsv } from './csvUtils';
+import { readGeoJsonFeatures } from './geoJsonUtils';
+import { parseCoordinateInput } from './coordinateUtils';
+import { exifDateToTimestamp } from './geoUtils';
+
+export const LOCATION_FIELDS: { id: LocationField, label: string, required?: boolean }[] = [
+  { id: 'filename', label: 'File name' },
+  { id: 'lat', label: 'Latitude', required: true },
+  { id: 'lng', label: 'Longitude', required: true },
+  { id: 'alt', label: 'Altitude' },
+  { id: 'heading', label: 'Heading' },
+  { id: 'timestamp', label: 'Timestamp' },
+];
+
+// Header spellings seen in client spreadsheets and exiftool / Lightroom exports, compared without punctuation
+const COLUMN_ALIASES: Record<LocationField, string[]> = {
+  filename: ['filename', 'file', 'name', 'image', 'imagename', 'photo', 'path', 'sourcefile'],
+  lat: ['lat', 'latitude', 'gpslatitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'gpslongitude', 'x'],
+  alt: ['alt', 'altitude', 'ele', 'elevation', 'height', 'gpsaltitude'],
+  heading: ['heading', 'bearing', 'direction', 'course', 'azimuth', 'yaw', 'gpsimgdirection'],
+  timestamp: ['timestamp', 'time', 'datetime', 'datetimeoriginal', 'date', 'taken', 'captured', 'gpsdatetime'],
+};
+
+const GEOJSON_TYPES = ['FeatureCollection', 'Feature', 'Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'];
+
+const isGeoJsonObject = (value: unknown) =>
+  !!value && typeof value === 'object' && 'type' in value && typeof value.type === 'string' && GEOJSON_TYPES.includes(value.type);
+
+// Any other JSON dropped with the photos (a settings export, a tile manifest)
+// is not a location list, so a .json file is read to see whether it holds GeoJSON
+export const isLocationFile = async (file: File): Promise<boolean> => {
+  if (/\.(csv|geojson)$/i.test(file.name)) return true;
+  if (!/\.json$/i.test(file.name)) return false;
+  try {
+    const data: unknown = JSON.parse(await file.text());
+    return Array.isArray(data) ? data.length > 0 && data.every(isGeoJsonObject) : isGeoJsonObject(data);
+  } catch {
+    return false;
+  }
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (columns: string[]): LocationColumnMapping => {
+  const normalized = columns.map(normalizeHeader);
+  const mapping: LocationColumnMapping = {};
+  for (const field of Object.keys(COLUMN_ALIASES) as LocationField[]) {
+    // Alias order is preference order, e.g. "file" beats "name" when both exist
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1 && !Object.values(mapping).includes(index)) {
+        mapping[field] = index;
+        break;
+      }
+    }
+  }
+  return mapping;
+};
+
+// Point features become rows: their properties plus lng, lat and alt columns
+const geoJsonToTable = (fileName: string, text: string): LocationTable => {
+  const points = readGeoJsonFeatures(text).flatMap(f =>
+    f.geometry?.type === 'Point' && Array.isArray(f.geometry.coordinates) ? [{ properties: f.properties, coordinates: f.geometry.coordinates }] : []);
+  if (points.length === 0) throw new Error('No Point features found in this GeoJSON file');
+
+  const propertyNames = [...new Set(points.flatMap(f => Object.keys(f.properties || {})))];
+  const hasAltitude = points.some(f => f.coordinates.length > 2);
+  const columns = [...propertyNames, 'lng', 'lat', ...(hasAltitude ? ['alt'] : [])];
+  const cell = (value: unknown) => value === undefined || value === null ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  const rows = points.map(f => {
+    const [lng, lat, alt] = f.coordinates;
+    return [...propertyNames.map(name => cell(f.properties?.[name])), cell(lng), cell(lat), ...(hasAltitude ? [cell(alt)] : [])];
+  });
+  return { fileName, columns, rows };
+};
+
+export const parseLocationFile = (fileName: string, text: string): LocationTable => {
+  if (/\.csv$/i.test(fileName)) {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header || rows.length === 0) throw new Error('The CSV file has no rows');
+    return { fileName, columns: header.map(h => h.trim()), rows };
+  }
+  return geoJsonToTable(fileName, text);
+};
+
+// Spreadsheets from comma-decimal locales write 41,2995
+const parseNumber = (text: string | undefined): number => {
+  const value = (text || '').trim();
+  return parseFloat(value.includes('.') ? value : value.replace(',', '.'));
+};
+
+const ZONED_DATE = /^(\d{4})[:\-/](\d{2})[:\-/](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// ISO 8601, EXIF style "2024:05:17 14:03:22" or Unix epoch. Without a zone the
+// time is read in the camera's zone, since that is what the client usually copied.
+export const parseRowTimestamp = (text: string | undefined, utcOffsetMinutes: number): number | undefined => {
+  const value = (text || '').trim();
+  if (!value) return undefined;
+
+  if (/^\d{10}(\.\d+)?$/.test(value)) return Math.round(parseFloat(value) * 1000);
+  if (/^\d{13}$/.test(value)) return parseInt(value, 10);
+
+  const match = ZONED_DATE.exec(value);
+  if (match) {
+    const [, y, mo, d, h, mi, s = '0', fraction = '0', zone] = match;
+    const local = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, Math.round(parseFloat(`0.${fraction}`) * 1000));
+    let offset = utcOffsetMinutes;
+    if (zone && zone.toUpperCase() === 'Z') offset = 0;
+    else if (zone) {
+      const [, sign, zh, zm] = /^([+-])(\d{2}):?(\d{2})$/.exec(zone)!;
+      offset = (sign === '-' ? -1 : 1) * (parseInt(zh, 10) * 60 + parseInt(zm, 10));
+    }
+    return local - offset * 60 * 1000;
+  }
+
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const readLocationRows = (
+  table: LocationTable,
+  mapping: LocationColumnMapping,
+  utcOffsetMinutes: number
+): LocationRow[] => {
+  const get = (row: string[], field: LocationField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+  // CSV line numbers count the header, GeoJSON rows are numbered from 1
+  const firstLine = /\.csv$/i.test(table.fileName) ? 2 : 1;
+
+  return table.rows.map((cells, i): LocationRow => {
+    const line = firstLine + i;
+    const name = get(cells, 'filename')?.trim() || undefined;
+    const timeText = get(cells, 'timestamp');
+    const time = parseRowTimestamp(timeText, utcOffsetMinutes);
+
+    let lat = parseNumber(get(cells, 'lat'));
+    let lng = parseNumber(get(cells, 'lng'));
+    if (isNaN(lat) || isNaN(lng)) {
+      // DMS and DDM cells, e.g. 41°17'58"N
+      const parsed = parseCoordinateInput(`${get(cells, 'lat') || ''}, ${get(cells, 'lng') || ''}`);
+      lat = parsed ? parsed.lat : NaN;
+      lng = parsed ? parsed.lng : NaN;
+    }
+    if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { line, name, time, error: 'No valid latitude and longitude' };
+    }
+    if (timeText?.trim() && time === undefined) {
+      return { line, name, error: `Unreadable timestamp "${timeText.trim()}"` };
+    }
+
+    const alt = parseNumber(get(cells, 'alt'));
+    const heading = parseNumber(get(cells, 'heading'));
+    const gps: GPSData = {
+      lat,
+      lng,
+      altitude: isNaN(alt) ? undefined : alt,
+      heading: isNaN(heading) ? undefined : ((heading % 360) + 360) % 360,
+      headingRef: isNaN(heading) ? undefined : 'T',
+      timestamp: time === undefined ? undefined : new Date(time).toISOString()
+    };
+    return { line, name, gps, time };
+  });
+};
+
+// "C:\shoot\IMG_0042.JPG" and "IMG_0042" both name IMG_0042.jpg
+const nameKey = (name: string) => name.split(/[\\/]/).pop()!.toLowerCase();
+const stemKey = (name: string) => nameKey(name).replace(/\.[^.]+$/, '');
+
+// Rows are matched to photos by file name first; photos left over are matched
+// to the row closest in time to their DateTimeOriginal, within the tolerance.
+export const matchLocationRows = (
+  rows: LocationRow[],
+  images: UploadedImage[],
+  options: LocationMatchOptions
+): LocationMatchResult => {
+  const usable = rows.filter(row => row.gps);
+  const byName = new Map<string, LocationRow>();
+  for (const row of usable) {
+    if (!row.name) continue;
+    // The first row wins when a file is listed twice
+    if (!byName.has(nameKey(row.name))) byName.set(nameKey(row.name), row);
+    if (!byName.has(stemKey(row.name))) byName.set(stemKey(row.name), row);
+  }
+  const findByName = (image: UploadedImage) => byName.get(nameKey(image.file.name)) || byName.get(stemKey(image.file.name));
+  // A row that names a loaded photo belongs to it and is not offered to others by time
+  const named = new Set(images.map(findByName).filter(Boolean));
+  const timed = usable.filter(row => row.time !== undefined && !named.has(row)).sort((a, b) => a.time! - b.time!);
+
+  const nearestInTime = (time: number) => {
+    let lo = 0;
+    let hi = timed.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (timed[mid].time! <= time) lo = mid;
+      else hi = mid;
+    }
+    return [timed[lo], timed[hi]].reduce((best, row) => Math.abs(row.time! - time) < Math.abs(best.time! - time) ? row : best);
+  };
+
+  const matches: LocationMatch[] = [];
+  const used = new Set<LocationRow>();
+  const unmatchedImageIds: string[] = [];
+
+  for (const image of images) {
+    const row = findByName(image);
+    if (row) {
+      matches.push({ imageId: image.id, row, by: 'name' });
+      used.add(row);
+      continue;
+    }
+
+    const taken = image.metadata.dateTimeOriginal
+      ? exifDateToTimestamp(image.metadata.dateTimeOriginal, options.utcOffsetMinutes)
+      : null;
+    if (taken !== null && timed.length > 0) {
+      const nearest = nearestInTime(taken);
+      const offsetSeconds = (nearest.time! - taken) / 1000;
+      if (Math.abs(offsetSeconds) <= options.toleranceSeconds) {
+        matches.push({ imageId: image.id, row: nearest, by: 'timestamp', offsetSeconds });
+        used.add(nearest);
+        continue;
+      }
+    }
+    unmatchedImageIds.push(image.id);
+  }
+
+  return { matches, unmatchedRows: rows.filter(row => !used.has(row)), unmatchedImageIds };
+};
@@ -0,0 +1,51 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { openMbtiles } from './mbtilesUtils';
+
+// Built by sqlite3 from __fixtures__/tiles.mbtiles.sql: zooms 0-4 on 512 byte
+// pages, so both the table and the tile index span interior and leaf pages
+const fixture = () => new Blob([readFileSync(new URL('./__fixtures__/tiles.mbtiles', import.meta.url))]);
+
+const tileText = async (tile: Blob | null) => tile ? new TextDecoder().decode(await tile.arrayBuffer()) : null;
+
+describe('openMbtiles', () => {
+  it('reads the metadata table', async () => {
+    const { info } = await openMbtiles(fixture());
+    expect(info).toEqual({
+      format: 'png',
+      minZoom: 0,
+      maxZoom: 4,
+      bounds: [55.9, 37.1, 73.2, 45.6],
+      attribution: 'Test tiles'
+    });
+  });
+
+  it('finds every tile through the index, rows flipped from TMS', async () => {
+    const archive = await openMbtiles(fixture());
+    for (let z = 0; z <= 4; z++) {
+      for (let x = 0; x < 1 << z; x++) {
+        for (let y = 0; y < 1 << z; y++) {
+          if (z === 4 && x === 3 && y === 5) continue;
+          expect(await tileText(await archive.getTile(z, x, y))).toBe(`${z}/${x}/${y}`);
+        }
+      }
+    }
+  });
+
+  it('follows overflow pages for tiles larger than a page', async () => {
+    const archive = await openMbtiles(fixture());
+    const tile = await archive.getTile(4, 3, 5);
+    expect(tile?.type).toBe('image/png');
+    expect(await tileText(tile)).toBe('4/3/5' + 'x'.repeat(3000));
+  });
+
+  it('returns null for tiles outside the archive', async () => {
+    const archive = await openMbtiles(fixture());
+    expect(await archive.getTile(5, 0, 0)).toBeNull();
+    expect(await archive.getTile(2, 4, 0)).toBeNull();
+  });
+
+  it('rejects files that are not SQLite', async () => {
+    await expect(openMbtiles(new Blob(['PMTiles']))).rejects.toThrow('not an MBTiles file');
+  });
+});
@@ -0,0 +1,406 @@
+import { TileArchive, TileArchiveInfo } from '../types';
+
+// MBTiles are SQLite databases. This is a read-only reader for just the parts
+// of the SQLite file format a tile lookup needs: table and index B-trees,
+// records and overflow pages. Pages are sliced from the File on demand, so a
+// multi-gigabyte archive never has to fit in memory.
+
+type SqlValue = number | string | Uint8Array | null;
+type Row = Record<string, SqlValue>;
+
+interface SchemaObject {
+  type: string;
+  name: string;
+  table: string;
+  root: number;
+  sql: string;
+}
+
+interface BtreePage {
+  bytes: Uint8Array;
+  type: number;
+  cells: number[];
+  rightChild: number;
+}
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0D;
+const PAGE_INDEX_INTERIOR = 0x02;
+const PAGE_INDEX_LEAF = 0x0A;
+
+// Pages kept in memory; interior pages near the root are hit on every lookup
+const PAGE_CACHE_SIZE = 512;
+
+const textDecoder = new TextDecoder();
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Returns [value, byteLength]. Values above 2^53 lose precision, which rowids never reach here
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7F);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+// Big-endian two's complement; seeding with -1 for negatives carries the sign through
+const readInt = (bytes: Uint8Array, offset: number, size: number) => {
+  let value = bytes[offset] & 0x80 ? -1 : 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+const SERIAL_INT_SIZES = [0, 1, 2, 3, 4, 6, 8];
+
+const decodeRecord = (payload: Uint8Array): SqlValue[] => {
+  const [headerSize, headerLength] = readVarint(payload, 0);
+  const serialTypes: number[] = [];
+  for (let pos = headerLength; pos < headerSize;) {
+    const [serialType, length] = readVarint(payload, pos);
+    serialTypes.push(serialType);
+    pos += length;
+  }
+
+  const values: SqlValue[] = [];
+  let pos = headerSize;
+  for (const serialType of serialTypes) {
+    if (serialType === 0) {
+      values.push(null);
+    } else if (serialType <= 6) {
+      const size = SERIAL_INT_SIZES[serialType];
+      values.push(readInt(payload, pos, size));
+      pos += size;
+    } else if (serialType === 7) {
+      values.push(new DataView(payload.buffer, payload.byteOffset + pos, 8).getFloat64(0));
+      pos += 8;
+    } else if (serialType === 8 || serialType === 9) {
+      values.push(serialType - 8);
+    } else {
+      const size = Math.floor((serialType - 12) / 2);
+      const data = payload.subarray(pos, pos + size);
+      values.push(serialType % 2 === 0 ? data : textDecoder.decode(data));
+      pos += size;
+    }
+  }
+  return values;
+};
+
+// SQLite sort order: NULL, then numbers, then text, then blobs
+const typeRank = (value: SqlValue) =>
+  value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3;
+
+const compareValues = (a: SqlValue, b: SqlValue): number => {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0 || a === null) return rankDiff;
+  if (typeof a === 'number' || typeof a === 'string') return a < b! ? -1 : a > b! ? 1 : 0;
+  const other = b as Uint8Array;
+  for (let i = 0; i < Math.min(a.length, other.length); i++) {
+    if (a[i] !== other[i]) return a[i] - other[i];
+  }
+  return a.length - other.length;
+};
+
+// Compares only as many columns as the key has, index records end with the rowid
+const compareKey = (key: SqlValue[], record: SqlValue[]) => {
+  for (let i = 0; i < key.length; i++) {
+    const diff = compareValues(key[i], record[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const stripQuotes = (name: string) => name.replace(/^["'`[]|["'`\]]$/g, '');
+
+// Splits "a, b(1, 2), c" on the commas that are not inside parentheses
+const splitTopLevel = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const parenthesized = (sql: string) => sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+
+const TABLE_CONSTRAINT = /^(constraint|primary|unique|check|foreign)\b/i;
+
+const tableColumns = (sql: string) => splitTopLevel(parenthesized(sql))
+  .filter(def => !TABLE_CONSTRAINT.test(def))
+  .map(def => ({
+    name: stripQuotes(def.split(/\s+/)[0]).toLowerCase(),
+    // An INTEGER PRIMARY KEY column is the rowid itself and is stored as NULL
+    isRowid: /^\S+\s+integer\s+primary\s+key\b/i.test(def)
+  }));
+
+const indexColumns = (sql: string) => splitTopLevel(parenthesized(sql.slice(sql.search(/\bon\b/i))))
+  .map(def => stripQuotes(def.split(/\s+/)[0]).toLowerCase());
+
+// Column lists of UNIQUE / PRIMARY KEY constraints, in the order SQLite numbers its autoindexes
+const autoIndexColumns = (sql: string) => splitTopLevel(parenthesized(sql)).flatMap(def => {
+  const inline = def.match(/^(\S+)\s.*\b(unique|primary\s+key)\b/i);
+  if (inline && !TABLE_CONSTRAINT.test(def)) {
+    return /\binteger\s+primary\s+key\b/i.test(def) ? [] : [[stripQuotes(inline[1]).toLowerCase()]];
+  }
+  const constraint = def.match(/\b(?:unique|primary\s+key)\s*\(([^)]*)\)/i);
+  return constraint ? [splitTopLevel(constraint[1]).map(c => stripQuotes(c.split(/\s+/)[0]).toLowerCase())] : [];
+});
+
+const openSqlite = async (file: Blob) => {
+  const header = new Uint8Array(await file.slice(0, 100).arrayBuffer());
+  if (textDecoder.decode(header.subarray(0, 15)) !== 'SQLite format 3') {
+    throw new Error('This is not an MBTiles file (no SQLite header found)');
+  }
+  const rawPageSize = (header[16] << 8) | header[17];
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - header[20];
+  if (readUint32(header, 56) > 1) {
+    throw new Error('Only UTF-8 MBTiles files are supported');
+  }
+
+  const cache = new Map<number, Uint8Array>();
+  const readPage = async (pageNumber: number) => {
+    const cached = cache.get(pageNumber);
+    if (cached) {
+      // Re-insert so the Map's insertion order doubles as recency order
+      cache.delete(pageNumber);
+      cache.set(pageNumber, cached);
+      return cached;
+    }
+    const offset = (pageNumber - 1) * pageSize;
+    const bytes = new Uint8Array(await file.slice(offset, offset + pageSize).arrayBuffer());
+    cache.set(pageNumber, bytes);
+    if (cache.size > PAGE_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    return bytes;
+  };
+
+  const readBtreePage = async (pageNumber: number): Promise<BtreePage> => {
+    const bytes = await readPage(pageNumber);
+    // Page 1 starts with the 100 byte database header
+    const start = pageNumber === 1 ? 100 : 0;
+    const type = bytes[start];
+    const interior = type === PAGE_TABLE_INTERIOR || type === PAGE_INDEX_INTERIOR;
+    const cellCount = (bytes[start + 3] << 8) | bytes[start + 4];
+    const pointers = start + (interior ? 12 : 8);
+    const cells: number[] = [];
+    for (let i = 0; i < cellCount; i++) {
+      cells.push((bytes[pointers + i * 2] << 8) | bytes[pointers + i * 2 + 1]);
+    }
+    return { bytes, type, cells, rightChild: interior ? readUint32(bytes, start + 8) : 0 };
+  };
+
+  // Large payloads keep their head in the cell and chain the rest through overflow pages
+  const readPayload = async (bytes: Uint8Array, offset: number, size: number, isTable: boolean) => {
+    const maxLocal = isTable ? usableSize - 35 : Math.floor((usableSize - 12) * 64 / 255) - 23;
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+
+    const minLocal = Math.floor((usableSize - 12) * 32 / 255) - 23;
+    const spill = minLocal + ((size - minLocal) % (usableSize - 4));
+    const local = spill <= maxLocal ? spill : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(bytes.subarray(offset, offset + local));
+    let written = local;
+    let next = readUint32(bytes, offset + local);
+    while (written < size && next !== 0) {
+      const overflow = await readPage(next);
+      const chunk = Math.min(usableSize - 4, size - written);
+      payload.set(overflow.subarray(4, 4 + chunk), written);
+      written += chunk;
+      next = readUint32(overflow, 0);
+    }
+    return payload;
+  };
+
+  const readTableCell = async (page: BtreePage, cell: number) => {
+    const [size, sizeLength] = readVarint(page.bytes, cell);
+    const [rowid, rowidLength] = readVarint(page.bytes, cell + sizeLength);
+    return { rowid, read: async () => decodeRecord(await readPayload(page.bytes, cell + sizeLength + rowidLength, size, true)) };
+  };
+
+  const scanTable = async (root: number, visit: (rowid: number, values: SqlValue[]) => void): Promise<void> => {
+    const page = await readBtreePage(root);
+    if (page.type === PAGE_TABLE_INTERIOR) {
+      for (const cell of page.cells) await scanTable(readUint32(page.bytes, cell), visit);
+      await scanTable(page.rightChild, visit);
+    } else if (page.type === PAGE_TABLE_LEAF) {
+      for (const cell of page.cells) {
+        const { rowid, read } = await readTableCell(page, cell);
+        visit(rowid, await read());
+      }
+    } else {
+      throw new Error(`Unexpected SQLite page type ${page.type} in table`);
+    }
+  };
+
+  const findRow = async (root: number, rowid: number): Promise<SqlValue[] | null> => {
+    let page = await readBtreePage(root);
+    while (page.type === PAGE_TABLE_INTERIOR) {
+      // Each interior cell holds the largest rowid of its left subtree
+      let child = page.rightChild;
+      for (const cell of page.cells) {
+        if (rowid <= readVarint(page.bytes, cell + 4)[0]) {
+          child = readUint32(page.bytes, cell);
+          break;
+        }
+      }
+      page = await readBtreePage(child);
+    }
+    for (const cell of page.cells) {
+      const entry = await readTableCell(page, cell);
+      if (entry.rowid === rowid) return entry.read();
+    }
+    return null;
+  };
+
+  // Returns the rowid stored with the first index entry whose leading columns equal the key
+  const findInIndex = async (root: number, key: SqlValue[]): Promise<number | null> => {
+    let page = await readBtreePage(root);
+    for (;;) {
+      const interior = page.type === PAGE_INDEX_INTERIOR;
+      if (!interior && page.type !== PAGE_INDEX_LEAF) {
+        throw new Error(`Unexpected SQLite page type ${page.type} in index`);
+      }
+      let child = page.rightChild;
+      for (const cell of page.cells) {
+        const start = interior ? cell + 4 : cell;
+        const [size, sizeLength] = readVarint(page.bytes, start);
+        const record = decodeRecord(await readPayload(page.bytes, start + sizeLength, size, false));
+        const diff = compareKey(key, record);
+        if (diff === 0) return record[record.length - 1] as number;
+        if (diff < 0) {
+          child = interior ? readUint32(page.bytes, cell) : 0;
+          break;
+        }
+      }
+      if (!interior || child === 0) return null;
+      page = await readBtreePage(child);
+    }
+  };
+
+  const schema: SchemaObject[] = [];
+  await scanTable(1, (_rowid, [type, name, table, root, sql]) => {
+    schema.push({ type: String(type), name: String(name), table: String(table), root: Number(root), sql: String(sql ?? '') });
+  });
+
+  const getTable = (name: string) => {
+    const table = schema.find(o => o.type === 'table' && o.name.toLowerCase() === name);
+    if (!table) return null;
+    if (/\bwithout\s+rowid\b/i.test(table.sql)) {
+      throw new Error(`The "${name}" table is WITHOUT ROWID, which is not supported`);
+    }
+    const columns = tableColumns(table.sql);
+    const toRow = (rowid: number, values: SqlValue[]): Row =>
+      Object.fromEntries(columns.map((c, i) => [c.name, c.isRowid ? rowid : values[i] ?? null]));
+
+    // Any index, declared or automatic, whose leading columns are the ones asked for
+    const findIndex = (wanted: string[]) => {
+      const autoColumns = autoIndexColumns(table.sql);
+      const index = schema.find(o => {
+        if (o.type !== 'index' || o.table.toLowerCase() !== name) return false;
+        const auto = o.name.match(/^sqlite_autoindex_.+_(\d+)$/);
+        const columns = auto ? autoColumns[Number(auto[1]) - 1] || [] : indexColumns(o.sql);
+        return wanted.every((column, i) => columns[i] === column);
+      });
+      return index?.root;
+    };
+
+    return {
+      columns,
+      findIndex,
+      scan: (visit: (row: Row) => void) => scanTable(table.root, (rowid, values) => visit(toRow(rowid, values))),
+      get: async (rowid: number) => {
+        const values = await findRow(table.root, rowid);
+        return values ? toRow(rowid, values) : null;
+      },
+    };
+  };
+
+  return { getTable, findInIndex };
+};
+
+const TILE_KEY = ['zoom_level', 'tile_column', 'tile_row'];
+
+const MBTILES_FORMATS: Record<string, TileArchiveInfo['format']> = { png: 'png', jpg: 'jpg', jpeg: 'jpg', webp: 'webp' };
+
+export const openMbtiles = async (file: Blob): Promise<TileArchive> => {
+  const db = await openSqlite(file);
+
+  const metadata: Record<string, string> = {};
+  await db.getTable('metadata')?.scan(row => {
+    if (row.name !== null) metadata[String(row.name).toLowerCase()] = String(row.value ?? '');
+  });
+
+  const formatName = (metadata.format || 'png').toLowerCase();
+  const format = MBTILES_FORMATS[formatName];
+  if (!format) {
+    throw new Error(formatName === 'pbf'
+      ? 'Vector MBTiles (pbf) cannot be shown, export a raster (PNG/JPEG/WebP) archive instead'
+      : `Unsupported MBTiles tile format "${formatName}"`);
+  }
+
+  const bounds = metadata.bounds?.split(',').map(Number);
+  const info: TileArchiveInfo = {
+    format,
+    minZoom: parseInt(metadata.minzoom, 10) || 0,
+    maxZoom: parseInt(metadata.maxzoom, 10) || 18,
+    bounds: bounds?.length === 4 && bounds.every(n => !isNaN(n)) ? bounds as TileArchiveInfo['bounds'] : undefined,
+    attribution: metadata.attribution || undefined,
+  };
+  const type = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+  const toBlob = (data: SqlValue) => data instanceof Uint8Array ? new Blob([data as BlobPart], { type }) : null;
+  // MBTiles rows count up from the south (TMS), map tiles count down from the north
+  const tileKey = (z: number, x: number, y: number) => [z, x, (1 << z) - 1 - y];
+
+  const tiles = db.getTable('tiles');
+  if (tiles) {
+    const index = tiles.findIndex(TILE_KEY);
+    if (index === undefined) throw new Error('This MBTiles file has no tile index');
+    return {
+      info,
+      getTile: async (z, x, y) => {
+        const rowid = await db.findInIndex(index, tileKey(z, x, y));
+        const row = rowid === null ? null : await tiles.get(rowid);
+        return row ? toBlob(row.tile_data) : null;
+      }
+    };
+  }
+
+  // Deduplicated layout written by mbutil and others: "tiles" is a view joining map to images
+  const map = db.getTable('map');
+  const images = db.getTable('images');
+  const mapIndex = map?.findIndex(TILE_KEY);
+  if (!map || !images || mapIndex === undefined) {
+    throw new Error('No tiles table found in this MBTiles file');
+  }
+  const imagesIndex = images.findIndex(['tile_id']);
+  const imageIdIsRowid = images.columns.some(c => c.name === 'tile_id' && c.isRowid);
+  if (imagesIndex === undefined && !imageIdIsRowid) {
+    throw new Error('This MBTiles file has no index on images.tile_id');
+  }
+
+  return {
+    info,
+    getTile: async (z, x, y) => {
+      const mapRowid = await db.findInIndex(mapIndex, tileKey(z, x, y));
+      const mapRow = mapRowid === null ? null : await map.get(mapRowid);
+      if (!mapRow || mapRow.tile_id === null) return null;
+      const imageRowid = imagesIndex === undefined
+        ? Number(mapRow.tile_id)
+        : await db.findInIndex(imagesIndex, [mapRow.tile_id]);
+      const imageRow = imageRowid === null ? null : await images.get(imageRowid);
+      return imageRow ? toBlob(imageRow.tile_data) : null;
+    }
+  };
+};
@@ -0,0 +1,166 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { openPmtiles, zxyToTileId } from './pmtilesUtils';
+
+interface FixtureEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const varints = (values: number[]) => {
+  const bytes: number[] = [];
+  for (let value of values) {
+    while (value >= 0x80) {
+      bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+  }
+  return bytes;
+};
+
+// A directory as the v3 spec lays it out, column by column, gzipped
+const directory = (entries: FixtureEntry[]) => new Uint8Array(gzipSync(new Uint8Array([
+  ...varints([entries.length]),
+  ...varints(entries.map((entry, i) => entry.tileId - (i > 0 ? entries[i - 1].tileId : 0))),
+  ...varints(entries.map(entry => entry.runLength)),
+  ...varints(entries.map(entry => entry.length)),
+  ...varints(entries.map((entry, i) => {
+    const previous = entries[i - 1];
+    return previous && entry.offset === previous.offset + previous.length ? 0 : entry.offset + 1;
+  })),
+])));
+
+const SEA = 'sea';
+// The first z3 tiles along the curve share one tile, stored once as a run
+const SEA_IDS = [21, 22, 23, 24, 25];
+const MISSING = { z: 3, x: 7, y: 7 };
+
+// Zooms 0-3 with gzipped directories: a root pointing to leaves of 16 entries
+const fixture = () => {
+  const tiles: { tileId: number, data: string }[] = [];
+  for (let z = 0; z <= 3; z++) {
+    for (let x = 0; x < 1 << z; x++) {
+      for (let y = 0; y < 1 << z; y++) {
+        const tileId = zxyToTileId(z, x, y);
+        if (SEA_IDS.includes(tileId) || (z === MISSING.z && x === MISSING.x && y === MISSING.y)) continue;
+        tiles.push({ tileId, data: `${z}/${x}/${y}` });
+      }
+    }
+  }
+  tiles.push({ tileId: SEA_IDS[0], data: SEA });
+  tiles.sort((a, b) => a.tileId - b.tileId);
+
+  const encoder = new TextEncoder();
+  const tileData: Uint8Array<ArrayBuffer>[] = [];
+  const entries: FixtureEntry[] = [];
+  let offset = 0;
+  for (const tile of tiles) {
+    const data = encoder.encode(tile.data);
+    const runLength = tile.data === SEA ? SEA_IDS.length : 1;
+    entries.push({ tileId: tile.tileId, offset, length: data.length, runLength });
+    tileData.push(data);
+    offset += data.length;
+  }
+
+  const leaves: Uint8Array<ArrayBuffer>[] = [];
+  const root: FixtureEntry[] = [];
+  let leafOffset = 0;
+  for (let i = 0; i < entries.length; i += 16) {
+    const leaf = directory(entries.slice(i, i + 16));
+    root.push({ tileId: entries[i].tileId, offset: leafOffset, length: leaf.length, runLength: 0 });
+    leaves.push(leaf);
+    leafOffset += leaf.length;
+  }
+  const rootBytes = directory(root);
+
+  const header = new Uint8Array(127);
+  const view = new DataView(header.buffer);
+  header.set(encoder.encode('PMTiles'));
+  header[7] = 3;
+  const sections = [rootBytes.length, 0, leafOffset, offset];
+  let position = 127;
+  sections.forEach((length, i) => {
+    view.setBigUint64(8 + i * 16, BigInt(position), true);
+    view.setBigUint64(16 + i * 16, BigInt(length), true);
+    position += length;
+  });
+  view.setBigUint64(72, BigInt(tiles.length + SEA_IDS.length - 1), true);
+  view.setBigUint64(80, BigInt(entries.length), true);
+  view.setBigUint64(88, BigInt(entries.length), true);
+  header[96] = 1; // Clustered
+  header[97] = 2; // Internal compression: gzip
+  header[98] = 1; // Tile compression: none
+  header[99] = 2; // PNG
+  header[100] = 0;
+  header[101] = 3;
+  view.setInt32(102, 55.9e7, true);
+  view.setInt32(106, 37.1e7, true);
+  view.setInt32(110, 73.2e7, true);
+  view.setInt32(114, 45.6e7, true);
+
+  return new Blob([header, rootBytes, ...leaves, ...tileData]);
+};
+
+const tileText = async (tile: Blob | null) => tile ? new TextDecoder().decode(await tile.arrayBuffer()) : null;
+
+describe('zxyToTileId', () => {
+  it('numbers tiles along the Hilbert curve, lower zooms first', () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect([[0, 0], [0, 1], [1, 1], [1, 0]].map(([x, y]) => zxyToTileId(1, x, y))).toEqual([1, 2, 3, 4]);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+    expect(zxyToTileId(2, 3, 0)).toBe(20);
+    expect(zxyToTileId(12, 3423, 1763)).toBe(19078479);
+  });
+});
+
+describe('openPmtiles', () => {
+  it('reads the header', async () => {
+    const { info } = await openPmtiles(fixture());
+    expect(info.format).toBe('png');
+    expect(info.minZoom).toBe(0);
+    expect(info.maxZoom).toBe(3);
+    info.bounds!.forEach((value, i) => expect(value).toBeCloseTo([55.9, 37.1, 73.2, 45.6][i], 6));
+  });
+
+  it('finds every tile through the gzipped root and leaf directories', async () => {
+    const archive = await openPmtiles(fixture());
+    for (let z = 0; z <= 3; z++) {
+      for (let x = 0; x < 1 << z; x++) {
+        for (let y = 0; y < 1 << z; y++) {
+          const tileId = zxyToTileId(z, x, y);
+          if (SEA_IDS.includes(tileId) || (z === MISSING.z && x === MISSING.x && y === MISSING.y)) continue;
+          const tile = await archive.getTile(z, x, y);
+          expect(tile?.type).toBe('image/png');
+          expect(await tileText(tile)).toBe(`${z}/${x}/${y}`);
+        }
+      }
+    }
+  });
+
+  it('serves every tile of a run from the one stored copy', async () => {
+    const archive = await openPmtiles(fixture());
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        if (SEA_IDS.includes(zxyToTileId(3, x, y))) {
+          expect(await tileText(await archive.getTile(3, x, y))).toBe(SEA);
+        }
+      }
+    }
+  });
+
+  it('returns null for tiles the archive lacks', async () => {
+    const archive = await openPmtiles(fixture());
+    expect(await archive.getTile(MISSING.z, MISSING.x, MISSING.y)).toBeNull();
+    expect(await archive.getTile(4, 0, 0)).toBeNull();
+  });
+
+  it('rejects other files and versions', async () => {
+    await expect(openPmtiles(new Blob(['SQLite format 3\0']))).rejects.toThrow('not a PMTiles file');
+    const v2 = new Uint8Array(await fixture().arrayBuffer());
+    v2[7] = 2;
+    await expect(openPmtiles(new Blob([v2]))).rejects.toThrow('version 2');
+  });
+});
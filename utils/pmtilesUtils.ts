@@ -0,0 +1,170 @@
+import { TileArchive, TileArchiveInfo } from '../types';
+
+// Reader for PMTiles v3 single-file archives. Tiles are addressed by a Hilbert
+// curve ID and found through (possibly gzipped) directories; only the header,
+// the directories on the way to a tile and the tile itself are read.
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number; // 0 marks a pointer to a leaf directory
+}
+
+const HEADER_LENGTH = 127;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+
+const TILE_FORMATS: Record<number, TileArchiveInfo['format']> = { 2: 'png', 3: 'jpg', 4: 'webp' };
+
+// Leaf directories are shared by neighbouring tiles, so a handful covers a viewport
+const DIRECTORY_CACHE_SIZE = 64;
+
+const readVarint = (bytes: Uint8Array, state: { pos: number }) => {
+  let value = 0;
+  let factor = 1;
+  for (;;) {
+    const byte = bytes[state.pos++];
+    value += (byte & 0x7F) * factor;
+    if (!(byte & 0x80)) return value;
+    factor *= 128;
+  }
+};
+
+const decompress = async (bytes: Uint8Array, compression: number): Promise<Uint8Array> => {
+  if (compression === COMPRESSION_NONE || compression === 0) return bytes;
+  if (compression !== COMPRESSION_GZIP) {
+    throw new Error('Only uncompressed or gzip PMTiles are supported');
+  }
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const parseDirectory = (bytes: Uint8Array): DirectoryEntry[] => {
+  const state = { pos: 0 };
+  const count = readVarint(bytes, state);
+  const entries: DirectoryEntry[] = [];
+
+  // Columns are stored one after another: delta-coded IDs, run lengths, lengths, offsets
+  let tileId = 0;
+  for (let i = 0; i < count; i++) {
+    tileId += readVarint(bytes, state);
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const entry of entries) entry.runLength = readVarint(bytes, state);
+  for (const entry of entries) entry.length = readVarint(bytes, state);
+  entries.forEach((entry, i) => {
+    const offset = readVarint(bytes, state);
+    // 0 means "straight after the previous entry", everything else is stored plus one
+    entry.offset = offset === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : offset - 1;
+  });
+  return entries;
+};
+
+// Tiles of all lower zooms come first, then this zoom's tiles along a Hilbert curve
+export const zxyToTileId = (z: number, x: number, y: number): number => {
+  let id = (Math.pow(4, z) - 1) / 3;
+  const n = Math.pow(2, z);
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    id += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = n - 1 - x;
+        y = n - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return id;
+};
+
+// The last entry starting at or before the ID, which may be a run covering it
+const findEntry = (entries: DirectoryEntry[], tileId: number) => {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].tileId <= tileId) low = mid + 1;
+    else high = mid - 1;
+  }
+  return high >= 0 ? entries[high] : undefined;
+};
+
+export const openPmtiles = async (file: Blob): Promise<TileArchive> => {
+  const readRange = async (offset: number, length: number) =>
+    new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+  const header = await readRange(0, HEADER_LENGTH);
+  if (new TextDecoder().decode(header.subarray(0, 7)) !== 'PMTiles') {
+    throw new Error('This is not a PMTiles file');
+  }
+  if (header[7] !== 3) {
+    throw new Error(`PMTiles version ${header[7]} is not supported, convert it to version 3`);
+  }
+
+  const view = new DataView(header.buffer);
+  const uint64 = (offset: number) => Number(view.getBigUint64(offset, true));
+  const rootOffset = uint64(8);
+  const rootLength = uint64(16);
+  const leafOffset = uint64(40);
+  const tileDataOffset = uint64(56);
+  const internalCompression = header[97];
+  const tileCompression = header[98];
+  const tileType = header[99];
+
+  const format = TILE_FORMATS[tileType];
+  if (!format) {
+    throw new Error(tileType === 1
+      ? 'Vector PMTiles cannot be shown, export a raster (PNG/JPEG/WebP) archive instead'
+      : 'This PMTiles file has an unsupported tile type');
+  }
+
+  const info: TileArchiveInfo = {
+    format,
+    minZoom: header[100],
+    maxZoom: header[101],
+    bounds: [
+      view.getInt32(102, true) / 1e7,
+      view.getInt32(106, true) / 1e7,
+      view.getInt32(110, true) / 1e7,
+      view.getInt32(114, true) / 1e7
+    ],
+  };
+
+  const rootDirectory = parseDirectory(await decompress(await readRange(rootOffset, rootLength), internalCompression));
+  const leafCache = new Map<number, DirectoryEntry[]>();
+  const readLeaf = async (offset: number, length: number) => {
+    const cached = leafCache.get(offset);
+    if (cached) return cached;
+    const entries = parseDirectory(await decompress(await readRange(leafOffset + offset, length), internalCompression));
+    leafCache.set(offset, entries);
+    if (leafCache.size > DIRECTORY_CACHE_SIZE) leafCache.delete(leafCache.keys().next().value!);
+    return entries;
+  };
+
+  const type = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+
+  return {
+    info,
+    getTile: async (z, x, y) => {
+      const tileId = zxyToTileId(z, x, y);
+      let directory = rootDirectory;
+      // The spec allows at most three levels of leaf directories below the root
+      for (let depth = 0; depth <= 3; depth++) {
+        const entry = findEntry(directory, tileId);
+        if (!entry) return null;
+        if (entry.runLength === 0) {
+          directory = await readLeaf(entry.offset, entry.length);
+          continue;
+        }
+        if (tileId >= entry.tileId + entry.runLength) return null;
+        const data = await decompress(await readRange(tileDataOffset + entry.offset, entry.length), tileCompression);
+        return new Blob([data as BlobPart], { type });
+      }
+      return null;
+    }
+  };
+};
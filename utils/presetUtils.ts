@@ -0,0 +1,115 @@
+import { GPSData, LocationPreset } from '../types';
+import { distanceMeters } from './geoUtils';
+import { readSetting, writeSetting } from './settingsUtils';
+
+const SETTINGS_KEY = 'locationPresets';
+
+// An image this close to a preset was most likely taken at that site
+export const PRESET_MATCH_METERS = 150;
+
+export const UNGROUPED_LABEL = 'Ungrouped';
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === 'number' && Math.abs(value) <= limit;
+
+const optionalNumber = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : undefined;
+
+// Accepts hand-edited or older files: unknown fields are dropped, ids are optional
+const toPreset = (raw: unknown): LocationPreset | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, name, lat, lng, altitude, heading, group, tags }: {
+    id?: unknown; name?: unknown; lat?: unknown; lng?: unknown; altitude?: unknown; heading?: unknown; group?: unknown; tags?: unknown
+  } = raw;
+  if (typeof name !== 'string' || !name.trim() || !isCoordinate(lat, 90) || !isCoordinate(lng, 180)) return null;
+  const tagList = Array.isArray(tags) ? tags.filter((t): t is string => typeof t === 'string' && t.trim() !== '') : [];
+  return {
+    id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+    name: name.trim(),
+    lat,
+    lng,
+    altitude: optionalNumber(altitude),
+    heading: optionalNumber(heading),
+    group: typeof group === 'string' && group.trim() ? group.trim() : undefined,
+    tags: tagList.length > 0 ? tagList : undefined
+  };
+};
+
+export const loadPresets = (): LocationPreset[] => {
+  const stored = readSetting<unknown>(SETTINGS_KEY, []);
+  return Array.isArray(stored) ? stored.map(toPreset).filter((p): p is LocationPreset => p !== null) : [];
+};
+
+export const savePresets = (presets: LocationPreset[]) => writeSetting(SETTINGS_KEY, presets);
+
+// Moves the pin; altitude and heading only change when the preset has them
+export const applyPreset = (gps: GPSData, preset: LocationPreset): GPSData => ({
+  ...gps,
+  lat: preset.lat,
+  lng: preset.lng,
+  altitude: preset.altitude ?? gps.altitude,
+  heading: preset.heading ?? gps.heading
+});
+
+export const findNearestPreset = (presets: LocationPreset[], gps: GPSData, maxMeters = PRESET_MATCH_METERS) => {
+  let nearest: { preset: LocationPreset; distance: number } | undefined;
+  for (const preset of presets) {
+    const distance = distanceMeters(gps, preset);
+    if (distance <= maxMeters && (!nearest || distance < nearest.distance)) {
+      nearest = { preset, distance };
+    }
+  }
+  return nearest;
+};
+
+export const filterPresets = (presets: LocationPreset[], query: string): LocationPreset[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return presets;
+  return presets.filter(p => [p.name, p.group, ...(p.tags || [])].some(text => text?.toLowerCase().includes(needle)));
+};
+
+// Groups sorted by name with ungrouped presets last; presets sorted by name within a group
+export const groupPresets = (presets: LocationPreset[]): [string, LocationPreset[]][] => {
+  const groups = new Map<string, LocationPreset[]>();
+  for (const preset of presets) {
+    const group = preset.group || UNGROUPED_LABEL;
+    groups.set(group, [...(groups.get(group) || []), preset]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === UNGROUPED_LABEL ? 1 : b === UNGROUPED_LABEL ? -1 : a.localeCompare(b)))
+    .map(([group, items]) => [group, items.sort((a, b) => a.name.localeCompare(b.name))]);
+};
+
+// Splits "site, north , ,phase 2" into tags
+export const parseTagList = (text: string): string[] | undefined => {
+  const tags = text.split(',').map(t => t.trim()).filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+};
+
+const PRESETS_FILE_VERSION = 1;
+
+export const serializePresets = (presets: LocationPreset[]): string =>
+  JSON.stringify({ version: PRESETS_FILE_VERSION, presets }, null, 2);
+
+// Takes our own export or a bare array of presets
+export const parsePresetsJson = (text: string): LocationPreset[] => {
+  const data: unknown = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data) ? data
+    : data && typeof data === 'object' && 'presets' in data && Array.isArray(data.presets) ? data.presets
+    : [];
+  const presets = list.map(toPreset).filter((p): p is LocationPreset => p !== null);
+  if (presets.length === 0) {
+    throw new Error('No presets found in this file');
+  }
+  return presets;
+};
+
+// A shared list updates presets with the same name and group instead of duplicating them
+export const mergePresets = (existing: LocationPreset[], incoming: LocationPreset[]): LocationPreset[] => {
+  const key = (p: LocationPreset) => `${(p.group || '').toLowerCase()}\u0000${p.name.toLowerCase()}`;
+  const merged = new Map(existing.map(p => [key(p), p]));
+  for (const preset of incoming) {
+    const current = merged.get(key(preset));
+    merged.set(key(preset), { ...preset, id: current ? current.id : crypto.randomUUID() });
+  }
+  return [...merged.values()];
+};
@@ -0,0 +1,255 @@
+import { ExifTagEdits, GPSData, TrackPoint, UploadedImage, XmpLocation } from '../types';
+import { EditHistory } from './historyUtils';
+import { loadUploadedImage } from './imageUtils';
+import { createZipWriter, readZipEntries } from './zipUtils';
+import { saveFile } from './downloadUtils';
+
+// Work in progress is kept in IndexedDB, so a reload or a crashed tab loses
+// nothing. Image files are stored once per image id and shared by the autosave
+// and every named project that includes them, and deleted once none does.
+
+const DB_NAME = 'geotagger';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const FILE_STORE = 'files';
+
+// The session written continuously while working; named projects get their own ids
+export const AUTOSAVE_ID = 'autosave';
+
+export const PROJECT_FILE_EXTENSION = '.geotagger';
+
+// Everything about an image except the file itself, whose metadata is read again on restore
+export interface StoredImage {
+  id: string;
+  fileName: string;
+  fileType: string;
+  lastModified: number;
+  sidecarXmp?: XmpLocation;
+  sidecarXmpPacket?: string;
+  pendingLocation?: XmpLocation;
+  pendingGps?: GPSData;
+  pendingTags?: ExifTagEdits;
+  altitudeLocked?: boolean;
+}
+
+export interface SessionSnapshot {
+  id: string;
+  name: string;
+  savedAt: number; // Epoch milliseconds
+  images: StoredImage[];
+  activeId: string | null;
+  histories: Record<string, EditHistory>;
+  mapCenter: GPSData;
+  track: TrackPoint[];
+  trackName: string | null;
+}
+
+// The part of the app state a session keeps
+export interface SessionState {
+  images: UploadedImage[];
+  activeId: string | null;
+  histories: Record<string, EditHistory>;
+  mapCenter: GPSData;
+  track: TrackPoint[];
+  trackName: string | null;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Private windows in some browsers refuse IndexedDB, the next call tries again
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error('Saving the session was aborted'));
+});
+
+// Deletes stored files that no session refers to anymore
+const pruneFiles = async (sessionStore: IDBObjectStore, fileStore: IDBObjectStore) => {
+  const sessions: SessionSnapshot[] = await requestResult(sessionStore.getAll());
+  const referenced = new Set(sessions.flatMap(session => session.images.map(image => image.id)));
+  const storedIds = await requestResult(fileStore.getAllKeys());
+  storedIds.filter(id => !referenced.has(String(id))).forEach(id => fileStore.delete(id));
+};
+
+const storeSession = async (snapshot: SessionSnapshot, files: Map<string, Blob>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessionStore = transaction.objectStore(SESSION_STORE);
+  const fileStore = transaction.objectStore(FILE_STORE);
+
+  // Files never change once loaded, so each is written only the first time
+  const storedIds = new Set((await requestResult(fileStore.getAllKeys())).map(String));
+  files.forEach((file, id) => {
+    if (!storedIds.has(id)) fileStore.put(file, id);
+  });
+  sessionStore.put(snapshot);
+  await pruneFiles(sessionStore, fileStore);
+  await done;
+};
+
+export const saveSession = async (id: string, name: string, state: SessionState): Promise<SessionSnapshot> => {
+  const ids = new Set(state.images.map(image => image.id));
+  const snapshot: SessionSnapshot = {
+    id,
+    name,
+    savedAt: Date.now(),
+    images: state.images.map(image => ({
+      id: image.id,
+      fileName: image.file.name,
+      fileType: image.file.type,
+      lastModified: image.file.lastModified,
+      sidecarXmp: image.sidecarXmp,
+      sidecarXmpPacket: image.sidecarXmpPacket,
+      pendingLocation: image.pendingLocation,
+      pendingGps: image.pendingGps,
+      pendingTags: image.pendingTags,
+      altitudeLocked: image.altitudeLocked
+    })),
+    activeId: state.activeId,
+    // Histories of removed images are dropped with them
+    histories: Object.fromEntries(Object.entries(state.histories).filter(([imageId]) => ids.has(imageId))),
+    mapCenter: state.mapCenter,
+    track: state.track,
+    trackName: state.trackName
+  };
+  await storeSession(snapshot, new Map(state.images.map(image => [image.id, image.file])));
+  return snapshot;
+};
+
+export const loadSession = async (id: string): Promise<SessionSnapshot | undefined> => {
+  const db = await openDatabase();
+  return requestResult(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id));
+};
+
+// Named projects, newest first
+export const listProjects = async (): Promise<SessionSnapshot[]> => {
+  const db = await openDatabase();
+  const sessions: SessionSnapshot[] = await requestResult(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+  return sessions.filter(session => session.id !== AUTOSAVE_ID).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const deleteSession = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessionStore = transaction.objectStore(SESSION_STORE);
+  sessionStore.delete(id);
+  await pruneFiles(sessionStore, transaction.objectStore(FILE_STORE));
+  await done;
+};
+
+const readStoredFile = async (image: StoredImage): Promise<File | undefined> => {
+  const db = await openDatabase();
+  const blob: Blob | undefined = await requestResult(db.transaction(FILE_STORE).objectStore(FILE_STORE).get(image.id));
+  return blob && new File([blob], image.fileName, { type: image.fileType, lastModified: image.lastModified });
+};
+
+// Images are read back one at a time, each file is fully loaded while its metadata is parsed
+export const restoreSession = async (snapshot: SessionSnapshot): Promise<{ state: SessionState, failed: string[] }> => {
+  const images: UploadedImage[] = [];
+  const failed: string[] = [];
+
+  for (const stored of snapshot.images) {
+    try {
+      const file = await readStoredFile(stored);
+      if (!file) throw new Error('The file is missing from storage');
+      const loaded = await loadUploadedImage(file);
+      images.push({
+        ...loaded,
+        id: stored.id,
+        sidecarXmp: stored.sidecarXmp,
+        sidecarXmpPacket: stored.sidecarXmpPacket,
+        pendingLocation: stored.pendingLocation,
+        pendingGps: stored.pendingGps,
+        pendingTags: stored.pendingTags,
+        altitudeLocked: stored.altitudeLocked
+      });
+    } catch (error) {
+      console.error(`Failed to restore ${stored.fileName}`, error);
+      failed.push(stored.fileName);
+    }
+  }
+
+  const ids = new Set(images.map(image => image.id));
+  return {
+    state: {
+      images,
+      activeId: snapshot.activeId && ids.has(snapshot.activeId) ? snapshot.activeId : images[0]?.id ?? null,
+      histories: Object.fromEntries(Object.entries(snapshot.histories).filter(([id]) => ids.has(id))),
+      mapCenter: snapshot.mapCenter,
+      track: snapshot.track,
+      trackName: snapshot.trackName
+    },
+    failed
+  };
+};
+
+// A project file is a ZIP with project.json and every image under images/<id>
+export const exportProjectFile = async (snapshot: SessionSnapshot) => {
+  const parts: Blob[] = [];
+  const zip = createZipWriter(async (chunk) => { parts.push(new Blob([chunk as BlobPart])); });
+  const encoder = new TextEncoder();
+
+  await zip.addFile('project.json', encoder.encode(JSON.stringify(snapshot, null, 2)));
+  for (const image of snapshot.images) {
+    const file = await readStoredFile(image);
+    if (!file) throw new Error(`${image.fileName} is missing from storage`);
+    await zip.addFile(`images/${image.id}`, new Uint8Array(await file.arrayBuffer()), new Date(image.lastModified));
+  }
+  await zip.finish();
+
+  const fileName = `${snapshot.name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_') || 'project'}${PROJECT_FILE_EXTENSION}`;
+  saveFile(new Blob(parts, { type: 'application/zip' }), fileName);
+};
+
+// Stores an exported project as a new named project and returns it
+export const importProjectFile = async (file: File): Promise<SessionSnapshot> => {
+  const entries = await readZipEntries(file);
+  const manifest = entries.get('project.json');
+  if (!manifest) throw new Error('This is not a GeoTagger project file');
+
+  const project = JSON.parse(await manifest.text()) as SessionSnapshot;
+  if (!Array.isArray(project.images)) throw new Error('The project file has no image list');
+
+  const files = new Map<string, Blob>();
+  for (const image of project.images) {
+    const blob = entries.get(`images/${image.id}`);
+    if (!blob) throw new Error(`${image.fileName} is missing from the project file`);
+    files.set(image.id, blob);
+  }
+
+  const snapshot: SessionSnapshot = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: project.name || file.name.replace(/\.[^.]+$/, ''),
+    savedAt: Date.now(),
+    histories: project.histories || {},
+    track: project.track || [],
+    trackName: project.trackName ?? null
+  };
+  await storeSession(snapshot, files);
+  return snapshot;
+};
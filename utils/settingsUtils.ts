@@ -0,0 +1,21 @@
+// User preferences kept in localStorage between sessions. Reads fall back to the
+// default and writes only log, so private browsing or a full quota never breaks the app.
+const KEY_PREFIX = 'geotagger.';
+
+export const readSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(KEY_PREFIX + key);
+    return stored === null ? fallback : JSON.parse(stored) as T;
+  } catch (error) {
+    console.error(`Failed to read setting "${key}"`, error);
+    return fallback;
+  }
+};
+
+export const writeSetting = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save setting "${key}"`, error);
+  }
+};
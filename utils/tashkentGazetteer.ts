@@ -0,0 +1,95 @@
+import { Gazetteer } from '../types';
+
+// Hand-collected starter list. Points are approximate (within a few hundred
+// meters) and only meant to get the pin close; import an OSM extract for
+// street-level detail.
+export const TASHKENT_GAZETTEER: Gazetteer = {
+  id: 'tashkent',
+  name: 'Tashkent (built-in)',
+  city: 'Tashkent',
+  state: 'Tashkent',
+  country: 'Uzbekistan',
+  countryCode: 'UZ',
+  entries: [
+    // Districts (tumanlar)
+    { name: 'Bektemir', altNames: ['Бектемир'], kind: 'district', lat: 41.2100, lng: 69.3350 },
+    { name: 'Chilonzor', altNames: ['Chilanzar', 'Чиланзар'], kind: 'district', lat: 41.2750, lng: 69.2050 },
+    { name: 'Mirobod', altNames: ['Mirabad', 'Мирабад'], kind: 'district', lat: 41.2900, lng: 69.2900 },
+    { name: 'Mirzo Ulugʻbek', altNames: ['Mirzo Ulugbek', 'Мирзо-Улугбек'], kind: 'district', lat: 41.3280, lng: 69.3350 },
+    { name: 'Olmazor', altNames: ['Almazar', 'Алмазар'], kind: 'district', lat: 41.3500, lng: 69.2200 },
+    { name: 'Sergeli', altNames: ['Сергели'], kind: 'district', lat: 41.2250, lng: 69.2200 },
+    { name: 'Shayxontohur', altNames: ['Shaykhantahur', 'Шайхантахур'], kind: 'district', lat: 41.3250, lng: 69.2300 },
+    { name: 'Uchtepa', altNames: ['Учтепа'], kind: 'district', lat: 41.2930, lng: 69.1800 },
+    { name: 'Yakkasaroy', altNames: ['Yakkasaray', 'Яккасарай'], kind: 'district', lat: 41.2900, lng: 69.2600 },
+    { name: 'Yangihayot', altNames: ['Янгихаёт'], kind: 'district', lat: 41.2000, lng: 69.2300 },
+    { name: 'Yashnobod', altNames: ['Yashnabad', 'Яшнабад'], kind: 'district', lat: 41.2950, lng: 69.3400 },
+    { name: 'Yunusobod', altNames: ['Yunusabad', 'Юнусабад'], kind: 'district', lat: 41.3650, lng: 69.2880 },
+
+    // Mahallas and historic quarters
+    { name: 'Eski Shahar', altNames: ['Old City', 'Старый город'], kind: 'mahalla', lat: 41.3270, lng: 69.2330, district: 'Shayxontohur' },
+    { name: 'Hadra', altNames: ['Xadra', 'Хадра'], kind: 'mahalla', lat: 41.3215, lng: 69.2430, district: 'Shayxontohur' },
+    { name: 'Qoʻyliq', altNames: ['Kuyluk', 'Куйлюк'], kind: 'mahalla', lat: 41.2420, lng: 69.3370, district: 'Bektemir' },
+    { name: 'Qoraqamish', altNames: ['Karakamysh', 'Каракамыш'], kind: 'mahalla', lat: 41.3330, lng: 69.1950, district: 'Olmazor' },
+    { name: 'Ts-1 (Center-1)', altNames: ['Ц-1', 'Центр-1'], kind: 'mahalla', lat: 41.3140, lng: 69.2830, district: 'Yunusobod' },
+
+    // Streets and avenues
+    { name: 'Amir Temur shoh koʻchasi', altNames: ['Amir Temur Avenue', 'проспект Амира Темура'], kind: 'street', lat: 41.3300, lng: 69.2850 },
+    { name: 'Afrosiyob koʻchasi', altNames: ['Afrosiab Street', 'улица Афросиаб'], kind: 'street', lat: 41.3000, lng: 69.2730, district: 'Mirobod' },
+    { name: 'Bunyodkor shoh koʻchasi', altNames: ['Bunyodkor Avenue', 'проспект Бунёдкор'], kind: 'street', lat: 41.2870, lng: 69.2170, district: 'Chilonzor' },
+    { name: 'Buyuk Ipak Yoʻli koʻchasi', altNames: ['Great Silk Road Street', 'улица Буюк Ипак Йули'], kind: 'street', lat: 41.3260, lng: 69.3300, district: 'Mirzo Ulugʻbek' },
+    { name: 'Mustaqillik shoh koʻchasi', altNames: ['Mustaqillik Avenue', 'проспект Мустакиллик'], kind: 'street', lat: 41.3250, lng: 69.2950, district: 'Mirzo Ulugʻbek' },
+    { name: 'Navoiy koʻchasi', altNames: ['Navoi Street', 'улица Навои'], kind: 'street', lat: 41.3170, lng: 69.2540, district: 'Shayxontohur' },
+    { name: 'Sayilgoh koʻchasi', altNames: ['Broadway', 'Бродвей', 'улица Сайилгох'], kind: 'street', lat: 41.3125, lng: 69.2760, district: 'Yunusobod' },
+    { name: 'Shota Rustaveli koʻchasi', altNames: ['Shota Rustaveli Street', 'улица Шота Руставели'], kind: 'street', lat: 41.2890, lng: 69.2700, district: 'Yakkasaroy' },
+
+    // Landmarks
+    { name: 'Amir Temur xiyoboni', altNames: ['Amir Timur Square', 'сквер Амира Темура'], kind: 'landmark', lat: 41.3111, lng: 69.2797, district: 'Yunusobod' },
+    { name: 'Mustaqillik maydoni', altNames: ['Independence Square', 'площадь Независимости'], kind: 'landmark', lat: 41.3160, lng: 69.2741, district: 'Shayxontohur' },
+    { name: 'Chorsu bozori', altNames: ['Chorsu Bazaar', 'базар Чорсу'], kind: 'landmark', lat: 41.3265, lng: 69.2364, district: 'Shayxontohur' },
+    { name: 'Hazrati Imom majmuasi', altNames: ['Khast Imam Complex', 'Хазрати Имам'], kind: 'landmark', lat: 41.3380, lng: 69.2403, district: 'Olmazor' },
+    { name: 'Koʻkaldosh madrasasi', altNames: ['Kukeldash Madrasa', 'медресе Кукельдаш'], kind: 'landmark', lat: 41.3249, lng: 69.2383, district: 'Shayxontohur' },
+    { name: 'Toshkent teleminorasi', altNames: ['Tashkent TV Tower', 'Ташкентская телебашня'], kind: 'landmark', lat: 41.3456, lng: 69.2850, district: 'Yunusobod' },
+    { name: 'Alisher Navoiy nomidagi teatr', altNames: ['Navoi Opera Theater', 'Большой театр имени Навои'], kind: 'landmark', lat: 41.3136, lng: 69.2734, district: 'Yunusobod' },
+    { name: 'Minor masjidi', altNames: ['Minor Mosque', 'мечеть Минор'], kind: 'landmark', lat: 41.3250, lng: 69.2880, district: 'Yunusobod' },
+    { name: 'Toshkent xalqaro aeroporti', altNames: ['Tashkent International Airport', 'аэропорт Ташкент'], kind: 'landmark', lat: 41.2579, lng: 69.2812, district: 'Yashnobod' },
+    { name: 'Toshkent temir yoʻl vokzali', altNames: ['Tashkent Railway Station', 'Северный вокзал'], kind: 'landmark', lat: 41.2916, lng: 69.2868, district: 'Mirobod' },
+    { name: 'Tashkent City bogʻi', altNames: ['Tashkent City Park', 'парк Ташкент Сити'], kind: 'landmark', lat: 41.3158, lng: 69.2480, district: 'Shayxontohur' },
+    { name: 'Botanika bogʻi', altNames: ['Botanical Garden', 'Ботанический сад'], kind: 'landmark', lat: 41.3420, lng: 69.3250, district: 'Mirzo Ulugʻbek' },
+
+    // Metro: Chilonzor line
+    { name: 'Olmazor metro', altNames: ['Олмазор'], kind: 'metro', lat: 41.2460, lng: 69.1890, district: 'Chilonzor' },
+    { name: 'Chilonzor metro', altNames: ['Чиланзар'], kind: 'metro', lat: 41.2734, lng: 69.2040, district: 'Chilonzor' },
+    { name: 'Mirzo Ulugʻbek metro', altNames: ['Мирзо Улугбек'], kind: 'metro', lat: 41.2826, lng: 69.2138, district: 'Chilonzor' },
+    { name: 'Novza metro', altNames: ['Новза'], kind: 'metro', lat: 41.2921, lng: 69.2240, district: 'Chilonzor' },
+    { name: 'Milliy bogʻ metro', altNames: ['Миллий бог'], kind: 'metro', lat: 41.3010, lng: 69.2350, district: 'Chilonzor' },
+    { name: 'Bunyodkor metro', altNames: ['Бунёдкор', 'Xalqlar doʻstligi'], kind: 'metro', lat: 41.3055, lng: 69.2440, district: 'Shayxontohur' },
+    { name: 'Paxtakor metro', altNames: ['Пахтакор'], kind: 'metro', lat: 41.3082, lng: 69.2544, district: 'Shayxontohur' },
+    { name: 'Mustaqillik maydoni metro', altNames: ['Мустакиллик майдони'], kind: 'metro', lat: 41.3120, lng: 69.2690, district: 'Shayxontohur' },
+    { name: 'Amir Temur xiyoboni metro', altNames: ['Амир Темур хиёбони'], kind: 'metro', lat: 41.3114, lng: 69.2796, district: 'Yunusobod' },
+    { name: 'Hamid Olimjon metro', altNames: ['Хамид Алимджан'], kind: 'metro', lat: 41.3135, lng: 69.2941, district: 'Mirzo Ulugʻbek' },
+    { name: 'Pushkin metro', altNames: ['Пушкин'], kind: 'metro', lat: 41.3160, lng: 69.3085, district: 'Mirzo Ulugʻbek' },
+    { name: 'Buyuk Ipak Yoʻli metro', altNames: ['Буюк Ипак Йули'], kind: 'metro', lat: 41.3262, lng: 69.3346, district: 'Mirzo Ulugʻbek' },
+
+    // Metro: Oʻzbekiston line
+    { name: 'Beruniy metro', altNames: ['Беруний'], kind: 'metro', lat: 41.3441, lng: 69.2063, district: 'Olmazor' },
+    { name: 'Tinchlik metro', altNames: ['Тинчлик'], kind: 'metro', lat: 41.3372, lng: 69.2206, district: 'Olmazor' },
+    { name: 'Chorsu metro', altNames: ['Чорсу'], kind: 'metro', lat: 41.3267, lng: 69.2362, district: 'Shayxontohur' },
+    { name: 'Gʻafur Gʻulom metro', altNames: ['Гафур Гулям'], kind: 'metro', lat: 41.3190, lng: 69.2455, district: 'Shayxontohur' },
+    { name: 'Alisher Navoiy metro', altNames: ['Алишер Навои'], kind: 'metro', lat: 41.3143, lng: 69.2579, district: 'Shayxontohur' },
+    { name: 'Oʻzbekiston metro', altNames: ['Узбекистон'], kind: 'metro', lat: 41.3130, lng: 69.2700, district: 'Yunusobod' },
+    { name: 'Kosmonavtlar metro', altNames: ['Космонавтлар'], kind: 'metro', lat: 41.3055, lng: 69.2735, district: 'Mirobod' },
+    { name: 'Oybek metro', altNames: ['Ойбек'], kind: 'metro', lat: 41.2965, lng: 69.2746, district: 'Mirobod' },
+    { name: 'Toshkent metro', altNames: ['Ташкент'], kind: 'metro', lat: 41.2913, lng: 69.2872, district: 'Mirobod' },
+    { name: 'Mashinasozlar metro', altNames: ['Машинасозлар'], kind: 'metro', lat: 41.2914, lng: 69.3046, district: 'Yashnobod' },
+    { name: 'Doʻstlik metro', altNames: ['Дустлик'], kind: 'metro', lat: 41.2906, lng: 69.3251, district: 'Yashnobod' },
+
+    // Metro: Yunusobod line
+    { name: 'Yunus Rajabiy metro', altNames: ['Юнус Ражабий'], kind: 'metro', lat: 41.3150, lng: 69.2780, district: 'Yunusobod' },
+    { name: 'Minor metro', altNames: ['Минор'], kind: 'metro', lat: 41.3270, lng: 69.2840, district: 'Yunusobod' },
+    { name: 'Abdulla Qodiriy metro', altNames: ['Абдулла Кадыри'], kind: 'metro', lat: 41.3320, lng: 69.2830, district: 'Yunusobod' },
+    { name: 'Bodomzor metro', altNames: ['Бодомзор'], kind: 'metro', lat: 41.3380, lng: 69.2852, district: 'Yunusobod' },
+    { name: 'Shahriston metro', altNames: ['Шахристон'], kind: 'metro', lat: 41.3492, lng: 69.2877, district: 'Yunusobod' },
+    { name: 'Yunusobod metro', altNames: ['Юнусобод'], kind: 'metro', lat: 41.3620, lng: 69.2900, district: 'Yunusobod' },
+    { name: 'Turkiston metro', altNames: ['Туркистон'], kind: 'metro', lat: 41.3700, lng: 69.2930, district: 'Yunusobod' },
+  ]
+};
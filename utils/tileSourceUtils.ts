@@ -0,0 +1,124 @@
+import { MapLayerSettings, MapViewState, TileArchive, TileSource, TileSourceKind } from '../types';
+import { openMbtiles } from './mbtilesUtils';
+import { openPmtiles } from './pmtilesUtils';
+import { readSetting, writeSetting } from './settingsUtils';
+
+const ESRI_IMAGERY = 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}';
+const ESRI_IMAGERY_ATTRIBUTION = 'Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community';
+
+export const BUILT_IN_TILE_SOURCES: TileSource[] = [
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    kind: 'xyz',
+    url: ESRI_IMAGERY,
+    attribution: ESRI_IMAGERY_ATTRIBUTION,
+    maxZoom: 19
+  },
+  {
+    id: 'hybrid',
+    name: 'Hybrid',
+    kind: 'xyz',
+    url: ESRI_IMAGERY,
+    attribution: ESRI_IMAGERY_ATTRIBUTION,
+    maxZoom: 19,
+    // Replaces the Stamen toner-labels overlay, which stopped being served in 2023
+    labelsUrl: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}'
+  },
+  {
+    id: 'street',
+    name: 'Street',
+    kind: 'xyz',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19
+  },
+  {
+    id: 'topo',
+    name: 'Topo',
+    kind: 'xyz',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data &copy; OpenStreetMap contributors, SRTM &mdash; Style &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxZoom: 17
+  },
+];
+
+export const TILE_SOURCE_KIND_LABELS: Record<TileSourceKind, string> = {
+  xyz: 'XYZ',
+  wms: 'WMS',
+  wmts: 'WMTS',
+  mbtiles: 'MBTiles',
+  pmtiles: 'PMTiles',
+};
+
+// The opened archive only lives for the session, a File can't be kept in settings
+export const LOCAL_TILE_SOURCE_ID = 'local-archive';
+
+const SETTINGS_KEY = 'mapLayers';
+
+const DEFAULT_SETTINGS: MapLayerSettings = { activeId: BUILT_IN_TILE_SOURCES[0].id, customSources: [] };
+
+export const loadMapLayerSettings = (): MapLayerSettings => {
+  const stored = readSetting<Partial<MapLayerSettings> | null>(SETTINGS_KEY, null);
+  if (!stored || !Array.isArray(stored.customSources)) return DEFAULT_SETTINGS;
+  return {
+    activeId: typeof stored.activeId === 'string' ? stored.activeId : DEFAULT_SETTINGS.activeId,
+    customSources: stored.customSources.filter(s => s && s.id && s.url && ['xyz', 'wms', 'wmts'].includes(s.kind))
+  };
+};
+
+export const saveMapLayerSettings = (settings: MapLayerSettings) => writeSetting(SETTINGS_KEY, settings);
+
+const VIEW_SETTINGS_KEY = 'mapView';
+
+export const loadMapView = (): MapViewState | null => {
+  const stored = readSetting<Partial<MapViewState> | null>(VIEW_SETTINGS_KEY, null);
+  if (!stored || ![stored.lat, stored.lng, stored.zoom].every(v => typeof v === 'number' && isFinite(v))) return null;
+  return stored as MapViewState;
+};
+
+export const saveMapView = (view: MapViewState) => writeSetting(VIEW_SETTINGS_KEY, view);
+
+// Turns a WMTS RESTful ResourceURL template into a Leaflet XYZ template.
+// Only Web Mercator (GoogleMapsCompatible) tile matrix sets line up with Leaflet's grid.
+export const wmtsToXyzTemplate = (url: string) => url
+  .replace(/\{TileMatrix\}/gi, '{z}')
+  .replace(/\{TileRow\}/gi, '{y}')
+  .replace(/\{TileCol\}/gi, '{x}');
+
+export const getTileTemplate = (source: TileSource) =>
+  source.kind === 'wmts' ? wmtsToXyzTemplate(source.url) : source.url;
+
+// Returns an error message, or null when the source can be added
+export const validateTileSource = (source: TileSource): string | null => {
+  if (!source.name.trim()) return 'Give the layer a name';
+  if (!/^https?:\/\//i.test(source.url)) return 'The URL must start with http:// or https://';
+  if (source.kind === 'wms') {
+    return source.layers?.trim() ? null : 'WMS layers need a LAYERS value';
+  }
+  const template = getTileTemplate(source);
+  if (!['{z}', '{x}', '{y}'].every(part => template.includes(part))) {
+    return source.kind === 'wmts'
+      ? 'The WMTS template needs {TileMatrix}, {TileRow} and {TileCol}'
+      : 'The URL template needs {z}, {x} and {y}';
+  }
+  return null;
+};
+
+export const isTileArchiveFile = (file: File) => /\.(mbtiles|pmtiles)$/i.test(file.name);
+
+export const openTileArchive = async (file: File): Promise<{ source: TileSource; archive: TileArchive }> => {
+  const kind: TileSourceKind = /\.pmtiles$/i.test(file.name) ? 'pmtiles' : 'mbtiles';
+  const archive = kind === 'pmtiles' ? await openPmtiles(file) : await openMbtiles(file);
+  return {
+    archive,
+    source: {
+      id: LOCAL_TILE_SOURCE_ID,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      kind,
+      url: file.name,
+      attribution: archive.info.attribution,
+      maxZoom: archive.info.maxZoom
+    }
+  };
+};
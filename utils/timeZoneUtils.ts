@@ -0,0 +1,206 @@
+import { CaptureTime, CaptureTimeEdit, CaptureTimeOptions, ExifTagEdits, GPSData, TimeZoneArea, TimeZoneDataset, UploadedImage, WritableTagName } from '../types';
+import { CENTRAL_ASIA_TIME_ZONES } from './centralAsiaTimeZones';
+import { readGeoJsonFeatures, textProperty } from './geoJsonUtils';
+import { exifDateToTimestamp, hasUsableGps, isPointInPolygon, readWritableTags } from './geoUtils';
+
+// EXIF dates are wall-clock times. These helpers tie them to real instants, using
+// the offset tags when the camera wrote them and the zone at the pin otherwise.
+
+export const DEFAULT_TIME_ZONE = 'Asia/Tashkent';
+
+// New regions are added here; imported boundary files are searched before them
+export const BUILT_IN_TIME_ZONES: TimeZoneDataset[] = [CENTRAL_ASIA_TIME_ZONES];
+
+// Every date the camera writes, shifted together like exiftool's AllDates
+const DATE_TAGS: WritableTagName[] = ['DateTimeOriginal', 'DateTimeDigitized', 'DateTime'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// "+05:00" -> 300. Also takes "+0500" and "Z".
+export const parseUtcOffset = (text?: string): number | undefined => {
+  const trimmed = text?.replace(/\0+$/, '').trim();
+  if (!trimmed) return undefined;
+  if (trimmed === 'Z') return 0;
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(trimmed);
+  if (!match) return undefined;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+export const formatUtcOffset = (minutes: number): string => {
+  const absolute = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The zone's UTC offset at an instant, daylight saving included, from the browser's tz database
+export const getZoneOffsetMinutes = (timeZone: string, instant: number): number => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+};
+
+// The offset a wall-clock time in the zone had. Guessing with the offset at the
+// wall-clock reading and checking once settles everything but the hour skipped
+// or repeated by a daylight saving change, which gets one of its two readings.
+export const getLocalOffsetMinutes = (timeZone: string, wallClock: number): number => {
+  const guess = getZoneOffsetMinutes(timeZone, wallClock);
+  return getZoneOffsetMinutes(timeZone, wallClock - guess * 60 * 1000);
+};
+
+// Epoch milliseconds to "YYYY:MM:DD HH:MM:SS" on a clock at the given offset
+export const timestampToExifDate = (timestamp: number, utcOffsetMinutes = 0): string => {
+  const date = new Date(timestamp + utcOffsetMinutes * 60 * 1000);
+  return `${date.getUTCFullYear()}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+export const shiftExifDate = (exifDate: string, seconds: number): string | null => {
+  const wallClock = exifDateToTimestamp(exifDate);
+  return wallClock === null ? null : timestampToExifDate(wallClock + seconds * 1000);
+};
+
+// "+1", "-0:30", "+1:00:05" (hours, minutes, seconds) to seconds; null if unreadable
+export const parseClockShift = (text: string): number | null => {
+  const match = /^\s*([+-])?\s*(\d+)(?::(\d{1,2}))?(?::(\d{1,2}))?\s*$/.exec(text);
+  if (!match) return null;
+  const [, sign, hours, minutes = '0', seconds = '0'] = match;
+  if (Number(minutes) >= 60 || Number(seconds) >= 60) return null;
+  const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return sign === '-' ? -total : total;
+};
+
+export const formatClockShift = (seconds: number): string => {
+  const absolute = Math.abs(seconds);
+  return `${seconds < 0 ? '-' : '+'}${Math.floor(absolute / 3600)}:${pad(Math.floor(absolute / 60) % 60)}:${pad(absolute % 60)}`;
+};
+
+// Later datasets win, so an imported boundary file overrides the coarse built-in one
+export const findTimeZone = (datasets: TimeZoneDataset[], gps: GPSData): string | undefined => {
+  for (let i = datasets.length - 1; i >= 0; i--) {
+    const zone = datasets[i].zones.find(area => area.polygons.some(polygon => isPointInPolygon(gps, polygon)));
+    if (zone) return zone.tzid;
+  }
+  return undefined;
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// A GeoJSON FeatureCollection with a tzid property per feature, as released by
+// timezone-boundary-builder. Zones this browser doesn't know are skipped.
+export const parseTimeZoneFile = (fileName: string, text: string): TimeZoneDataset => {
+  const zones: TimeZoneArea[] = [];
+  for (const feature of readGeoJsonFeatures(text)) {
+    const tzid = textProperty(feature, 'tzid', 'TZID');
+    const geometry = feature.geometry;
+    if (typeof tzid !== 'string' || !geometry || !isValidTimeZone(tzid)) continue;
+    if (geometry.type === 'Polygon') zones.push({ tzid, polygons: [geometry.coordinates] });
+    else if (geometry.type === 'MultiPolygon') zones.push({ tzid, polygons: geometry.coordinates });
+  }
+
+  if (zones.length === 0) {
+    throw new Error('No time zone areas found. Features need a "tzid" property and polygon geometry.');
+  }
+  return { id: `import-${Date.now()}`, name: baseName(fileName), zones };
+};
+
+const currentTags = (image: UploadedImage): ExifTagEdits => ({
+  ...readWritableTags(image.metadata.rawExifObj),
+  ...image.pendingTags
+});
+
+// Works out when the photo was taken. gps is where the photo is (or is being)
+// pinned, which decides the zone when the file itself says nothing about it.
+export const resolveCaptureTime = (image: UploadedImage, gps: GPSData | undefined, options: CaptureTimeOptions): CaptureTime | null => {
+  const local = String(image.pendingTags?.DateTimeOriginal ?? image.metadata.dateTimeOriginal ?? '').trim();
+  const wallClock = exifDateToTimestamp(local);
+  if (wallClock === null) return null;
+
+  const gpsTime = image.metadata.gps?.timestamp ? Date.parse(image.metadata.gps.timestamp) : NaN;
+  const base = { local, gpsTime: isNaN(gpsTime) ? undefined : gpsTime };
+
+  const offset = parseUtcOffset(String(image.pendingTags?.OffsetTimeOriginal ?? image.metadata.offsetTimeOriginal ?? ''));
+  if (offset !== undefined) {
+    return { ...base, instant: wallClock - offset * 60 * 1000, offsetMinutes: offset, source: 'offset' };
+  }
+
+  // Camera clock minus GPS time is the zone offset plus the camera's drift.
+  // Offsets come in quarter hours, so a few minutes of drift round away.
+  if (base.gpsTime !== undefined) {
+    const minutes = Math.round((wallClock - base.gpsTime) / (15 * 60 * 1000)) * 15;
+    if (Math.abs(minutes) <= 14 * 60) {
+      return { ...base, instant: wallClock - minutes * 60 * 1000, offsetMinutes: minutes, source: 'gps' };
+    }
+  }
+
+  const located = hasUsableGps(gps) ? findTimeZone(options.datasets, gps) : undefined;
+  const timeZone = located || options.defaultTimeZone;
+  const offsetMinutes = getLocalOffsetMinutes(timeZone, wallClock);
+  return {
+    ...base,
+    instant: wallClock - offsetMinutes * 60 * 1000,
+    offsetMinutes,
+    source: located ? 'location' : 'default',
+    timeZone
+  };
+};
+
+// Drops edits that put a tag back to what the file already has
+const withoutUnchanged = (image: UploadedImage, edits: ExifTagEdits): ExifTagEdits => {
+  const original = readWritableTags(image.metadata.rawExifObj);
+  const result: ExifTagEdits = {};
+  for (const [name, value] of Object.entries(edits) as [WritableTagName, string | number][]) {
+    if (original[name] === undefined ? value !== '' : String(original[name]) !== String(value)) result[name] = value;
+  }
+  return result;
+};
+
+// Corrects a camera clock that was set wrong. Every date moves by the same
+// amount; the offsets stay, since the zone was right and the clock was not.
+export const shiftCameraClock = (image: UploadedImage, seconds: number): CaptureTimeEdit => {
+  const tags = currentTags(image);
+  const edits: ExifTagEdits = { ...image.pendingTags };
+  for (const name of DATE_TAGS) {
+    const shifted = typeof tags[name] === 'string' ? shiftExifDate(tags[name] as string, seconds) : null;
+    if (shifted) edits[name] = shifted;
+  }
+  return { imageId: image.id, tags: withoutUnchanged(image, edits) };
+};
+
+// Writes the resolved offset next to each date, and GPS time from the capture
+// instant where the file has no GPS clock reading of its own
+export const stampCaptureTime = (image: UploadedImage, gps: GPSData | undefined, capture: CaptureTime): CaptureTimeEdit => {
+  const tags = currentTags(image);
+  const offset = formatUtcOffset(capture.offsetMinutes);
+  const edits: ExifTagEdits = { ...image.pendingTags, OffsetTimeOriginal: offset };
+  if (tags.DateTimeDigitized) edits.OffsetTimeDigitized = offset;
+  if (tags.DateTime) edits.OffsetTime = offset;
+
+  return {
+    imageId: image.id,
+    tags: withoutUnchanged(image, edits),
+    gps: hasUsableGps(gps) && capture.gpsTime === undefined
+      ? { ...gps, timestamp: new Date(capture.instant).toISOString() }
+      : undefined
+  };
+};
@@ -0,0 +1,189 @@
+import { GPSData, TrackPoint, TrackCorrelationOptions } from '../types';
+import { exifDateToTimestamp } from './geoUtils';
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Track file is not valid XML');
+  }
+  return doc;
+};
+
+// GPX: track and route points that carry a <time>. Waypoints are places marked
+// along the way, not fixes of the path, so they stay out of the interpolation.
+export const parseGpx = (text: string): TrackPoint[] => {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = [];
+
+  for (const tag of ['trkpt', 'rtept']) {
+    for (const el of Array.from(doc.getElementsByTagName(tag))) {
+      const lat = parseFloat(el.getAttribute('lat') || '');
+      const lng = parseFloat(el.getAttribute('lon') || '');
+      const timeText = el.getElementsByTagName('time')[0]?.textContent;
+      const eleText = el.getElementsByTagName('ele')[0]?.textContent;
+      const time = timeText ? Date.parse(timeText) : NaN;
+
+      if (isNaN(lat) || isNaN(lng) || isNaN(time)) continue;
+      points.push({
+        lat,
+        lng,
+        altitude: eleText ? parseFloat(eleText) : undefined,
+        time
+      });
+    }
+  }
+
+  return points;
+};
+
+// KML: gx:Track (<when> paired with <gx:coord>) and timestamped Point placemarks
+export const parseKml = (text: string): TrackPoint[] => {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = [];
+
+  for (const track of Array.from(doc.getElementsByTagNameNS('*', 'Track'))) {
+    const whens = Array.from(track.getElementsByTagNameNS('*', 'when'));
+    const coords = Array.from(track.getElementsByTagNameNS('*', 'coord'));
+    const count = Math.min(whens.length, coords.length);
+
+    for (let i = 0; i < count; i++) {
+      const time = Date.parse(whens[i].textContent || '');
+      const [lng, lat, alt] = (coords[i].textContent || '').trim().split(/\s+/).map(Number);
+      if (isNaN(lat) || isNaN(lng) || isNaN(time)) continue;
+      points.push({ lat, lng, altitude: isNaN(alt) ? undefined : alt, time });
+    }
+  }
+
+  for (const placemark of Array.from(doc.getElementsByTagNameNS('*', 'Placemark'))) {
+    const stamp = placemark.getElementsByTagNameNS('*', 'TimeStamp')[0];
+    const point = placemark.getElementsByTagNameNS('*', 'Point')[0];
+    if (!stamp || !point) continue;
+
+    const time = Date.parse(stamp.getElementsByTagNameNS('*', 'when')[0]?.textContent || '');
+    const coordText = point.getElementsByTagNameNS('*', 'coordinates')[0]?.textContent || '';
+    const [lng, lat, alt] = coordText.trim().split(',').map(Number);
+    if (isNaN(lat) || isNaN(lng) || isNaN(time)) continue;
+    points.push({ lat, lng, altitude: isNaN(alt) ? undefined : alt, time });
+  }
+
+  return points;
+};
+
+// NMEA "ddmm.mmmm" / "dddmm.mmmm" plus hemisphere -> signed decimal degrees
+const nmeaToDecimal = (value: string, hemisphere: string): number => {
+  const raw = parseFloat(value);
+  if (isNaN(raw)) return NaN;
+  const degrees = Math.floor(raw / 100);
+  const decimal = degrees + (raw - degrees * 100) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+};
+
+// NaN unless both the ddmmyy date and the hhmmss time are there; a fix without
+// its date can't be placed on the timeline
+const nmeaTime = (date: string, time: string): number => {
+  if (!/^\d{6}$/.test(date) || !/^\d{6}(\.\d+)?$/.test(time)) return NaN;
+  const day = Number(date.slice(0, 2));
+  const month = Number(date.slice(2, 4));
+  const yy = Number(date.slice(4, 6));
+  const year = yy < 80 ? 2000 + yy : 1900 + yy;
+  const seconds = parseFloat(time.slice(4));
+  return Date.UTC(year, month - 1, day, Number(time.slice(0, 2)), Number(time.slice(2, 4))) + seconds * 1000;
+};
+
+// NMEA 0183: RMC sentences give date, time and position. GGA only has a
+// time of day, so it contributes altitude to the RMC fix with the same time.
+export const parseNmea = (text: string): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  const altitudes = new Map<string, number>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const sentence = line.trim().split('*')[0];
+    const fields = sentence.split(',');
+    const type = fields[0]?.slice(3);
+
+    if (type === 'GGA' && fields[6] !== '0') {
+      const alt = parseFloat(fields[9]);
+      if (!isNaN(alt)) altitudes.set(fields[1], alt);
+    } else if (type === 'RMC' && fields[2] === 'A') {
+      const lat = nmeaToDecimal(fields[3], fields[4]);
+      const lng = nmeaToDecimal(fields[5], fields[6]);
+      const time = nmeaTime(fields[9] || '', fields[1] || '');
+      if (isNaN(lat) || isNaN(lng) || isNaN(time)) continue;
+      points.push({ lat, lng, time, altitude: altitudes.get(fields[1]) });
+    }
+  }
+
+  return points;
+};
+
+export const parseTrackFile = (fileName: string, text: string): TrackPoint[] => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  let points: TrackPoint[];
+
+  if (ext === 'gpx') {
+    points = parseGpx(text);
+  } else if (ext === 'kml') {
+    points = parseKml(text);
+  } else if (ext === 'nmea' || ext === 'txt' || ext === 'log') {
+    points = parseNmea(text);
+  } else {
+    throw new Error(`Unsupported track format: .${ext}`);
+  }
+
+  return points.sort((a, b) => a.time - b.time);
+};
+
+const interpolate = (a: TrackPoint, b: TrackPoint, time: number): GPSData => {
+  const span = b.time - a.time;
+  const t = span === 0 ? 0 : (time - a.time) / span;
+  const altitude = a.altitude !== undefined && b.altitude !== undefined
+    ? a.altitude + (b.altitude - a.altitude) * t
+    : a.altitude ?? b.altitude;
+
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lng: a.lng + (b.lng - a.lng) * t,
+    altitude
+  };
+};
+
+// Position on a time-sorted track at the given instant, or null when the
+// nearest track point is further away in time than maxGapSeconds, or the two
+// points around the instant are, as when the logger was switched off between them.
+export const locateOnTrack = (track: TrackPoint[], time: number, maxGapSeconds: number): GPSData | null => {
+  if (track.length === 0) return null;
+  const maxGap = maxGapSeconds * 1000;
+
+  let lo = 0;
+  let hi = track.length - 1;
+  if (time <= track[lo].time) {
+    return track[lo].time - time <= maxGap ? interpolate(track[lo], track[lo], time) : null;
+  }
+  if (time >= track[hi].time) {
+    return time - track[hi].time <= maxGap ? interpolate(track[hi], track[hi], time) : null;
+  }
+
+  // Narrow down to the pair of points that surrounds the instant
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (track[mid].time <= time) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  if (track[hi].time - track[lo].time > maxGap) return null;
+  return interpolate(track[lo], track[hi], time);
+};
+
+export const correlateTimestamp = (
+  track: TrackPoint[],
+  dateTimeOriginal: string | undefined,
+  options: TrackCorrelationOptions
+): GPSData | null => {
+  if (!dateTimeOriginal) return null;
+  const cameraTime = exifDateToTimestamp(dateTimeOriginal, options.utcOffsetMinutes);
+  if (cameraTime === null) return null;
+  return locateOnTrack(track, cameraTime + options.cameraOffsetSeconds * 1000, options.maxGapSeconds);
+};
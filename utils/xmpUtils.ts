@@ -0,0 +1,344 @@
+import { GPSData, ExifTagEdits, XmpLocation, XmpConflict, UploadedImage } from '../types';
+import { distanceMeters } from './geoUtils';
+
+const NS = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  iptc: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/',
+  iptcExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  dc: 'http://purl.org/dc/elements/1.1/',
+};
+
+// The prefixes property names are written with
+const PREFIXES: Record<string, string> = {
+  exif: NS.exif,
+  tiff: NS.tiff,
+  dc: NS.dc,
+  photoshop: NS.photoshop,
+  Iptc4xmpCore: NS.iptc,
+  Iptc4xmpExt: NS.iptcExt,
+};
+
+export const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// XMP writes GPS coordinates as "DDD,MM.mmmmmmK", e.g. "41,17.970000N"
+export const toXmpCoordinate = (decimal: number, isLat: boolean): string => {
+  const absolute = Math.abs(decimal);
+  const degrees = Math.floor(absolute);
+  const minutes = (absolute - degrees) * 60;
+  const ref = isLat ? (decimal >= 0 ? 'N' : 'S') : (decimal >= 0 ? 'E' : 'W');
+  return `${degrees},${minutes.toFixed(6)}${ref}`;
+};
+
+// "2024:05:17 14:03:22" -> "2024-05-17T14:03:22"
+const exifDateToXmp = (exifDate: string) => exifDate.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T');
+
+const rational = (value: number, precision = 100) => `${Math.round(Math.abs(value) * precision)}/${precision}`;
+
+// Accepts "DDD,MM.mmmK", "DDD,MM,SSK" and plain signed decimals
+export const parseXmpCoordinate = (value: string): number | undefined => {
+  const match = /^\s*(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?\s*([NSEW])\s*$/i.exec(value);
+  if (!match) {
+    const decimal = parseFloat(value);
+    return isNaN(decimal) ? undefined : decimal;
+  }
+  const [, deg, min, sec, ref] = match;
+  const decimal = parseFloat(deg) + parseFloat(min) / 60 + (sec ? parseFloat(sec) / 3600 : 0);
+  return /[SW]/i.test(ref) ? -decimal : decimal;
+};
+
+// XMP rationals are "num/den" strings
+const parseXmpRational = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const [num, den] = value.split('/').map(Number);
+  const result = den === undefined ? num : num / den;
+  return isFinite(result) ? result : undefined;
+};
+
+// A property can be an attribute of any rdf:Description or a child element,
+// and text properties are often wrapped in rdf:Alt / rdf:Seq
+const readProperty = (doc: Document, ns: string, name: string): string | undefined => {
+  for (const desc of Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'))) {
+    const attr = desc.getAttributeNS(ns, name);
+    if (attr) return attr.trim();
+  }
+  const element = doc.getElementsByTagNameNS(ns, name)[0];
+  if (!element) return undefined;
+  const item = element.getElementsByTagNameNS(NS.rdf, 'li')[0];
+  return (item || element).textContent?.trim() || undefined;
+};
+
+const readXmpGps = (doc: Document): GPSData | undefined => {
+  const latValue = readProperty(doc, NS.exif, 'GPSLatitude');
+  const lngValue = readProperty(doc, NS.exif, 'GPSLongitude');
+  const lat = latValue ? parseXmpCoordinate(latValue) : undefined;
+  const lng = lngValue ? parseXmpCoordinate(lngValue) : undefined;
+  if (lat === undefined || lng === undefined) return undefined;
+
+  const gps: GPSData = { lat, lng };
+  const altitude = parseXmpRational(readProperty(doc, NS.exif, 'GPSAltitude'));
+  if (altitude !== undefined) {
+    gps.altitude = readProperty(doc, NS.exif, 'GPSAltitudeRef') === '1' ? -altitude : altitude;
+  }
+  const heading = parseXmpRational(readProperty(doc, NS.exif, 'GPSImgDirection'));
+  if (heading !== undefined) {
+    gps.heading = heading;
+    gps.headingRef = readProperty(doc, NS.exif, 'GPSImgDirectionRef') === 'M' ? 'M' : 'T';
+  }
+  const timestamp = readProperty(doc, NS.exif, 'GPSTimeStamp');
+  if (timestamp && !isNaN(Date.parse(timestamp))) {
+    gps.timestamp = new Date(timestamp).toISOString();
+  }
+  return gps;
+};
+
+// Browsers report broken XML with a <parsererror> document, the CLI's Node implementation
+// throws a ParseError. Anything else, like having no DOMParser at all, is not a bad packet.
+const parseXml = (xml: string): Document | null => {
+  try {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'ParseError') throw error;
+    console.error("Failed to parse XMP", error);
+    return null;
+  }
+};
+
+export const parseXmpPacket = (xml: string): XmpLocation | undefined => {
+  const doc = parseXml(xml);
+  if (!doc) return undefined;
+
+  const location: XmpLocation = {
+    gps: readXmpGps(doc),
+    city: readProperty(doc, NS.photoshop, 'City'),
+    state: readProperty(doc, NS.photoshop, 'State'),
+    country: readProperty(doc, NS.photoshop, 'Country'),
+    countryCode: readProperty(doc, NS.iptc, 'CountryCode'),
+    sublocation: readProperty(doc, NS.iptc, 'Location'),
+  };
+  return Object.values(location).some(v => v !== undefined) ? location : undefined;
+};
+
+// Sidecar values win over the embedded packet, like Lightroom does on "Read Metadata from File"
+export const getXmpLocation = (image: UploadedImage): XmpLocation | undefined => {
+  const { metadata, sidecarXmp } = image;
+  if (!metadata.xmp && !sidecarXmp) return undefined;
+  return { ...metadata.xmp, ...sidecarXmp };
+};
+
+// XMP positions are usually written from the same source as EXIF and only differ by rounding
+export const XMP_CONFLICT_METERS = 5;
+
+export const findXmpConflicts = (image: UploadedImage): XmpConflict[] => {
+  const exifGps = image.metadata.gps;
+  const candidates: XmpConflict[] = [];
+  if (image.metadata.xmp?.gps) candidates.push({ source: 'embedded', gps: image.metadata.xmp.gps });
+  if (image.sidecarXmp?.gps) candidates.push({ source: 'sidecar', gps: image.sidecarXmp.gps });
+
+  return candidates
+    .map(c => ({ ...c, distanceMeters: exifGps ? distanceMeters(exifGps, c.gps) : undefined }))
+    .filter(c => c.distanceMeters === undefined || c.distanceMeters > XMP_CONFLICT_METERS);
+};
+
+const buildGpsProperties = (gps: GPSData): Record<string, string> => {
+  const props: Record<string, string> = {
+    'exif:GPSVersionID': '2.2.0.0',
+    'exif:GPSLatitude': toXmpCoordinate(gps.lat, true),
+    'exif:GPSLongitude': toXmpCoordinate(gps.lng, false),
+  };
+  if (gps.altitude !== undefined) {
+    props['exif:GPSAltitude'] = rational(gps.altitude);
+    props['exif:GPSAltitudeRef'] = gps.altitude < 0 ? '1' : '0';
+  }
+  if (gps.heading !== undefined) {
+    props['exif:GPSImgDirection'] = rational(gps.heading);
+    props['exif:GPSImgDirectionRef'] = gps.headingRef || 'T';
+  }
+  if (gps.speed !== undefined) {
+    props['exif:GPSSpeed'] = rational(gps.speed);
+    props['exif:GPSSpeedRef'] = 'K';
+  }
+  if (gps.timestamp !== undefined) props['exif:GPSTimeStamp'] = gps.timestamp;
+  if (gps.mapDatum !== undefined) props['exif:GPSMapDatum'] = gps.mapDatum;
+  if (gps.positioningError !== undefined) props['exif:GPSHPositioningError'] = rational(gps.positioningError);
+  if (gps.processingMethod !== undefined) props['exif:GPSProcessingMethod'] = gps.processingMethod;
+  if (gps.destBearing !== undefined) {
+    props['exif:GPSDestBearing'] = rational(gps.destBearing);
+    props['exif:GPSDestBearingRef'] = gps.destBearingRef || 'T';
+  }
+  return props;
+};
+
+const buildTagProperties = (edits: ExifTagEdits): Record<string, string> => {
+  const props: Record<string, string> = {};
+  if (edits.DateTimeOriginal) {
+    props['exif:DateTimeOriginal'] = exifDateToXmp(String(edits.DateTimeOriginal)) + (edits.OffsetTimeOriginal || '');
+  }
+  if (edits.Orientation) props['tiff:Orientation'] = String(edits.Orientation);
+  if (edits.Artist) props['tiff:Artist'] = String(edits.Artist);
+  if (edits.UserComment) props['exif:UserComment'] = String(edits.UserComment);
+  return props;
+};
+
+const buildLocationProperties = (location: XmpLocation): Record<string, string> => {
+  const props: Record<string, string> = {};
+  if (location.city) props['photoshop:City'] = location.city;
+  if (location.state) props['photoshop:State'] = location.state;
+  if (location.country) props['photoshop:Country'] = location.country;
+  if (location.countryCode) props['Iptc4xmpCore:CountryCode'] = location.countryCode;
+  if (location.sublocation) props['Iptc4xmpCore:Location'] = location.sublocation;
+  return props;
+};
+
+interface DublinCoreProperty {
+  name: string;
+  container: 'Seq' | 'Alt';
+  value: string;
+}
+
+// dc:* properties are language alternatives or sequences, not simple values
+const buildDublinCore = (edits: ExifTagEdits): DublinCoreProperty[] => {
+  const props: DublinCoreProperty[] = [];
+  if (edits.Artist) props.push({ name: 'creator', container: 'Seq', value: String(edits.Artist) });
+  if (edits.Copyright) props.push({ name: 'rights', container: 'Alt', value: String(edits.Copyright) });
+  if (edits.ImageDescription) props.push({ name: 'description', container: 'Alt', value: String(edits.ImageDescription) });
+  return props;
+};
+
+const buildProperties = (gps: GPSData | undefined, edits: ExifTagEdits, location: XmpLocation): Record<string, string> => ({
+  ...(gps ? buildGpsProperties(gps) : {}),
+  ...buildTagProperties(edits),
+  ...buildLocationProperties(location)
+});
+
+const XPACKET_BEGIN = '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>';
+const XPACKET_END = '<?xpacket end="w"?>';
+
+// Used both for .xmp sidecars and for packets embedded in the image
+export const buildXmpPacket = (gps?: GPSData, edits: ExifTagEdits = {}, location: XmpLocation = {}): string => {
+  const attributes = Object.entries(buildProperties(gps, edits, location))
+    .map(([key, value]) => `   ${key}="${escapeXml(value)}"`)
+    .join('\n');
+  const children = buildDublinCore(edits).map(({ name, container, value }) => {
+    const lang = container === 'Alt' ? ' xml:lang="x-default"' : '';
+    return `   <dc:${name}><rdf:${container}><rdf:li${lang}>${escapeXml(value)}</rdf:li></rdf:${container}></dc:${name}>`;
+  });
+
+  return [
+    XPACKET_BEGIN,
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    `   xmlns:exif="${NS.exif}"`,
+    `   xmlns:tiff="${NS.tiff}"`,
+    `   xmlns:dc="${NS.dc}"`,
+    `   xmlns:photoshop="${NS.photoshop}"`,
+    `   xmlns:Iptc4xmpCore="${NS.iptc}"`,
+    `${attributes}>`,
+    ...children,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    XPACKET_END,
+    ''
+  ].join('\n');
+};
+
+const XMLNS = 'http://www.w3.org/2000/xmlns/';
+
+// Drops a property wherever it is, as an attribute or as a child element of any rdf:Description
+const removeProperties = (descriptions: Element[], matches: (ns: string, name: string) => boolean) => {
+  for (const desc of descriptions) {
+    Array.from(desc.attributes)
+      .filter(attr => attr.namespaceURI && matches(attr.namespaceURI, attr.localName))
+      .forEach(attr => desc.removeAttributeNode(attr));
+    Array.from(desc.childNodes)
+      .filter((node): node is Element => node.nodeType === 1)
+      .filter(element => element.namespaceURI && matches(element.namespaceURI, element.localName))
+      .forEach(element => desc.removeChild(element));
+  }
+};
+
+const splitName = (qualifiedName: string) => {
+  const [prefix, name] = qualifiedName.split(':');
+  return { prefix, name, ns: PREFIXES[prefix] };
+};
+
+// Writes into a packet another tool made, so its keywords, ratings, labels and
+// develop settings survive. A new gps replaces every GPS property of the old
+// packet, and the properties named in cleared are removed.
+// A packet that can't be parsed is replaced by a new one.
+export const mergeXmpPacket = (
+  existing: string,
+  gps?: GPSData,
+  edits: ExifTagEdits = {},
+  location: XmpLocation = {},
+  cleared: string[] = []
+): string => {
+  const doc = parseXml(existing);
+  const rdf = doc?.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+  if (!doc || !rdf) return buildXmpPacket(gps, edits, location);
+
+  const descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+  let target = descriptions[0];
+  if (!target) {
+    target = doc.createElementNS(NS.rdf, 'rdf:Description');
+    target.setAttributeNS(NS.rdf, 'rdf:about', '');
+    rdf.appendChild(target);
+  }
+
+  const props = buildProperties(gps, edits, location);
+  const dublinCore = buildDublinCore(edits);
+  const replaced = new Set([...Object.keys(props), ...cleared].map(key => {
+    const { ns, name } = splitName(key);
+    return `${ns} ${name}`;
+  }));
+  dublinCore.forEach(({ name }) => replaced.add(`${NS.dc} ${name}`));
+  removeProperties(descriptions, (ns, name) => replaced.has(`${ns} ${name}`) || (!!gps && ns === NS.exif && name.startsWith('GPS')));
+
+  for (const [key, value] of Object.entries(props)) {
+    const { prefix, ns } = splitName(key);
+    target.setAttributeNS(XMLNS, `xmlns:${prefix}`, ns);
+    target.setAttributeNS(ns, key, value);
+  }
+  for (const { name, container, value } of dublinCore) {
+    target.setAttributeNS(XMLNS, 'xmlns:dc', NS.dc);
+    const property = doc.createElementNS(NS.dc, `dc:${name}`);
+    const list = doc.createElementNS(NS.rdf, `rdf:${container}`);
+    const item = doc.createElementNS(NS.rdf, 'rdf:li');
+    if (container === 'Alt') item.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:lang', 'x-default');
+    item.textContent = value;
+    list.appendChild(item);
+    property.appendChild(list);
+    target.appendChild(property);
+  }
+
+  // Sidecars may come with or without the xpacket wrapper and an XML declaration, the output always has it
+  return [
+    XPACKET_BEGIN,
+    new XMLSerializer().serializeToString(doc.documentElement),
+    XPACKET_END,
+    ''
+  ].join('\n');
+};
+
+// Lightroom convention: IMG_0001.HEIC -> IMG_0001.xmp
+export const toSidecarName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}.xmp`;
+};
+
+export const isXmpSidecarFile = (file: File): boolean => /\.xmp$/i.test(file.name);
+
+// Matches both IMG_0001.xmp (Lightroom) and IMG_0001.HEIC.xmp (darktable)
+export const matchesSidecar = (imageName: string, sidecarName: string): boolean => {
+  const sidecar = sidecarName.toLowerCase();
+  return sidecar === toSidecarName(imageName).toLowerCase() || sidecar === `${imageName.toLowerCase()}.xmp`;
+};
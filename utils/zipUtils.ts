@@ -0,0 +1,175 @@
+// Minimal ZIP writer using the "stored" method. JPEGs are already compressed,
+// so deflating them again costs time and saves next to nothing. Entries are
+// pushed to a sink one by one, which lets the archive be streamed to disk
+// without holding every file in memory at once.
+
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+export interface ZipWriter {
+  addFile: (name: string, data: Uint8Array, modified?: Date) => Promise<void>;
+  finish: () => Promise<void>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date/time as used by ZIP headers (2 second resolution, from 1980)
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32 = 0xFFFFFFFF;
+// The end record counts entries in 16 bits, more would need ZIP64
+const MAX_ZIP32_ENTRIES = 0xFFFF;
+
+export const createZipWriter = (sink: ZipSink): ZipWriter => {
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  const write = async (chunk: Uint8Array) => {
+    await sink(chunk);
+    offset += chunk.length;
+  };
+
+  const addFile = async (name: string, data: Uint8Array, modified = new Date()) => {
+    const nameBytes = encoder.encode(name);
+    const { time, date } = toDosDateTime(modified);
+    const crc = crc32(data);
+
+    if (offset + data.length + 30 + nameBytes.length > MAX_ZIP32) {
+      throw new Error('Archive exceeds 4 GB, export fewer images at a time');
+    }
+    if (entries.length >= MAX_ZIP32_ENTRIES) {
+      throw new Error(`Archive exceeds ${MAX_ZIP32_ENTRIES} files, export fewer images at a time`);
+    }
+
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034B50, true); // Local file header signature
+    view.setUint16(4, 20, true); // Version needed to extract
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true); // Stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(nameBytes, 30);
+
+    entries.push({ name: nameBytes, crc, size: data.length, offset, dosTime: time, dosDate: date });
+    await write(header);
+    await write(data);
+  };
+
+  const finish = async () => {
+    const centralStart = offset;
+
+    for (const entry of entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014B50, true); // Central directory signature
+      view.setUint16(4, 20, true); // Version made by
+      view.setUint16(6, 20, true); // Version needed to extract
+      view.setUint16(8, UTF8_FLAG, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.dosTime, true);
+      view.setUint16(14, entry.dosDate, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+      await write(record);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054B50, true); // End of central directory signature
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, offset - centralStart, true);
+    view.setUint32(16, centralStart, true);
+    await write(end);
+  };
+
+  return { addFile, finish };
+};
+
+// Reads archives written by createZipWriter (stored entries only, no ZIP64).
+// Entries are returned as slices of the original Blob, nothing is loaded until used.
+export const readZipEntries = async (archive: Blob): Promise<Map<string, Blob>> => {
+  // The end of central directory record is the last 22 bytes, plus up to 64 KB of comment
+  const tailStart = Math.max(0, archive.size - 22 - 0xFFFF);
+  const tail = new Uint8Array(await archive.slice(tailStart).arrayBuffer());
+  const tailView = new DataView(tail.buffer);
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === 0x06054B50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP archive');
+
+  const count = tailView.getUint16(end + 10, true);
+  const centralSize = tailView.getUint32(end + 12, true);
+  const centralStart = tailView.getUint32(end + 16, true);
+  const central = new DataView(await archive.slice(centralStart, centralStart + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Blob>();
+
+  let at = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(at, true) !== 0x02014B50) throw new Error('The ZIP central directory is damaged');
+    const method = central.getUint16(at + 10, true);
+    const size = central.getUint32(at + 20, true);
+    const nameLength = central.getUint16(at + 28, true);
+    const extraLength = central.getUint16(at + 30, true);
+    const commentLength = central.getUint16(at + 32, true);
+    const offset = central.getUint32(at + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, at + 46, nameLength));
+    if (method !== 0) throw new Error(`${name} is compressed, only archives saved by this app can be opened`);
+
+    // The local header repeats the name and may have its own extra field
+    const local = new DataView(await archive.slice(offset, offset + 30).arrayBuffer());
+    const dataStart = offset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.set(name, archive.slice(dataStart, dataStart + size));
+    at += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
@@ -1,12 +1,28 @@
 declare module '*.css';
 
 declare module 'piexifjs' {
-  export const load: (data: string) => any;
-  export const dump: (exifObj: any) => string;
+  type ExifObject = import('./types').ExifObject;
+  export const load: (data: string) => ExifObject;
+  export const dump: (exifObj: ExifObject) => string;
   export const insert: (exifStr: string, jpegStr: string) => string;
-  export const ImageIFD: any;
-  export const ExifIFD: any;
-  export const GPSIFD: any;
+  export const remove: (jpegStr: string) => string;
+  export const TAGS: Record<string, Record<number, { name: string; type: string }>>;
+  export const ImageIFD: Record<string, number>;
+  export const ExifIFD: Record<string, number>;
+  export const GPSIFD: Record<string, number>;
 }
 
-declare module 'file-saver';
\ No newline at end of file
+// File System Access API, Chromium only and not in TypeScript's DOM types yet
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}
+
+declare module '*.png' {
+  const src: string;
+  export default src;
+}